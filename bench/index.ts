@@ -0,0 +1,74 @@
+import { PacketDefinition } from "../src/packets";
+import { DataViewTracker, f32, ByteArray, Str, StructVec, u16, u8, VarInt, Vec } from "../src/data";
+import { PacketWriter } from "../src/writer";
+
+// A game state update similar to the ones sent at 60 Hz
+const StatePacket = new PacketDefinition(0x10, {
+    tick: VarInt,
+    players: StructVec({
+        id: u16,
+        name: Str,
+        x: f32,
+        y: f32,
+        health: u8
+    }, ['id', 'name', 'x', 'y', 'health']),
+    events: Vec(VarInt),
+    chunk: ByteArray
+}, ['tick', 'players', 'events', 'chunk'])
+
+const state = {
+    tick: 123456,
+    players: Array.from({length: 16}, (_, i) => ({
+        id: i,
+        name: `Player ${i}`,
+        x: i * 1.5,
+        y: i * -2.25,
+        health: 100
+    })),
+    events: [1, 2, 3, 4, 5, 6, 7, 8],
+    chunk: new Uint8Array(4096).map((_, i) => i & 0xFF)
+}
+
+/**
+ * Runs the provided function for the provided number of iterations
+ * after warming up and prints the number of operations per second
+ *
+ * @param name The name of the benchmark
+ * @param iterations The number of iterations to run
+ * @param fn The function to benchmark
+ */
+function bench(name: string, iterations: number, fn: () => void) {
+    for (let i = 0; i < iterations / 10; i++) fn()
+    const start = performance.now()
+    for (let i = 0; i < iterations; i++) fn()
+    const elapsed = performance.now() - start
+    const ops = Math.round(iterations / (elapsed / 1000))
+    console.log(`${name.padEnd(40)} ${ops.toLocaleString().padStart(12)} ops/sec`)
+}
+
+const ITERATIONS = 20000
+const tracker = new DataViewTracker()
+const writer = new PacketWriter()
+const batchWriter = new PacketWriter()
+
+bench('PacketDefinition.create (size + encode)', ITERATIONS, () => {
+    StatePacket.create(tracker, state)
+})
+
+bench('PacketWriter.write + toBuffer', ITERATIONS, () => {
+    writer.reset()
+    writer.write(StatePacket, state)
+    writer.toBuffer()
+})
+
+bench('PacketWriter.write (zero copy bytes)', ITERATIONS, () => {
+    writer.reset()
+    writer.write(StatePacket, state)
+    writer.bytes()
+})
+
+bench('PacketWriter.write x10 into one buffer', ITERATIONS / 10, () => {
+    batchWriter.reset()
+    for (let i = 0; i < 10; i++) batchWriter.write(StatePacket, state)
+    batchWriter.bytes()
+})
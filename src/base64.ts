@@ -0,0 +1,44 @@
+// The characters used for base64
+const Base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Encodes the bytes as base64
+ *
+ * @param bytes The bytes to encode
+ * @return The base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let out = ''
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+        out += Base64Chars[(n >> 18) & 63] + Base64Chars[(n >> 12) & 63]
+        out += i + 1 < bytes.length ? Base64Chars[(n >> 6) & 63] : '='
+        out += i + 2 < bytes.length ? Base64Chars[n & 63] : '='
+    }
+    return out
+}
+
+/**
+ * Decodes the base64 string
+ *
+ * @param text The base64 string
+ * @return The decoded bytes
+ * @throws Error If the string isn't valid base64
+ */
+export function fromBase64(text: string): Uint8Array {
+    const end = text.indexOf('=')
+    const length = end === -1 ? text.length : end
+    const out = new Uint8Array(Math.floor(length * 3 / 4))
+    let buffer = 0, bits = 0, offset = 0
+    for (let i = 0; i < length; i++) {
+        const value = Base64Chars.indexOf(text[i])
+        if (value === -1) throw new Error(`Invalid base64 character ${JSON.stringify(text[i])}`)
+        buffer = (buffer << 6) | value
+        bits += 6
+        if (bits >= 8) {
+            bits -= 8
+            out[offset++] = (buffer >> bits) & 0xFF
+        }
+    }
+    return out
+}
@@ -0,0 +1,155 @@
+import { ByteArray, DataViewTracker, VarInt } from "./data";
+import { PacketWriter } from "./writer";
+
+export interface BatchConfig {
+    // When the batch is sent, either in a microtask or after a delay in milliseconds (default "microtask")
+    flush?: 'microtask' | number;
+    // The size in bytes at which the batch is sent straight away
+    maxSize?: number;
+}
+
+/**
+ * Creates a batch frame containing the provided packets
+ *
+ * Encoding:
+ * for each packet {
+ *     Length  VarInt
+ *     Packet  Bytes
+ * }
+ *
+ * @param packets The encoded packets
+ * @return The batch frame
+ */
+export function frameBatch(packets: ArrayBuffer[]): ArrayBuffer {
+    const writer = new PacketWriter()
+    for (let packet of packets) {
+        writer.encode((view, tracker) => ByteArray.encode(view, tracker, new Uint8Array(packet)))
+    }
+    return writer.toBuffer()
+}
+
+/**
+ * Splits a batch frame into views of each of the packets
+ * in the order they were added to the batch
+ *
+ * @param data The batch frame
+ * @param tracker The tracker to use for reading
+ * @return Views of each packet in the frame
+ * @throws DecodeError If the frame is malformed
+ */
+export function splitBatch(data: ArrayBuffer, tracker: DataViewTracker): DataView[] {
+    const view = new DataView(data)
+    const packets: DataView[] = []
+    tracker.bound(view)
+    try {
+        while (tracker.current() < view.byteLength) {
+            const length = VarInt.decode(view, tracker)
+            packets.push(new DataView(data, tracker.many(length), length))
+        }
+    } finally {
+        tracker.reset()
+    }
+    return packets
+}
+
+/**
+ * Collects encoded packets into a batch frame which is sent once the
+ * flush delay has passed or the batch reaches the max size
+ */
+export class Batcher {
+    // The batch configuration
+    private readonly config: BatchConfig
+    // The function which sends the batch frames
+    private readonly send: (frame: ArrayBuffer) => void
+    // The function which is given errors thrown while sending a scheduled flush
+    private readonly error?: (error: unknown) => void
+    // The batch that packets are written into
+    private writer: PacketWriter = new PacketWriter()
+    // Whether a flush has been scheduled
+    private scheduled: boolean = false
+    // The timer for the scheduled flush (when using a delay)
+    private timer?: ReturnType<typeof setTimeout>
+
+    /**
+     * Creates a new batcher
+     *
+     * @param config The batch configuration
+     * @param send The function which sends the batch frames
+     * @param error The function which is given errors thrown while sending a scheduled
+     *              flush (they are thrown from the microtask or timer when not provided)
+     */
+    constructor(config: BatchConfig, send: (frame: ArrayBuffer) => void, error?: (error: unknown) => void) {
+        this.config = config
+        this.send = send
+        this.error = error
+    }
+
+    /**
+     * Adds an encoded packet to the batch
+     *
+     * @param packet The encoded packet
+     */
+    add(packet: ArrayBuffer) {
+        this.writer.encode((view, tracker) => ByteArray.encode(view, tracker, new Uint8Array(packet)))
+        const maxSize = this.config.maxSize
+        if (maxSize !== undefined && this.writer.size() >= maxSize) {
+            this.flush()
+        } else if (!this.scheduled) {
+            this.scheduled = true
+            const flush = this.config.flush ?? 'microtask'
+            if (flush === 'microtask') {
+                Promise.resolve().then(() => this.scheduledFlush())
+            } else {
+                this.timer = setTimeout(() => this.scheduledFlush(), flush)
+            }
+        }
+    }
+
+    /**
+     * Sends the current batch straight away
+     */
+    flush() {
+        this.cancel()
+        if (this.writer.size() === 0) return
+        const frame = this.writer.toBuffer()
+        this.writer.reset()
+        this.send(frame)
+    }
+
+    /**
+     * Sends the current batch once the flush delay has passed. There's no
+     * caller to throw to so errors are given to the error function instead
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private scheduledFlush() {
+        if (!this.scheduled) return
+        try {
+            this.flush()
+        } catch (e) {
+            if (!this.error) throw e
+            this.error(e)
+        }
+    }
+
+    /**
+     * Discards the current batch without sending it
+     */
+    clear() {
+        this.cancel()
+        this.writer.reset()
+    }
+
+    /**
+     * Cancels the scheduled flush
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private cancel() {
+        this.scheduled = false
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+    }
+}
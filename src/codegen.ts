@@ -0,0 +1,237 @@
+import { ResolvedStruct, resolveSchema, Schema, SchemaType } from "./schema";
+
+// The comment placed at the top of all generated files
+const HEADER = 'Code generated from schema. DO NOT EDIT.'
+
+export interface TypeScriptOptions {
+    // The module the data types are imported from (default "wsbps-js")
+    module?: string;
+}
+
+export interface GoOptions {
+    // The name of the go package (default "packets")
+    package?: string;
+}
+
+/**
+ * Converts the provided name to PascalCase e.g. "user_name" -> "UserName"
+ *
+ * @param name The name to convert
+ */
+function pascalCase(name: string): string {
+    return name
+        .split('_')
+        .filter(part => part.length > 0)
+        .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('')
+}
+
+/**
+ * Converts the provided name to snake_case e.g. "userName" -> "user_name"
+ *
+ * @param name The name to convert
+ */
+function snakeCase(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+        .toLowerCase()
+}
+
+/**
+ * Creates the string representation of a parsed type
+ * in the same form as the schema type expressions
+ *
+ * @param type The type to describe
+ */
+function describe(type: SchemaType): string {
+    switch (type.kind) {
+        case "primitive":
+        case "struct":
+            return type.name
+        case "vec":
+            return `Vec<${describe(type.of)}>`
+        case "map":
+            return `Map<${describe(type.key)}, ${describe(type.value)}>`
+        case "optional":
+            return `Optional<${describe(type.of)}>`
+        case "array":
+            return `Array<${describe(type.of)}, ${type.length}>`
+        case "tuple":
+            return `Tuple<${type.of.map(describe).join(', ')}>`
+    }
+}
+
+/**
+ * Generates TypeScript code containing the Struct data types and
+ * PacketDefinitions described by the schema
+ *
+ * @param schema The schema to generate from
+ * @param options The generator options
+ * @return The generated TypeScript source
+ * @throws SchemaError If the schema is invalid
+ */
+export function generateTypeScript(schema: Schema, options?: TypeScriptOptions): string {
+    const resolved = resolveSchema(schema)
+    const imports: string[] = [];
+
+    const use = (name: string) => {
+        if (imports.indexOf(name) === -1) imports.push(name)
+    }
+
+    const typeName = (type: SchemaType): string => {
+        switch (type.kind) {
+            case "primitive":
+                use(type.name)
+                return type.name
+            case "struct":
+                return type.name
+            case "vec":
+                use('Vec')
+                return `Vec(${typeName(type.of)})`
+            case "map":
+                use('MapType')
+                return `MapType(${typeName(type.key)}, ${typeName(type.value)})`
+            case "optional":
+                use('Optional')
+                return `Optional(${typeName(type.of)})`
+            case "array":
+                use('FixedArray')
+                return `FixedArray(${typeName(type.of)}, ${type.length})`
+            case "tuple":
+                use('Tuple')
+                return `Tuple(${type.of.map(typeName).join(', ')})`
+        }
+    }
+
+    const layout = (struct: ResolvedStruct): string => {
+        const fields = struct.fields.map(field => `    ${field.name}: ${typeName(field.type)},\n`).join('')
+        const keys = struct.fields.map(field => `'${field.name}'`).join(', ')
+        return `{\n${fields}}, [${keys}]`
+    }
+
+    let body = '';
+    for (let struct of resolved.structs) {
+        use('Struct')
+        body += `\nexport const ${struct.name} = Struct(${layout(struct)})\n`
+    }
+    for (let packet of resolved.packets) {
+        use('PacketDefinition')
+        body += `\nexport const ${packet.name} = new PacketDefinition(0x${packet.id.toString(16)}, ${layout(packet)})\n`
+    }
+    const module = options?.module ?? 'wsbps-js'
+    return `// ${HEADER}\nimport { ${imports.join(', ')} } from "${module}";\n${body}`
+}
+
+/**
+ * Generates Go code containing the structs described by the schema
+ * and constants for the ids of each packet
+ *
+ * @param schema The schema to generate from
+ * @param options The generator options
+ * @return The generated Go source
+ * @throws SchemaError If the schema is invalid
+ */
+export function generateGo(schema: Schema, options?: GoOptions): string {
+    const resolved = resolveSchema(schema)
+    const primitives: Record<string, string> = {
+        i8: 'int8', i16: 'int16', i32: 'int32', i64: 'int64',
+        u8: 'uint8', u16: 'uint16', u32: 'uint32', u64: 'uint64',
+        f32: 'float32', f64: 'float64',
+        VarInt: 'uint32', VarLong: 'uint64', VarI32: 'int32', VarI64: 'int64',
+        bool: 'bool', Str: 'string', Latin1Str: 'string', ByteArray: '[]byte'
+    }
+
+    const typeName = (type: SchemaType): string => {
+        switch (type.kind) {
+            case "primitive":
+                return primitives[type.name]
+            case "struct":
+                return type.name
+            case "vec":
+                return `[]${typeName(type.of)}`
+            case "map":
+                return `map[${typeName(type.key)}]${typeName(type.value)}`
+            case "optional":
+                return `*${typeName(type.of)}`
+            case "array":
+                return `[${type.length}]${typeName(type.of)}`
+            case "tuple":
+                // Go doesn't have tuples so an anonymous struct with the same encoding is used
+                return `struct { ${type.of.map((of, i) => `V${i} ${typeName(of)}`).join('; ')} }`
+        }
+    }
+
+    const structCode = (struct: ResolvedStruct): string => {
+        const fields = struct.fields.map(field => `\t${pascalCase(field.name)} ${typeName(field.type)} // ${describe(field.type)}\n`)
+        return `\ntype ${struct.name} struct {\n${fields.join('')}}\n`
+    }
+
+    let out = `// ${HEADER}\n\npackage ${options?.package ?? 'packets'}\n`
+    if (resolved.packets.length > 0) {
+        out += '\nconst (\n'
+        for (let packet of resolved.packets) {
+            out += `\t${packet.name}ID = 0x${packet.id.toString(16)}\n`
+        }
+        out += ')\n'
+    }
+    for (let value of resolved.structs) out += structCode(value)
+    for (let value of resolved.packets) out += structCode(value)
+    return out
+}
+
+/**
+ * Generates Rust code containing the structs described by the schema
+ * and constants for the ids of each packet
+ *
+ * @param schema The schema to generate from
+ * @return The generated Rust source
+ * @throws SchemaError If the schema is invalid
+ */
+export function generateRust(schema: Schema): string {
+    const resolved = resolveSchema(schema)
+    const primitives: Record<string, string> = {
+        i8: 'i8', i16: 'i16', i32: 'i32', i64: 'i64',
+        u8: 'u8', u16: 'u16', u32: 'u32', u64: 'u64',
+        f32: 'f32', f64: 'f64',
+        VarInt: 'u32', VarLong: 'u64', VarI32: 'i32', VarI64: 'i64',
+        bool: 'bool', Str: 'String', Latin1Str: 'String', ByteArray: 'Vec<u8>'
+    }
+    let usesMap = false;
+
+    const typeName = (type: SchemaType): string => {
+        switch (type.kind) {
+            case "primitive":
+                return primitives[type.name]
+            case "struct":
+                return type.name
+            case "vec":
+                return `Vec<${typeName(type.of)}>`
+            case "map":
+                usesMap = true
+                return `HashMap<${typeName(type.key)}, ${typeName(type.value)}>`
+            case "optional":
+                return `Option<${typeName(type.of)}>`
+            case "array":
+                return `[${typeName(type.of)}; ${type.length}]`
+            case "tuple":
+                return `(${type.of.map(typeName).join(', ')})`
+        }
+    }
+
+    const structCode = (struct: ResolvedStruct): string => {
+        const fields = struct.fields.map(field => `    pub ${snakeCase(field.name)}: ${typeName(field.type)}, // ${describe(field.type)}\n`)
+        return `\npub struct ${struct.name} {\n${fields.join('')}}\n`
+    }
+
+    let body = '';
+    if (resolved.packets.length > 0) {
+        body += '\n'
+        for (let packet of resolved.packets) {
+            body += `pub const ${snakeCase(packet.name).toUpperCase()}_ID: u32 = 0x${packet.id.toString(16)};\n`
+        }
+    }
+    for (let value of resolved.structs) body += structCode(value)
+    for (let value of resolved.packets) body += structCode(value)
+    return `// ${HEADER}\n${usesMap ? '\nuse std::collections::HashMap;\n' : ''}${body}`
+}
@@ -0,0 +1,783 @@
+import {
+    arbitraryValue, DataType, DataViewTracker, decodeJSONValue, encodeJSONValue, jsonSchemaOf, nameOf, validateValue, VarInt,
+    VarIntSize
+} from "./data";
+import { DecodeError } from "./errors";
+import { PacketWriter } from "./writer";
+
+export interface CompressionConfig {
+    // Frames smaller than this many bytes are sent uncompressed (default 1024)
+    threshold?: number;
+    // Whether CompressionStream is used when it's available (default true)
+    native?: boolean;
+}
+
+// The compression flag at the start of each frame
+const FrameUncompressed = 0
+const FrameDeflate = 1
+
+// The base lengths and number of extra bits for the length codes 257 - 285
+const LengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+// The base distances and number of extra bits for the distance codes 0 - 29
+const DistanceBase = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DistanceExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+// The order the code length code lengths are stored in for dynamic blocks
+const CodeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+// The size of the window that matches can refer back into
+const WindowSize = 32768
+// The shortest and longest matches that can be encoded
+const MinMatch = 3
+const MaxMatch = 258
+// The number of bits used for the match hash table
+const HashBits = 15
+// The maximum number of previous positions checked for a match
+const MaxChain = 64
+
+/**
+ * Writes bits least significant bit first into
+ * a growable buffer
+ */
+class BitWriter {
+    // The buffer bytes are written into
+    private bytes: Uint8Array;
+    // The number of bytes written
+    private length: number = 0;
+    // Bits that haven't filled a whole byte yet
+    private buffer: number = 0;
+    // The number of bits in the bit buffer
+    private count: number = 0;
+
+    constructor(size: number) {
+        this.bytes = new Uint8Array(Math.max(16, size))
+    }
+
+    /**
+     * Writes the lowest bits of the provided value
+     *
+     * @param value The value to write
+     * @param count The number of bits to write
+     */
+    bits(value: number, count: number) {
+        this.buffer |= value << this.count
+        this.count += count
+        while (this.count >= 8) {
+            this.byte(this.buffer & 0xFF)
+            this.buffer >>>= 8
+            this.count -= 8
+        }
+    }
+
+    /**
+     * Writes a Huffman code (these are stored most significant bit first)
+     *
+     * @param code The Huffman code
+     * @param length The length of the code in bits
+     */
+    code(code: number, length: number) {
+        let reversed = 0
+        for (let i = 0; i < length; i++) {
+            reversed = (reversed << 1) | ((code >>> i) & 1)
+        }
+        this.bits(reversed, length)
+    }
+
+    /**
+     * Pads the remaining bits so that the next write starts on a byte boundary
+     */
+    align() {
+        if (this.count > 0) {
+            this.byte(this.buffer & 0xFF)
+            this.buffer = 0
+            this.count = 0
+        }
+    }
+
+    /**
+     * Writes a whole byte (the writer must be aligned)
+     *
+     * @param value The byte to write
+     */
+    byte(value: number) {
+        if (this.length >= this.bytes.length) {
+            const bytes = new Uint8Array(this.bytes.length * 2)
+            bytes.set(this.bytes)
+            this.bytes = bytes
+        }
+        this.bytes[this.length++] = value
+    }
+
+    /**
+     * @return The number of whole bytes written
+     */
+    size(): number {
+        return this.length
+    }
+
+    /**
+     * Aligns the writer and returns the written bytes
+     *
+     * @return A view of the written bytes
+     */
+    finish(): Uint8Array {
+        this.align()
+        return this.bytes.subarray(0, this.length)
+    }
+}
+
+/**
+ * Calculates the Adler-32 checksum used by the zlib format
+ *
+ * @param data The data to calculate the checksum of
+ * @return The checksum
+ */
+function adler32(data: Uint8Array): number {
+    let a = 1, b = 0
+    let i = 0
+    while (i < data.length) {
+        // The largest number of bytes that can be summed before the values need reducing
+        const end = Math.min(data.length, i + 5552)
+        for (; i < end; i++) {
+            a += data[i]
+            b += a
+        }
+        a %= 65521
+        b %= 65521
+    }
+    return ((b << 16) | a) >>> 0
+}
+
+/**
+ * Finds the index of the largest base that is less than or
+ * equal to the provided value
+ *
+ * @param bases The base values in ascending order
+ * @param value The value to find the base for
+ * @return The index of the base
+ */
+function baseIndex(bases: number[], value: number): number {
+    let index = bases.length - 1
+    while (bases[index] > value) index--
+    return index
+}
+
+/**
+ * Writes a literal or length symbol using the fixed Huffman codes
+ *
+ * @param w The writer to write to
+ * @param symbol The symbol (0 - 287)
+ */
+function writeFixedSymbol(w: BitWriter, symbol: number) {
+    if (symbol < 144) {
+        w.code(0x30 + symbol, 8)
+    } else if (symbol < 256) {
+        w.code(0x190 + symbol - 144, 9)
+    } else if (symbol < 280) {
+        w.code(symbol - 256, 7)
+    } else {
+        w.code(0xC0 + symbol - 280, 8)
+    }
+}
+
+/**
+ * Compresses the data as a single block using the fixed Huffman codes
+ * with matches found using a hash chain over the previous 32KB
+ *
+ * @param w The writer to write to
+ * @param data The data to compress
+ */
+function deflateFixed(w: BitWriter, data: Uint8Array) {
+    // Final block using the fixed Huffman codes
+    w.bits(1, 1)
+    w.bits(1, 2)
+    const length = data.length
+    const mask = WindowSize - 1
+    const head = new Int32Array(1 << HashBits)
+    const previous = new Int32Array(WindowSize)
+    for (let i = 0; i < head.length; i++) head[i] = -1
+    const insert = (position: number) => {
+        const hash = ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & ((1 << HashBits) - 1)
+        const candidate = head[hash]
+        previous[position & mask] = candidate
+        head[hash] = position
+        return candidate
+    }
+    let i = 0
+    while (i < length) {
+        let bestLength = 0, bestDistance = 0
+        if (i + MinMatch <= length) {
+            const max = Math.min(MaxMatch, length - i)
+            let candidate = insert(i)
+            let chain = MaxChain
+            while (candidate >= 0 && i - candidate <= WindowSize && chain-- > 0) {
+                let matched = 0
+                while (matched < max && data[candidate + matched] === data[i + matched]) matched++
+                if (matched > bestLength) {
+                    bestLength = matched
+                    bestDistance = i - candidate
+                    if (matched === max) break
+                }
+                const next = previous[candidate & mask]
+                if (next >= candidate) break
+                candidate = next
+            }
+        }
+        if (bestLength >= MinMatch) {
+            const lengthIndex = baseIndex(LengthBase, bestLength)
+            writeFixedSymbol(w, 257 + lengthIndex)
+            w.bits(bestLength - LengthBase[lengthIndex], LengthExtra[lengthIndex])
+            const distanceIndex = baseIndex(DistanceBase, bestDistance)
+            w.code(distanceIndex, 5)
+            w.bits(bestDistance - DistanceBase[distanceIndex], DistanceExtra[distanceIndex])
+            for (let j = i + 1; j < i + bestLength && j + MinMatch <= length; j++) insert(j)
+            i += bestLength
+        } else {
+            writeFixedSymbol(w, data[i])
+            i++
+        }
+    }
+    // End of block
+    writeFixedSymbol(w, 256)
+}
+
+/**
+ * Stores the data without compressing it (used when the
+ * data doesn't compress)
+ *
+ * @param w The writer to write to
+ * @param data The data to store
+ */
+function deflateStored(w: BitWriter, data: Uint8Array) {
+    let offset = 0
+    do {
+        const length = Math.min(65535, data.length - offset)
+        const final = offset + length >= data.length
+        w.bits(final ? 1 : 0, 1)
+        w.bits(0, 2)
+        w.align()
+        w.byte(length & 0xFF)
+        w.byte(length >>> 8)
+        w.byte(~length & 0xFF)
+        w.byte((~length >>> 8) & 0xFF)
+        for (let i = 0; i < length; i++) w.byte(data[offset + i])
+        offset += length
+    } while (offset < data.length)
+}
+
+/**
+ * Compresses the provided data using deflate in the zlib format (the same
+ * format as CompressionStream with "deflate"). This is a pure TypeScript
+ * implementation used when CompressionStream isn't available
+ *
+ * @param data The data to compress
+ * @return The compressed data
+ */
+export function deflateSync(data: Uint8Array): Uint8Array {
+    let w = new BitWriter(data.length / 2 + 16)
+    // The zlib header (deflate with a 32KB window)
+    w.bits(0x78, 8)
+    w.bits(0x01, 8)
+    deflateFixed(w, data)
+    // Data that doesn't compress is stored instead (5 bytes of overhead per 64KB block)
+    if (w.size() > data.length + 2 + Math.ceil((data.length + 1) / 65535) * 5) {
+        w = new BitWriter(data.length + 16)
+        w.bits(0x78, 8)
+        w.bits(0x01, 8)
+        deflateStored(w, data)
+    }
+    w.align()
+    const checksum = adler32(data)
+    w.byte(checksum >>> 24)
+    w.byte((checksum >>> 16) & 0xFF)
+    w.byte((checksum >>> 8) & 0xFF)
+    w.byte(checksum & 0xFF)
+    return w.finish()
+}
+
+// A canonical Huffman code used for decoding
+interface Huffman {
+    // The number of codes of each length
+    counts: Uint16Array;
+    // The symbols ordered by their codes
+    symbols: Uint16Array;
+}
+
+/**
+ * Creates the canonical Huffman code from the code lengths
+ * of each symbol (symbols with a length of 0 are unused)
+ *
+ * @param lengths The code length of each symbol
+ * @return The Huffman code
+ */
+function huffman(lengths: ArrayLike<number>): Huffman {
+    const counts = new Uint16Array(16)
+    for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++
+    counts[0] = 0
+    const offsets = new Uint16Array(16)
+    for (let i = 1; i < 15; i++) offsets[i + 1] = offsets[i] + counts[i]
+    const symbols = new Uint16Array(lengths.length)
+    for (let i = 0; i < lengths.length; i++) {
+        if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i
+    }
+    return {counts, symbols}
+}
+
+// The fixed Huffman codes (created when first needed)
+let fixedCodes: { lengths: Huffman, distances: Huffman } | undefined
+
+/**
+ * @return The fixed literal/length and distance Huffman codes
+ */
+function fixedHuffman(): { lengths: Huffman, distances: Huffman } {
+    if (!fixedCodes) {
+        const lengths = new Uint8Array(288)
+        for (let i = 0; i < 288; i++) lengths[i] = i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8
+        const distances = new Uint8Array(30)
+        for (let i = 0; i < 30; i++) distances[i] = 5
+        fixedCodes = {lengths: huffman(lengths), distances: huffman(distances)}
+    }
+    return fixedCodes
+}
+
+/**
+ * Decompresses the provided zlib deflate data. The output is checked against
+ * the max size as it's written so that small inputs which expand into huge
+ * outputs (decompression bombs) are rejected without allocating the output
+ *
+ * @param data The compressed data
+ * @param maxSize The largest allowed size of the decompressed data
+ * @param fail Creates the error thrown when the data is invalid
+ * @return The decompressed data
+ */
+function inflateZlib(data: Uint8Array, maxSize: number, fail: (message: string) => Error): Uint8Array {
+    if (data.length < 2) throw fail('Compressed data is missing the zlib header')
+    const cmf = data[0], flg = data[1]
+    if ((cmf & 0x0F) !== 8 || (cmf * 256 + flg) % 31 !== 0 || (flg & 0x20) !== 0) {
+        throw fail('Compressed data has an invalid zlib header')
+    }
+
+    let position = 2
+    let bitBuffer = 0, bitCount = 0
+    const bits = (count: number): number => {
+        while (bitCount < count) {
+            if (position >= data.length) throw fail('Unexpected end of compressed data')
+            bitBuffer |= data[position++] << bitCount
+            bitCount += 8
+        }
+        const value = bitBuffer & ((1 << count) - 1)
+        bitBuffer >>>= count
+        bitCount -= count
+        return value
+    }
+    const decode = (code: Huffman): number => {
+        let value = 0, first = 0, index = 0
+        for (let length = 1; length < 16; length++) {
+            value |= bits(1)
+            const count = code.counts[length]
+            if (value - count < first) return code.symbols[index + (value - first)]
+            index += count
+            first = (first + count) << 1
+            value <<= 1
+        }
+        throw fail('Compressed data contains an invalid Huffman code')
+    }
+
+    let out = new Uint8Array(Math.min(maxSize, Math.max(1024, data.length * 4)))
+    let length = 0
+    const reserve = (amount: number) => {
+        if (length + amount > maxSize) {
+            throw fail(`Decompressed length exceeds maxDecompressedSize of ${maxSize}`)
+        }
+        if (length + amount > out.length) {
+            const grown = new Uint8Array(Math.max(length + amount, Math.min(maxSize, out.length * 2)))
+            grown.set(out.subarray(0, length))
+            out = grown
+        }
+    }
+
+    let last: number
+    do {
+        last = bits(1)
+        const type = bits(2)
+        if (type === 0) {
+            // Stored blocks start on the next byte
+            bitBuffer = 0
+            bitCount = 0
+            if (position + 4 > data.length) throw fail('Unexpected end of compressed data')
+            const size = data[position] | (data[position + 1] << 8)
+            const check = data[position + 2] | (data[position + 3] << 8)
+            position += 4
+            if (size !== (~check & 0xFFFF)) throw fail('Compressed data has an invalid stored block length')
+            if (position + size > data.length) throw fail('Unexpected end of compressed data')
+            reserve(size)
+            out.set(data.subarray(position, position + size), length)
+            length += size
+            position += size
+            continue
+        }
+
+        let lengthCode: Huffman, distanceCode: Huffman
+        if (type === 1) {
+            const fixed = fixedHuffman()
+            lengthCode = fixed.lengths
+            distanceCode = fixed.distances
+        } else if (type === 2) {
+            const lengthCount = bits(5) + 257
+            const distanceCount = bits(5) + 1
+            const codeLengthCount = bits(4) + 4
+            if (lengthCount > 286 || distanceCount > 30) throw fail('Compressed data has too many Huffman codes')
+            const codeLengths = new Uint8Array(19)
+            for (let i = 0; i < codeLengthCount; i++) codeLengths[CodeLengthOrder[i]] = bits(3)
+            const codeLengthCode = huffman(codeLengths)
+            const lengths = new Uint8Array(lengthCount + distanceCount)
+            let index = 0
+            while (index < lengths.length) {
+                const symbol = decode(codeLengthCode)
+                if (symbol < 16) {
+                    lengths[index++] = symbol
+                    continue
+                }
+                let repeat: number, value = 0
+                if (symbol === 16) {
+                    if (index === 0) throw fail('Compressed data repeats a missing code length')
+                    value = lengths[index - 1]
+                    repeat = 3 + bits(2)
+                } else if (symbol === 17) {
+                    repeat = 3 + bits(3)
+                } else {
+                    repeat = 11 + bits(7)
+                }
+                if (index + repeat > lengths.length) throw fail('Compressed data has too many code lengths')
+                while (repeat-- > 0) lengths[index++] = value
+            }
+            lengthCode = huffman(lengths.subarray(0, lengthCount))
+            distanceCode = huffman(lengths.subarray(lengthCount))
+        } else {
+            throw fail('Compressed data has an invalid block type')
+        }
+
+        while (true) {
+            let symbol = decode(lengthCode)
+            if (symbol < 256) {
+                reserve(1)
+                out[length++] = symbol
+            } else if (symbol === 256) {
+                break
+            } else {
+                symbol -= 257
+                if (symbol >= 29) throw fail('Compressed data has an invalid length code')
+                const size = LengthBase[symbol] + bits(LengthExtra[symbol])
+                const distanceSymbol = decode(distanceCode)
+                if (distanceSymbol >= 30) throw fail('Compressed data has an invalid distance code')
+                const distance = DistanceBase[distanceSymbol] + bits(DistanceExtra[distanceSymbol])
+                if (distance > length) throw fail('Compressed data refers back past the start of the output')
+                reserve(size)
+                for (let i = 0; i < size; i++, length++) out[length] = out[length - distance]
+            }
+        }
+    } while (!last)
+
+    // The checksum starts on the next byte
+    if (position + 4 > data.length) throw fail('Unexpected end of compressed data')
+    const checksum = ((data[position] << 24) | (data[position + 1] << 16) | (data[position + 2] << 8) | data[position + 3]) >>> 0
+    const output = out.subarray(0, length)
+    if (checksum !== adler32(output)) throw fail('Compressed data checksum mismatch')
+    return output
+}
+
+/**
+ * Decompresses the provided zlib deflate data. This is a pure TypeScript
+ * implementation used when DecompressionStream isn't available
+ *
+ * @param data The compressed data
+ * @param maxSize The largest allowed size of the decompressed data
+ * @return The decompressed data
+ * @throws DecodeError If the data is invalid or decompresses to more than the max size
+ */
+export function inflateSync(data: Uint8Array, maxSize: number = Infinity): Uint8Array {
+    return inflateZlib(data, maxSize, frameError)
+}
+
+/**
+ * Creates a decode error for a frame
+ *
+ * @param message The reason decoding failed
+ * @return The created error
+ */
+function frameError(message: string): DecodeError {
+    return new DecodeError(message, '', 0)
+}
+
+/**
+ * Gets the constructor of a native stream if it's supported
+ * by the current environment
+ *
+ * @param name The name of the stream constructor
+ * @return The constructor or undefined if it isn't supported
+ */
+function nativeStream(name: 'CompressionStream' | 'DecompressionStream'): any {
+    const scope: any = typeof globalThis !== 'undefined' ? globalThis : undefined
+    return scope && typeof scope[name] === 'function' ? scope[name] : undefined
+}
+
+/**
+ * Writes the data through a native compression stream and collects the
+ * output. Reading stops as soon as the output exceeds the max size
+ *
+ * @param stream The CompressionStream or DecompressionStream
+ * @param data The data to write through the stream
+ * @param maxSize The largest allowed size of the output
+ * @return A promise of the output
+ */
+function pipeStream(stream: any, data: Uint8Array, maxSize: number): Promise<Uint8Array> {
+    const writer = stream.writable.getWriter()
+    const ignore = () => undefined
+    // Failures are reported by the reader instead
+    writer.write(data).catch(ignore)
+    writer.close().catch(ignore)
+    const reader = stream.readable.getReader()
+    const chunks: Uint8Array[] = []
+    let length = 0
+    const read = (): Promise<Uint8Array> => reader.read().then((result: { done: boolean, value?: Uint8Array }) => {
+        if (result.done || !result.value) {
+            const out = new Uint8Array(length)
+            let offset = 0
+            for (let chunk of chunks) {
+                out.set(chunk, offset)
+                offset += chunk.length
+            }
+            return out
+        }
+        length += result.value.length
+        if (length > maxSize) {
+            reader.cancel().catch(ignore)
+            throw frameError(`Decompressed length exceeds maxDecompressedSize of ${maxSize}`)
+        }
+        chunks.push(result.value)
+        return read()
+    })
+    return read()
+}
+
+/**
+ * Copies the bytes into a new array buffer unless they
+ * already cover the whole of their buffer
+ *
+ * @param bytes The bytes
+ * @return The array buffer
+ */
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+    if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) return bytes.buffer
+    return bytes.slice().buffer
+}
+
+/**
+ * Prefixes the frame with the uncompressed flag
+ *
+ * @param frame The frame
+ * @return The frame with the compression flag
+ */
+export function uncompressedFrame(frame: ArrayBuffer): ArrayBuffer {
+    const out = new Uint8Array(frame.byteLength + 1)
+    out[0] = FrameUncompressed
+    out.set(new Uint8Array(frame), 1)
+    return out.buffer
+}
+
+/**
+ * Creates the compressed frame. The frame is sent uncompressed
+ * instead when compressing didn't make it any smaller
+ *
+ * @param frame The original frame
+ * @param compressed The compressed frame data
+ * @return The frame with the compression flag
+ */
+function deflatedFrame(frame: ArrayBuffer, compressed: Uint8Array): ArrayBuffer {
+    if (compressed.length >= frame.byteLength) return uncompressedFrame(frame)
+    const out = new Uint8Array(compressed.length + 1)
+    out[0] = FrameDeflate
+    out.set(compressed, 1)
+    return out.buffer
+}
+
+/**
+ * Compresses the frame if it's at least the threshold size and adds the
+ * compression flag to the start of the frame. CompressionStream is used
+ * when available in which case the frame is compressed asynchronously
+ *
+ * Encoding:
+ * Flag  u8 (0 = Uncompressed, 1 = Deflate)
+ * Data  Bytes (zlib deflate when compressed)
+ *
+ * @param frame The frame to compress
+ * @param config The compression configuration
+ * @return The compressed frame or a promise when compressing asynchronously
+ */
+export function compressFrame(frame: ArrayBuffer, config: CompressionConfig = {}): ArrayBuffer | Promise<ArrayBuffer> {
+    if (frame.byteLength < (config.threshold ?? 1024)) return uncompressedFrame(frame)
+    const bytes = new Uint8Array(frame)
+    const Stream = config.native === false ? undefined : nativeStream('CompressionStream')
+    if (!Stream) return deflatedFrame(frame, deflateSync(bytes))
+    return pipeStream(new Stream('deflate'), bytes, Infinity)
+        .then(compressed => deflatedFrame(frame, compressed))
+}
+
+/**
+ * Removes the compression flag from the frame and decompresses it
+ * synchronously using the TypeScript implementation if it's compressed
+ *
+ * @param frame The received frame
+ * @param maxSize The largest allowed size of the decompressed frame
+ * @return The decompressed frame
+ * @throws DecodeError If the frame is invalid or decompresses to more than the max size
+ */
+export function decompressFrameSync(frame: ArrayBuffer, maxSize: number = Infinity): ArrayBuffer {
+    const bytes = new Uint8Array(frame)
+    if (bytes.length === 0) throw frameError('Frame is missing the compression flag')
+    const flag = bytes[0]
+    if (flag === FrameUncompressed) return frame.slice(1)
+    if (flag !== FrameDeflate) throw frameError(`Unknown compression flag ${flag}`)
+    return toBuffer(inflateSync(bytes.subarray(1), maxSize))
+}
+
+/**
+ * Removes the compression flag from the frame and decompresses it
+ * if it's compressed. DecompressionStream is used when available in
+ * which case the frame is decompressed asynchronously
+ *
+ * @param frame The received frame
+ * @param maxSize The largest allowed size of the decompressed frame
+ * @param config The compression configuration
+ * @return The decompressed frame or a promise when decompressing asynchronously
+ */
+export function decompressFrame(frame: ArrayBuffer, maxSize: number, config: CompressionConfig = {}): ArrayBuffer | Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(frame)
+    const Stream = config.native === false ? undefined : nativeStream('DecompressionStream')
+    if (!Stream || bytes[0] !== FrameDeflate) {
+        try {
+            return decompressFrameSync(frame, maxSize)
+        } catch (e) {
+            return Promise.reject(e)
+        }
+    }
+    return pipeStream(new Stream('deflate'), bytes.subarray(1), maxSize).then(toBuffer, e => {
+        throw e instanceof DecodeError ? e : frameError('Invalid compressed data')
+    })
+}
+
+/**
+ * @return Whether the value is a promise
+ */
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+    return typeof (value as any).then === 'function'
+}
+
+/**
+ * Handles frames in the order they were pushed even when some of the
+ * frames are still being compressed or decompressed. Frames are handled
+ * straight away when there are no frames waiting before them
+ */
+export class FrameSequence {
+    // Resolves once the last frame that was pushed has been handled
+    private last: Promise<void> = Promise.resolve();
+    // The number of frames that are waiting to be handled
+    private pending: number = 0;
+
+    /**
+     * Handles the frame once all the frames pushed before it have been handled.
+     * Frames handled straight away throw to the caller. Otherwise, there isn't
+     * a caller to throw to so errors thrown by the handle function are passed
+     * to the error function instead
+     *
+     * @param frame The frame or a promise of the frame
+     * @param handle The function which handles the frame
+     * @param error The function called when the promise is rejected or handling a waiting frame throws
+     */
+    push(frame: ArrayBuffer | Promise<ArrayBuffer>, handle: (frame: ArrayBuffer) => void, error: (error: unknown) => void) {
+        if (this.pending === 0 && !isPromise(frame)) {
+            handle(frame)
+            return
+        }
+        this.pending++
+        // Settled straight away so that rejections aren't reported as unhandled while waiting
+        const settled = Promise.resolve(frame).then(
+            value => () => handle(value),
+            reason => () => error(reason)
+        )
+        this.last = this.last
+            .then(() => settled)
+            .then(run => {
+                this.pending--
+                try {
+                    run()
+                } catch (e) {
+                    error(e)
+                }
+            })
+            .then(undefined, e => {
+                // Only reached when the error function throws. Rethrown outside the
+                // sequence so that the following frames are still handled
+                setTimeout(() => {
+                    throw e
+                })
+            })
+    }
+}
+
+/**
+ * Creates a DataType which compresses the encoded value using deflate (zlib
+ * format). Packets are encoded synchronously so this always uses the pure
+ * TypeScript implementation. The decompressed size is limited by the
+ * maxDecompressedSize decode limit
+ *
+ * Encoding:
+ * Length  VarInt
+ * Data    Bytes (zlib deflate of the encoded value)
+ *
+ * @param type The data type of the value
+ * @constructor Creates a new compressed DataType
+ */
+export function Compressed<T>(type: DataType<T>): DataType<T> {
+    // The writer values are encoded into before they are compressed
+    const writer = new PacketWriter(256)
+    // The last value that was compressed and its compressed bytes (size and encode are called with the same value)
+    let lastValue: T | undefined, lastCompressed: Uint8Array | undefined
+    const compress = (value: T): Uint8Array => {
+        if (lastCompressed && lastValue === value) return lastCompressed
+        writer.reset()
+        writer.encode((d, t) => type.encode(d, t, value))
+        lastValue = value
+        lastCompressed = deflateSync(writer.bytes())
+        return lastCompressed
+    }
+    return {
+        name: `Compressed<${nameOf(type)}>`,
+        size(value: T): number {
+            const compressed = compress(value)
+            return VarIntSize(compressed.length) + compressed.length
+        },
+        encode(d: DataView, t: DataViewTracker, v: T) {
+            const compressed = compress(v)
+            VarInt.encode(d, t, compressed.length)
+            new Uint8Array(d.buffer, d.byteOffset + t.many(compressed.length), compressed.length).set(compressed)
+            // Forgotten once written in case the value is changed before it's encoded again
+            lastValue = lastCompressed = undefined
+        },
+        decode(d: DataView, t: DataViewTracker): T {
+            const size = VarInt.decode(d, t)
+            t.limit('maxByteArrayLength', size)
+            const start = t.many(size)
+            const data = new Uint8Array(d.buffer, d.byteOffset + start, size)
+            const bytes = inflateZlib(data, t.limits.maxDecompressedSize, message => t.error(message, start))
+            const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+            return type.decode(view, t.nested(view))
+        },
+        validate: (t, v) => validateValue(t, type, v),
+        // Compression only affects the binary encoding so the JSON representation is the wrapped type
+        jsonSchema: () => jsonSchemaOf(type),
+        encodeJSON: (t, v) => encodeJSONValue(t, type, v),
+        decodeJSON: (t, json) => decodeJSONValue(t, type, json),
+        arbitrary: random => arbitraryValue(random, type)
+    }
+}
@@ -1,25 +1,82 @@
-import { StructDefinition, StructKeys } from "./packets";
+import { CheckedKeys, NewKey, StructDefinition, StructKeys, StructOptions } from "./packets";
+import { DecodeError, EncodeError } from "./errors";
+import { fromBase64, toBase64 } from "./base64";
+import { Random } from "./random";
 
 // A function for determining the size of the N object
 export type DataSizeFunction<N> = (value: N) => number;
 // Either the size as a number or a function which takes the value and returns its size
 export type DataSize<N> = number | DataSizeFunction<N>;
 
+// The maximum lengths allowed when decoding variable length data
+export interface DecodeLimits {
+    // The maximum number of bytes in a string
+    maxStringLength: number;
+    // The maximum number of bytes in a byte array
+    maxByteArrayLength: number;
+    // The maximum number of elements in an array
+    maxArrayLength: number;
+    // The maximum number of entries in a map
+    maxMapSize: number;
+    // The maximum number of bytes compressed data can decompress to
+    maxDecompressedSize: number;
+}
+
+// The default decode limits (only limited by the size of the buffer). Decompressed
+// data isn't limited by the buffer size so it defaults to 16MB
+export const DefaultLimits: DecodeLimits = {
+    maxStringLength: Infinity,
+    maxByteArrayLength: Infinity,
+    maxArrayLength: Infinity,
+    maxMapSize: Infinity,
+    maxDecompressedSize: 16 * 1024 * 1024,
+}
+
+// A decoded field reported to the tracer of a tracker
+export interface TraceEntry {
+    // The path to the field e.g. "users[2].name"
+    path: string;
+    // The number of fields this field is nested within
+    depth: number;
+    // The offset of the first byte of the field
+    offset: number;
+    // The number of bytes the field takes up
+    length: number;
+    // The name of the data type of the field
+    type: string;
+    // The decoded value
+    value: unknown;
+}
+
 /**
  * A simple class for tracking the offset progress. Used to keep track
- * of the view offset for the DataView
+ * of the view offset for the DataView. When decoding the tracker is
+ * bound to the length of the view so that reads can't go past the
+ * end of the buffer and keeps track of the path to the current field
  */
 export class DataViewTracker {
     // The current offset value
     private offset: number = 0;
+    // The offset reads can't go past (not bounded while encoding)
+    private end: number = Infinity;
+    // The keys and indexes leading to the field being decoded
+    private path: Array<string | number> = [];
+    // The maximum lengths allowed while decoding
+    limits: DecodeLimits = DefaultLimits;
+    // Called with each field once it has been decoded (used for inspecting packets)
+    tracer?: (entry: TraceEntry) => void;
 
     /**
      * Move the offset by more than once place
      *
      * @param amount The amount of places to move by
      * @return The offset before this change
+     * @throws DecodeError If this would move past the bound end
      */
     many(amount: number): number {
+        if (this.offset + amount > this.end) {
+            throw this.error(`Unexpected end of buffer reading ${amount} byte(s)`)
+        }
         const original = this.offset;
         this.offset += amount
         return original
@@ -29,17 +86,253 @@ export class DataViewTracker {
      * Move the offset by a single place
      *
      * @return The offset before this change
+     * @throws DecodeError If this would move past the bound end
      */
     one(): number {
+        if (this.offset >= this.end) {
+            throw this.error('Unexpected end of buffer reading 1 byte(s)')
+        }
         return this.offset++
     }
 
     /**
-     * Resets the offset to its initial value
+     * @return The current offset value
+     */
+    current(): number {
+        return this.offset
+    }
+
+    /**
+     * Bounds the reads of this tracker to the length of the
+     * provided view. This is cleared when the tracker is reset
+     *
+     * @param view The view that is being decoded
+     */
+    bound(view: DataView) {
+        this.end = view.byteLength
+    }
+
+    /**
+     * Checks that the provided decoded length doesn't exceed
+     * the limit for that type of data
+     *
+     * @param limit The name of the limit to check against
+     * @param length The decoded length
+     * @throws DecodeError If the length exceeds the limit
+     */
+    limit(limit: keyof DecodeLimits, length: number) {
+        const max = this.limits[limit]
+        if (length > max) {
+            throw this.error(`Length ${length} exceeds ${limit} of ${max}`)
+        }
+    }
+
+    /**
+     * Checks that the provided decoded number of elements doesn't exceed
+     * the limit for that type of data or the number of bytes left to read.
+     * Each element is counted as at least one byte so that elements which
+     * don't take up any bytes can't be used to make huge collections
+     *
+     * @param limit The name of the limit to check against
+     * @param count The decoded number of elements
+     * @param size The fixed size of each element in bytes (if known)
+     * @throws DecodeError If the count exceeds the limit or the remaining bytes
+     */
+    elements(limit: keyof DecodeLimits, count: number, size: number = 1) {
+        this.limit(limit, count)
+        const remaining = this.end - this.offset
+        if (count * Math.max(size, 1) > remaining) {
+            throw this.error(`Count ${count} exceeds the ${remaining} byte(s) remaining`)
+        }
+    }
+
+    /**
+     * Enters a field (struct key, map key or array index)
+     * adding it to the current field path
+     *
+     * @param key The key or index of the field
+     */
+    enter(key: string | number) {
+        this.path.push(key)
+    }
+
+    /**
+     * Exits the field that was last entered
+     */
+    exit() {
+        this.path.pop()
+    }
+
+    /**
+     * @return The number of fields that have been entered
+     */
+    depth(): number {
+        return this.path.length
+    }
+
+    /**
+     * Creates a string representation of the path to the current
+     * field e.g. "users[2].name"
+     */
+    fieldPath(): string {
+        let out = '';
+        for (let key of this.path) {
+            if (typeof key === 'number') {
+                out += `[${key}]`
+            } else {
+                out += out.length > 0 ? '.' + key : key
+            }
+        }
+        return out
+    }
+
+    /**
+     * Creates a decode error at the current field path
+     *
+     * @param message The error message
+     * @param offset The offset of the error (defaults to the current offset)
+     */
+    error(message: string, offset?: number): DecodeError {
+        return new DecodeError(message, this.fieldPath(), offset ?? this.offset)
+    }
+
+    /**
+     * Wraps an unexpected error thrown while decoding (e.g. by a custom data
+     * type) in a decode error at the current field path. Decode errors are
+     * returned unchanged
+     *
+     * @param source The thrown error
+     */
+    unexpected(source: unknown): DecodeError {
+        if (source instanceof DecodeError) return source
+        const error = this.error(`Unexpected error: ${source instanceof Error ? source.message : String(source)}`)
+        error.source = source
+        return error
+    }
+
+    /**
+     * Creates a tracker for decoding data nested inside the field being
+     * decoded (e.g. decompressed bytes). It shares the limits and tracer
+     * and starts at the current field path so errors and traces point to
+     * the nested fields (their offsets are within the nested data)
+     *
+     * @param view The view of the nested data
+     * @return The tracker bound to the nested data
+     */
+    nested(view: DataView): DataViewTracker {
+        const tracker = new DataViewTracker()
+        tracker.limits = this.limits
+        tracker.path = this.path.slice()
+        tracker.tracer = this.tracer
+        tracker.bound(view)
+        return tracker
+    }
+
+    /**
+     * Creates an encode error for an invalid value at the current field path
+     *
+     * @param message The reason the value is invalid
+     * @param value The invalid value
+     */
+    invalid(message: string, value: unknown): EncodeError {
+        return new EncodeError(message, this.fieldPath(), value)
+    }
+
+    /**
+     * Bounds the reads of this tracker to the next length bytes
+     * (e.g. the contents of a length prefixed struct). The previous
+     * bound is returned so that it can be restored using {@see release}
+     *
+     * @param length The number of bytes to bound the reads to
+     * @return The previous bound end
+     * @throws DecodeError If the length goes past the current bound end
+     */
+    enclose(length: number): number {
+        if (this.offset + length > this.end) {
+            throw this.error(`Unexpected end of buffer reading ${length} byte(s)`)
+        }
+        const end = this.end
+        this.end = this.offset + length
+        return end
+    }
+
+    /**
+     * Skips any unread bytes before the end of the bound created
+     * by {@see enclose} and restores the previous bound end
+     *
+     * @param end The previous bound end returned by enclose
+     */
+    release(end: number) {
+        this.offset = this.end
+        this.end = end
+    }
+
+    /**
+     * Resets the offset to its initial value and
+     * clears the bound end and field path
      */
     reset() {
         this.offset = 0;
+        this.end = Infinity;
+        this.path = [];
+    }
+}
+
+/**
+ * Decodes a nested field adding its key to the field path
+ * of the tracker while it is being decoded. The decoded field
+ * is reported to the tracer of the tracker (if it has one)
+ *
+ * @param d The data view to decode from
+ * @param t The offset tracker instance
+ * @param key The key or index of the field
+ * @param type The data type of the field
+ * @return The decoded value
+ */
+export function decodeField<T>(d: DataView, t: DataViewTracker, key: string | number, type: DataType<T>): T {
+    t.enter(key)
+    const offset = t.current()
+    const value = type.decode(d, t)
+    if (t.tracer) {
+        t.tracer({
+            path: t.fieldPath(),
+            depth: t.depth(),
+            offset,
+            length: t.current() - offset,
+            type: nameOf(type),
+            value
+        })
     }
+    t.exit()
+    return value
+}
+
+/**
+ * Validates the value if the data type supports validation
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param type The data type of the value
+ * @param value The value to validate
+ * @throws EncodeError If the value can't be encoded using the data type
+ */
+export function validateValue<T>(t: DataViewTracker, type: DataType<T>, value: T) {
+    if (type.validate) type.validate(t, value)
+}
+
+/**
+ * Validates a nested field adding its key to the field
+ * path of the tracker while it is being validated
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param key The key or index of the field
+ * @param type The data type of the field
+ * @param value The value of the field
+ * @throws EncodeError If the value can't be encoded using the data type
+ */
+export function validateField<T>(t: DataViewTracker, key: string | number, type: DataType<T>, value: T) {
+    t.enter(key)
+    validateValue(t, type, value)
+    t.exit()
 }
 
 /**
@@ -50,6 +343,12 @@ export class DataViewTracker {
  * @type N The JavaScript type for this DataType
  */
 export interface DataType<N> {
+    /**
+     * The name of this data type e.g. "u8" or "Vec<Str>". This is
+     * used when describing packets (e.g. for fingerprinting)
+     */
+    name?: string,
+
     /**
      * A function for calculating the size of this data
      * or the fixed size of this data as a number
@@ -74,110 +373,500 @@ export interface DataType<N> {
      * @param t The offset tracker instance
      */
     decode(d: DataView, t: DataViewTracker): N;
+
+    /**
+     * Optional function which checks that the provided value can be
+     * encoded using this data type. Invalid values are reported by
+     * throwing the error from {@see DataViewTracker.invalid}
+     *
+     * @param t The tracker used to keep track of the field path
+     * @param v The value to check
+     */
+    validate?(t: DataViewTracker, v: N): void;
+
+    /**
+     * Optional function which describes the JSON representation of this
+     * data type as a JSON Schema. Data types without this function are
+     * described by the empty schema (which allows any value)
+     */
+    jsonSchema?(): JsonSchema;
+
+    /**
+     * Optional function which converts the value to its JSON representation.
+     * Data types without this function are represented by the value itself
+     *
+     * @param t The tracker used to keep track of the field path
+     * @param v The value to convert
+     */
+    encodeJSON?(t: DataViewTracker, v: N): JsonValue;
+
+    /**
+     * Optional function which converts the JSON representation back to the
+     * value. Data types without this function use the JSON value itself.
+     * JSON values of the wrong shape are reported by throwing the error
+     * from {@see DataViewTracker.invalid}
+     *
+     * @param t The tracker used to keep track of the field path
+     * @param json The JSON value to convert
+     */
+    decodeJSON?(t: DataViewTracker, json: JsonValue): N;
+
+    /**
+     * Optional function which generates a random valid value of this data
+     * type. This is used by {@see checkRoundTrip} to test the encoding
+     *
+     * @param random The random number generator to use
+     */
+    arbitrary?(random: Random): N;
+}
+
+// A value that can be represented as JSON
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue }
+
+// A JSON Schema (draft 2020-12) describing the JSON representation of a data type
+export type JsonSchema = { [key: string]: JsonValue }
+
+/**
+ * Gets the JSON Schema of the provided data type
+ *
+ * @param type The data type
+ * @return The JSON Schema (the empty schema if the type doesn't describe itself)
+ */
+export function jsonSchemaOf(type: DataType<any>): JsonSchema {
+    return type.jsonSchema ? type.jsonSchema() : {}
+}
+
+/**
+ * Converts the value to its JSON representation if the data type
+ * supports conversion otherwise the value is used as is
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param type The data type of the value
+ * @param value The value to convert
+ * @return The JSON representation
+ */
+export function encodeJSONValue<T>(t: DataViewTracker, type: DataType<T>, value: T): JsonValue {
+    return type.encodeJSON ? type.encodeJSON(t, value) : value as unknown as JsonValue
+}
+
+/**
+ * Converts a nested field to its JSON representation adding
+ * its key to the field path of the tracker while converting
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param key The key or index of the field
+ * @param type The data type of the field
+ * @param value The value of the field
+ * @return The JSON representation
+ */
+export function encodeJSONField<T>(t: DataViewTracker, key: string | number, type: DataType<T>, value: T): JsonValue {
+    t.enter(key)
+    const json = encodeJSONValue(t, type, value)
+    t.exit()
+    return json
+}
+
+/**
+ * Converts the JSON representation to the value if the data type
+ * supports conversion otherwise the JSON value is used as is
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param type The data type of the value
+ * @param json The JSON value to convert
+ * @return The converted value
+ * @throws EncodeError If the JSON value has the wrong shape
+ */
+export function decodeJSONValue<T>(t: DataViewTracker, type: DataType<T>, json: JsonValue): T {
+    return type.decodeJSON ? type.decodeJSON(t, json) : json as unknown as T
+}
+
+/**
+ * Converts the JSON representation of a nested field adding
+ * its key to the field path of the tracker while converting
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param key The key or index of the field
+ * @param type The data type of the field
+ * @param json The JSON value of the field
+ * @return The converted value
+ * @throws EncodeError If the JSON value has the wrong shape
+ */
+export function decodeJSONField<T>(t: DataViewTracker, key: string | number, type: DataType<T>, json: JsonValue): T {
+    t.enter(key)
+    const value = decodeJSONValue(t, type, json)
+    t.exit()
+    return value
+}
+
+/**
+ * Generates a random value of the provided data type
+ *
+ * @param random The random number generator to use
+ * @param type The data type of the value
+ * @return The generated value
+ * @throws Error If the data type can't generate values
+ */
+export function arbitraryValue<T>(random: Random, type: DataType<T>): T {
+    if (!type.arbitrary) throw new Error(`Data type ${nameOf(type)} can't generate values`)
+    return type.arbitrary(random)
+}
+
+/**
+ * Gets the name of the provided data type. Data types
+ * without a name are named "unknown"
+ *
+ * @param type The data type
+ * @return The name of the data type
+ */
+export function nameOf(type: DataType<any>): string {
+    return type.name ?? 'unknown'
+}
+
+/**
+ * Creates a validate function which checks that
+ * values are integers within the provided range
+ *
+ * @param min The smallest allowed value
+ * @param max The largest allowed value
+ * @return The validate function
+ */
+function integerRange(min: number, max: number): (t: DataViewTracker, v: number) => void {
+    return (t: DataViewTracker, v: number) => {
+        if (typeof v !== 'number' || Math.floor(v) !== v || v < min || v > max) {
+            throw t.invalid(`Expected an integer from ${min} to ${max}`, v)
+        }
+    }
+}
+
+/**
+ * Creates a validate function which checks that values
+ * are bigints that fit within 64 bits
+ *
+ * @param signed Whether the values are signed
+ * @return The validate function
+ */
+function bigintRange(signed: boolean): (t: DataViewTracker, v: bigint) => void {
+    return (t: DataViewTracker, v: bigint) => {
+        if (typeof v !== 'bigint' || (signed ? BigInt.asIntN(64, v) : BigInt.asUintN(64, v)) !== v) {
+            throw t.invalid(`Expected a bigint that fits a 64-bit ${signed ? 'signed' : 'un-signed'} integer`, v)
+        }
+    }
+}
+
+// Validate function for checking that values are numbers
+function validateNumber(t: DataViewTracker, v: number) {
+    if (typeof v !== 'number') throw t.invalid('Expected a number', v)
+}
+
+/**
+ * Creates a JSON Schema function for integers within the provided range
+ *
+ * @param min The smallest allowed value
+ * @param max The largest allowed value
+ * @return The JSON Schema function
+ */
+function integerSchema(min: number, max: number): () => JsonSchema {
+    return () => ({type: 'integer', minimum: min, maximum: max})
+}
+
+// The JSON representation of NaN and the infinities which aren't valid JSON numbers
+const NonFinite = ['NaN', 'Infinity', '-Infinity']
+
+// The JSON Schema of floating point numbers
+function floatSchema(): JsonSchema {
+    return {anyOf: [{type: 'number'}, {enum: NonFinite}]}
+}
+
+// Converts floating point numbers to JSON using strings for the non-finite numbers
+function encodeFloat(t: DataViewTracker, v: number): JsonValue {
+    return isFinite(v) ? v : String(v)
+}
+
+// Converts the JSON representation of a floating point number
+function decodeFloat(t: DataViewTracker, json: JsonValue): number {
+    if (typeof json === 'number') return json
+    if (typeof json === 'string' && NonFinite.indexOf(json) !== -1) return Number(json)
+    throw t.invalid('Expected a number', json)
+}
+
+/**
+ * Creates a JSON Schema function for 64-bit integers which are
+ * represented as strings so that they don't lose precision
+ *
+ * @param signed Whether the values are signed
+ * @return The JSON Schema function
+ */
+function bigintSchema(signed: boolean): () => JsonSchema {
+    return () => ({type: 'string', pattern: signed ? '^-?[0-9]+$' : '^[0-9]+$'})
+}
+
+// Converts 64-bit integers to their JSON string representation
+function encodeBigInt(t: DataViewTracker, v: bigint): JsonValue {
+    return v.toString()
+}
+
+// Converts the JSON string representation of a 64-bit integer
+function decodeBigInt(t: DataViewTracker, json: JsonValue): bigint {
+    if (typeof json !== 'string' || !/^-?[0-9]+$/.test(json)) throw t.invalid('Expected a string of digits', json)
+    return BigInt(json)
 }
 
 // 8-bit signed integer (-128 to 127)
 export const i8: DataType<number> = {
+    name: 'i8',
     size: 1,
     encode: (d, t, v) => d.setInt8(t.one(), v),
-    decode: (d, t) => d.getInt8(t.one())
+    decode: (d, t) => d.getInt8(t.one()),
+    validate: integerRange(-128, 127),
+    jsonSchema: integerSchema(-128, 127),
+    arbitrary: random => random.int(-128, 127)
 }
 
 // 16-bit signed integer (-32768 to 32767)
 export const i16: DataType<number> = {
+    name: 'i16',
     size: 2,
     encode: (d, t, v) => d.setInt16(t.many(2), v),
-    decode: (d, t) => d.getInt16(t.many(2))
+    decode: (d, t) => d.getInt16(t.many(2)),
+    validate: integerRange(-32768, 32767),
+    jsonSchema: integerSchema(-32768, 32767),
+    arbitrary: random => random.int(-32768, 32767)
 }
 
 // 32-bit signed integer (-2147483648 to 2147483647)
 export const i32: DataType<number> = {
+    name: 'i32',
     size: 4,
     encode: (d, t, v) => d.setInt32(t.many(4), v),
-    decode: (d, t) => d.getInt32(t.many(4))
+    decode: (d, t) => d.getInt32(t.many(4)),
+    validate: integerRange(-2147483648, 2147483647),
+    jsonSchema: integerSchema(-2147483648, 2147483647),
+    arbitrary: random => random.int(-2147483648, 2147483647)
 }
 
 // 8-bit un-signed integer (0 to 255)
 export const u8: DataType<number> = {
+    name: 'u8',
     size: 1,
     encode: (d, t, v) => d.setUint8(t.one(), v),
-    decode: (d, t) => d.getUint8(t.one())
+    decode: (d, t) => d.getUint8(t.one()),
+    validate: integerRange(0, 255),
+    jsonSchema: integerSchema(0, 255),
+    arbitrary: random => random.int(0, 255)
 }
 
 // 16-bit un-signed integer (0 to 65535)
 export const u16: DataType<number> = {
+    name: 'u16',
     size: 2,
     encode: (d, t, v) => d.setUint16(t.many(2), v),
-    decode: (d, t) => d.getUint16(t.many(2))
+    decode: (d, t) => d.getUint16(t.many(2)),
+    validate: integerRange(0, 65535),
+    jsonSchema: integerSchema(0, 65535),
+    arbitrary: random => random.int(0, 65535)
 }
 
 // 32-bit un-signed integer (0 to 4294967295)
 export const u32: DataType<number> = {
+    name: 'u32',
     size: 4,
     encode: (d, t, v) => d.setUint32(t.many(4), v),
-    decode: (d, t) => d.getUint32(t.many(4))
+    decode: (d, t) => d.getUint32(t.many(4)),
+    validate: integerRange(0, 4294967295),
+    jsonSchema: integerSchema(0, 4294967295),
+    arbitrary: random => random.int(0, 4294967295)
 }
 
 // 32-bit floating point (-3.4e+38 to 3.4e+38)
 export const f32: DataType<number> = {
+    name: 'f32',
     size: 4,
-    encode: (d, t, v) => d.setFloat64(t.many(4), v),
-    decode: (d, t) => d.getFloat32(t.many(4))
+    encode: (d, t, v) => d.setFloat32(t.many(4), v),
+    decode: (d, t) => d.getFloat32(t.many(4)),
+    validate: validateNumber,
+    jsonSchema: floatSchema,
+    encodeJSON: encodeFloat,
+    decodeJSON: decodeFloat,
+    // Only values which are exactly representable as 32-bit floats survive encoding
+    arbitrary: random => Math.fround(random.float())
 }
 
 // 64-bit floating point (-1.7e+308 to +1.7e+308)
 export const f64: DataType<number> = {
+    name: 'f64',
     size: 8,
     encode: (d, t, v) => d.setFloat64(t.many(8), v),
-    decode: (d, t) => d.getFloat64(t.many(8))
+    decode: (d, t) => d.getFloat64(t.many(8)),
+    validate: validateNumber,
+    jsonSchema: floatSchema,
+    encodeJSON: encodeFloat,
+    decodeJSON: decodeFloat,
+    arbitrary: random => random.float()
+}
+
+// 64-bit signed integer (-9223372036854775808 to 9223372036854775807)
+export const i64: DataType<bigint> = {
+    name: 'i64',
+    size: 8,
+    encode: (d, t, v) => d.setBigInt64(t.many(8), v),
+    decode: (d, t) => d.getBigInt64(t.many(8)),
+    validate: bigintRange(true),
+    jsonSchema: bigintSchema(true),
+    encodeJSON: encodeBigInt,
+    decodeJSON: decodeBigInt,
+    arbitrary: random => random.bigint(true)
+}
+
+// 64-bit un-signed integer (0 to 18446744073709551615)
+export const u64: DataType<bigint> = {
+    name: 'u64',
+    size: 8,
+    encode: (d, t, v) => d.setBigUint64(t.many(8), v),
+    decode: (d, t) => d.getBigUint64(t.many(8)),
+    validate: bigintRange(false),
+    jsonSchema: bigintSchema(false),
+    encodeJSON: encodeBigInt,
+    decodeJSON: decodeBigInt,
+    arbitrary: random => random.bigint(false)
 }
 
 // Boolean stored as 8-bit integer
 export const bool: DataType<boolean> = {
+    name: 'bool',
     size: 1,
     encode: (d, t, v) => u8.encode(d, t, v ? 1 : 0),
-    decode: (d, t): boolean => u8.decode(d, t) == 1
+    decode: (d, t): boolean => u8.decode(d, t) == 1,
+    validate(t: DataViewTracker, v: boolean) {
+        if (typeof v !== 'boolean') throw t.invalid('Expected a boolean', v)
+    },
+    jsonSchema: () => ({type: 'boolean'}),
+    arbitrary: random => random.bool()
 }
 
-function VariableInt(length: number): DataType<number> {
-    return {
-        size(value: number): number {
-            let size = 0;
-            while (value >= 0x80) {
-                value >>= 7
-                size++
-            }
-            return size + 1
-        },
-        encode(d: DataView, t: DataViewTracker, v: number) {
-            while (v >= 0x80) {
-                u8.encode(d, t, v | 0x80)
-                v >>= 7
-            }
-            u8.encode(d, t, v);
-        },
-        decode(d: DataView, t: DataViewTracker): number {
-            let value = 0, bitOffset = 0, byte = 0;
-            for (let i = 0; i < length; i++) {
-                byte = u8.decode(d, t)
-                if (byte < 0x80) {
-                    if (i == length - 1 && byte > 1) {
-                        return value
-                    }
-                    return value | byte << bitOffset
-                }
-                value |= (byte & 0x7f) << bitOffset
-                bitOffset += 7
+// Compressed u32 (0 to 4294967295)
+export const VarInt: DataType<number> = {
+    name: 'VarInt',
+    size(value: number): number {
+        let size = 1;
+        value >>>= 0
+        while (value >= 0x80) {
+            value >>>= 7
+            size++
+        }
+        return size
+    },
+    encode(d: DataView, t: DataViewTracker, v: number) {
+        v >>>= 0
+        while (v >= 0x80) {
+            u8.encode(d, t, (v & 0x7F) | 0x80)
+            v >>>= 7
+        }
+        u8.encode(d, t, v);
+    },
+    decode(d: DataView, t: DataViewTracker): number {
+        let value = 0, bitOffset = 0, byte = 0;
+        for (let i = 0; i < 5; i++) {
+            byte = u8.decode(d, t)
+            value |= (byte & 0x7F) << bitOffset
+            if (byte < 0x80) {
+                if (i == 4 && byte > 0x0F) throw t.error('VarInt overflows 32 bits')
+                return value >>> 0
             }
-            return value
+            bitOffset += 7
         }
-    }
+        throw t.error('VarInt is longer than 5 bytes')
+    },
+    validate: integerRange(0, 4294967295),
+    jsonSchema: integerSchema(0, 4294967295),
+    arbitrary: random => random.int(0, 4294967295)
 }
 
-// Compressed u32 (0 to 4294967295)
-export const VarInt: DataType<number> = VariableInt(5)
+// BigInt constants used by the 64-bit encodings (bigint literals
+// aren't available when targeting ES5)
+const BIG_0 = BigInt(0), BIG_1 = BigInt(1), BIG_7 = BigInt(7), BIG_63 = BigInt(63), BIG_0x7F = BigInt(0x7F);
+
 // Compressed u64 (0 to 18446744073709551615)
-export const VarLong: DataType<number> = VariableInt(10)
+export const VarLong: DataType<bigint> = {
+    name: 'VarLong',
+    size(value: bigint): number {
+        let size = 1;
+        value = BigInt.asUintN(64, value)
+        while (value > BIG_0x7F) {
+            value >>= BIG_7
+            size++
+        }
+        return size
+    },
+    encode(d: DataView, t: DataViewTracker, v: bigint) {
+        v = BigInt.asUintN(64, v)
+        while (v > BIG_0x7F) {
+            u8.encode(d, t, Number(v & BIG_0x7F) | 0x80)
+            v >>= BIG_7
+        }
+        u8.encode(d, t, Number(v))
+    },
+    decode(d: DataView, t: DataViewTracker): bigint {
+        let value = BIG_0, bitOffset = BIG_0, byte = 0;
+        for (let i = 0; i < 10; i++) {
+            byte = u8.decode(d, t)
+            value |= BigInt(byte & 0x7F) << bitOffset
+            if (byte < 0x80) {
+                if (i == 9 && byte > 0x01) throw t.error('VarLong overflows 64 bits')
+                return value
+            }
+            bitOffset += BIG_7
+        }
+        throw t.error('VarLong is longer than 10 bytes')
+    },
+    validate: bigintRange(false),
+    jsonSchema: bigintSchema(false),
+    encodeJSON: encodeBigInt,
+    decodeJSON: decodeBigInt,
+    arbitrary: random => random.bigint(false)
+}
+
+// Zig-zag encoded compressed i32 (-2147483648 to 2147483647)
+export const VarI32: DataType<number> = {
+    name: 'VarI32',
+    size: (value: number): number => VarIntSize(((value << 1) ^ (value >> 31)) >>> 0),
+    encode: (d, t, v) => VarInt.encode(d, t, ((v << 1) ^ (v >> 31)) >>> 0),
+    decode(d: DataView, t: DataViewTracker): number {
+        const value = VarInt.decode(d, t)
+        return (value >>> 1) ^ -(value & 1)
+    },
+    validate: integerRange(-2147483648, 2147483647),
+    jsonSchema: integerSchema(-2147483648, 2147483647),
+    arbitrary: random => random.int(-2147483648, 2147483647)
+}
+
+// Zig-zag encoded compressed i64 (-9223372036854775808 to 9223372036854775807)
+export const VarI64: DataType<bigint> = {
+    name: 'VarI64',
+    size: (value: bigint): number => VarLongSize(BigInt.asUintN(64, (value << BIG_1) ^ (value >> BIG_63))),
+    encode: (d, t, v) => VarLong.encode(d, t, BigInt.asUintN(64, (v << BIG_1) ^ (v >> BIG_63))),
+    decode(d: DataView, t: DataViewTracker): bigint {
+        const value = VarLong.decode(d, t)
+        return BigInt.asIntN(64, (value >> BIG_1) ^ -(value & BIG_1))
+    },
+    validate: bigintRange(true),
+    jsonSchema: bigintSchema(true),
+    encodeJSON: encodeBigInt,
+    decodeJSON: decodeBigInt,
+    arbitrary: random => random.bigint(true)
+}
+
+/**
+ * Checks that the JSON value is an array
+ *
+ * @param t The tracker used to keep track of the field path
+ * @param json The JSON value
+ * @return The JSON array
+ * @throws EncodeError If the JSON value isn't an array
+ */
+function decodeJSONArray(t: DataViewTracker, json: JsonValue): JsonValue[] {
+    if (!Array.isArray(json)) throw t.invalid('Expected an array', json)
+    return json
+}
 
 /**
  * Calculates the size of the provided values based on
@@ -201,50 +890,583 @@ function getSizeOf<T, D extends DataType<T>>(values: T[], type: D): number {
     }
 }
 
+/**
+ * Generates an array of random values of the provided type
+ *
+ * @param random The random number generator to use
+ * @param type The data type of the values
+ * @param length The number of values to generate
+ */
+function arbitraryArray<T>(random: Random, type: DataType<T>, length: number): T[] {
+    const out: T[] = []
+    for (let i = 0; i < length; i++) {
+        out.push(arbitraryValue(random, type))
+    }
+    return out
+}
+
 // The function for determining the size of a VarInt (used a lot so stored here)
 export const VarIntSize: DataSizeFunction<number> = VarInt.size as DataSizeFunction<number>
+// The function for determining the size of a VarLong
+export const VarLongSize: DataSizeFunction<bigint> = VarLong.size as DataSizeFunction<bigint>
 
 // Array of bytes []byte
 export const ByteArray: DataType<Uint8Array> = {
+    name: 'ByteArray',
     size(value: Uint8Array): number {
         return VarIntSize(value.length) + value.length
     },
     encode(d: DataView, t: DataViewTracker, v: Uint8Array) {
         VarInt.encode(d, t, v.length)
-        for (let elm of v) {
-            u8.encode(d, t, elm)
-        }
+        // Bulk copy the bytes rather than writing them one at a time
+        new Uint8Array(d.buffer, d.byteOffset + t.many(v.length), v.length).set(v)
     },
     decode(d: DataView, t: DataViewTracker): Uint8Array {
         const size = VarInt.decode(d, t)
-        return new Uint8Array(d.buffer, t.many(size), size)
-    }
-}
-
-// String
-export const Str: DataType<string> = {
-    size(value: string): number {
-        return VarIntSize(value.length) + value.length
+        t.limit('maxByteArrayLength', size)
+        return new Uint8Array(d.buffer, d.byteOffset + t.many(size), size)
     },
-    encode(d: DataView, t: DataViewTracker, v: string) {
-        VarInt.encode(d, t, v.length)
-        for (let i = 0; i < v.length; i++) {
-            u8.encode(d, t, v.charCodeAt(i))
+    validate(t: DataViewTracker, v: Uint8Array) {
+        if (!(v instanceof Uint8Array)) throw t.invalid('Expected a Uint8Array', v)
+    },
+    // Byte arrays are represented as base64 strings
+    jsonSchema: () => ({type: 'string', contentEncoding: 'base64'}),
+    encodeJSON: (t, v) => toBase64(v),
+    decodeJSON(t: DataViewTracker, json: JsonValue): Uint8Array {
+        if (typeof json !== 'string' || json.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(json)) {
+            throw t.invalid('Expected a base64 string', json)
         }
+        return fromBase64(json)
     },
-    decode(d: DataView, t: DataViewTracker): string {
-        const arr = ByteArray.decode(d, t)
-        // @ts-ignore
-        return String.fromCharCode.apply(null, arr);
+    arbitrary(random: Random): Uint8Array {
+        const bytes = new Uint8Array(random.length(8))
+        for (let i = 0; i < bytes.length; i++) bytes[i] = random.int(0, 255)
+        return bytes
     }
 }
 
+/**
+ * Calculates the number of bytes the provided string will take up
+ * once it has been encoded as UTF-8. Unpaired surrogates are counted
+ * as the 3 byte replacement character (U+FFFD) which they are encoded as
+ *
+ * @param value The string to calculate the length of
+ * @return The length of the string in UTF-8 bytes
+ */
+export function utf8Length(value: string): number {
+    let size = 0;
+    for (let i = 0; i < value.length; i++) {
+        const c = value.charCodeAt(i)
+        if (c < 0x80) {
+            size += 1
+        } else if (c < 0x800) {
+            size += 2
+        } else if (c >= 0xD800 && c <= 0xDBFF && i + 1 < value.length && isLowSurrogate(value.charCodeAt(i + 1))) {
+            size += 4
+            i++
+        } else {
+            size += 3
+        }
+    }
+    return size
+}
+
+/**
+ * Checks whether the provided UTF-16 code unit is the
+ * second (low) half of a surrogate pair
+ *
+ * @param c The code unit to check
+ */
+function isLowSurrogate(c: number): boolean {
+    return c >= 0xDC00 && c <= 0xDFFF
+}
+
+/**
+ * Encodes the provided string as UTF-8 bytes directly into the data
+ * view. Surrogate pairs are combined into their 4 byte code point and
+ * unpaired surrogates are replaced with U+FFFD
+ *
+ * @param d The data view to encode to
+ * @param t The offset tracker instance
+ * @param v The string to encode
+ */
+function encodeUTF8(d: DataView, t: DataViewTracker, v: string) {
+    for (let i = 0; i < v.length; i++) {
+        let c = v.charCodeAt(i)
+        if (c < 0x80) {
+            d.setUint8(t.one(), c)
+        } else if (c < 0x800) {
+            d.setUint8(t.one(), 0xC0 | (c >> 6))
+            d.setUint8(t.one(), 0x80 | (c & 0x3F))
+        } else {
+            if (c >= 0xD800 && c <= 0xDFFF) {
+                const next = i + 1 < v.length ? v.charCodeAt(i + 1) : 0
+                if (c <= 0xDBFF && isLowSurrogate(next)) {
+                    c = 0x10000 + ((c - 0xD800) << 10) + (next - 0xDC00)
+                    i++
+                    d.setUint8(t.one(), 0xF0 | (c >> 18))
+                    d.setUint8(t.one(), 0x80 | ((c >> 12) & 0x3F))
+                    d.setUint8(t.one(), 0x80 | ((c >> 6) & 0x3F))
+                    d.setUint8(t.one(), 0x80 | (c & 0x3F))
+                    continue
+                }
+                c = 0xFFFD
+            }
+            d.setUint8(t.one(), 0xE0 | (c >> 12))
+            d.setUint8(t.one(), 0x80 | ((c >> 6) & 0x3F))
+            d.setUint8(t.one(), 0x80 | (c & 0x3F))
+        }
+    }
+}
+
+/**
+ * Decodes the provided number of UTF-8 bytes from the data view into a
+ * string. Overlong encodings, surrogate code points, truncated sequences
+ * and stray continuation bytes are rejected rather than being replaced
+ *
+ * @param d The data view to decode from
+ * @param t The offset tracker instance
+ * @param length The number of bytes to decode
+ * @throws DecodeError If the bytes are not valid UTF-8
+ */
+function decodeUTF8(d: DataView, t: DataViewTracker, length: number): string {
+    const start = t.many(length), end = start + length;
+    const units: number[] = [];
+    let out = '';
+    let i = start;
+    while (i < end) {
+        const offset = i;
+        const b = d.getUint8(i++)
+        let c: number, needed: number, min: number;
+        if (b < 0x80) {
+            c = b
+            needed = 0
+            min = 0
+        } else if (b >= 0xC2 && b <= 0xDF) {
+            c = b & 0x1F
+            needed = 1
+            min = 0x80
+        } else if (b >= 0xE0 && b <= 0xEF) {
+            c = b & 0x0F
+            needed = 2
+            min = 0x800
+        } else if (b >= 0xF0 && b <= 0xF4) {
+            c = b & 0x07
+            needed = 3
+            min = 0x10000
+        } else {
+            throw t.error(`Invalid UTF-8 lead byte 0x${b.toString(16)}`, offset)
+        }
+        if (i + needed > end) {
+            throw t.error('Truncated UTF-8 sequence', offset)
+        }
+        for (let j = 0; j < needed; j++) {
+            const n = d.getUint8(i++)
+            if ((n & 0xC0) !== 0x80) {
+                throw t.error(`Invalid UTF-8 continuation byte 0x${n.toString(16)}`, i - 1)
+            }
+            c = (c << 6) | (n & 0x3F)
+        }
+        if (c < min || c > 0x10FFFF || (c >= 0xD800 && c <= 0xDFFF)) {
+            throw t.error(`Invalid UTF-8 code point 0x${c.toString(16)}`, offset)
+        }
+        if (c >= 0x10000) {
+            c -= 0x10000
+            units.push(0xD800 + (c >> 10), 0xDC00 + (c & 0x3FF))
+        } else {
+            units.push(c)
+        }
+        // Flush in chunks to avoid exceeding the argument limit of fromCharCode
+        if (units.length >= 0x1000) {
+            out += String.fromCharCode.apply(null, units)
+            units.length = 0
+        }
+    }
+    return out + String.fromCharCode.apply(null, units)
+}
+
+// The ranges of code points used to generate strings. There is a range for each
+// length of UTF-8 sequence and the surrogates are left out since they can't be encoded
+const CodePointRanges: Array<[number, number]> = [
+    [0, 0x7F], [0x80, 0x7FF], [0x800, 0xD7FF], [0xE000, 0xFFFF], [0x10000, 0x10FFFF]
+]
+
+/**
+ * Generates a random string using code points from the provided ranges
+ *
+ * @param random The random number generator to use
+ * @param ranges The ranges of code points to pick from
+ * @return The generated string
+ */
+function arbitraryString(random: Random, ranges: Array<[number, number]>): string {
+    let out = ''
+    for (let i = random.length(8); i > 0; i--) {
+        const [min, max] = random.pick(ranges)
+        out += String.fromCodePoint(random.int(min, max))
+    }
+    return out
+}
+
+// String encoded as UTF-8 (Go string / Rust String)
+export const Str: DataType<string> = {
+    name: 'Str',
+    size(value: string): number {
+        const length = utf8Length(value)
+        return VarIntSize(length) + length
+    },
+    encode(d: DataView, t: DataViewTracker, v: string) {
+        VarInt.encode(d, t, utf8Length(v))
+        encodeUTF8(d, t, v)
+    },
+    decode(d: DataView, t: DataViewTracker): string {
+        const length = VarInt.decode(d, t)
+        t.limit('maxStringLength', length)
+        return decodeUTF8(d, t, length)
+    },
+    validate(t: DataViewTracker, v: string) {
+        if (typeof v !== 'string') throw t.invalid('Expected a string', v)
+    },
+    jsonSchema: () => ({type: 'string'}),
+    arbitrary: random => arbitraryString(random, CodePointRanges)
+}
+
+// String encoded as Latin-1 (ISO-8859-1) where each character is a
+// single byte. Characters above 0xFF are truncated so this should only
+// be used for compatibility with peers that don't support UTF-8
+export const Latin1Str: DataType<string> = {
+    name: 'Latin1Str',
+    size(value: string): number {
+        return VarIntSize(value.length) + value.length
+    },
+    encode(d: DataView, t: DataViewTracker, v: string) {
+        VarInt.encode(d, t, v.length)
+        for (let i = 0; i < v.length; i++) {
+            u8.encode(d, t, v.charCodeAt(i))
+        }
+    },
+    decode(d: DataView, t: DataViewTracker): string {
+        const length = VarInt.decode(d, t)
+        t.limit('maxStringLength', length)
+        const arr = new Uint8Array(d.buffer, d.byteOffset + t.many(length), length)
+        let out = ''
+        // Converted in chunks to avoid exceeding the argument limit of fromCharCode
+        for (let i = 0; i < length; i += 0x1000) {
+            out += String.fromCharCode.apply(null, Array.from(arr.subarray(i, i + 0x1000)))
+        }
+        return out
+    },
+    validate(t: DataViewTracker, v: string) {
+        if (typeof v !== 'string') throw t.invalid('Expected a string', v)
+        if (/[^\u0000-\u00FF]/.test(v)) throw t.invalid('Contains characters outside of Latin-1', v)
+    },
+    jsonSchema: () => ({type: 'string', pattern: '^[\\u0000-\\u00FF]*$'}),
+    arbitrary: random => arbitraryString(random, [[0, 0xFF]])
+}
+
 // Struct layouts are object mappings of keys to data types
 export type StructLayout = Record<string, DataType<any>>;
 
-// Struct typed are object mappings of keys with the js types of data types
-export type StructTyped<Origin extends StructLayout> = {
-    [Key in keyof Origin]: Origin[Key] extends DataType<infer V> ? V : unknown
+// The javascript type of a data type
+export type DataTypeValue<D> = D extends DataType<infer V> ? V : unknown
+
+// The keys of a struct layout whose data types allow the field to be left out
+type OptionalKeys<Origin extends StructLayout> = {
+    [Key in keyof Origin]: Origin[Key] extends OptionalDataType<any> ? Key : never
+}[keyof Origin]
+
+// The keys of a struct layout whose fields must be provided
+type RequiredKeys<Origin extends StructLayout> = Exclude<keyof Origin, OptionalKeys<Origin>>
+
+// Flattens an intersection of object types into a single object type
+type Flatten<T> = { [Key in keyof T]: T[Key] }
+
+// Struct typed are object mappings of keys with the js types of data types. Fields
+// using an OptionalDataType are optional. StructTyped<any> is left as any
+export type StructTyped<Origin extends StructLayout> = 0 extends (1 & Origin) ? any : Flatten<{
+    [Key in RequiredKeys<Origin>]: DataTypeValue<Origin[Key]>
+} & {
+    [Key in OptionalKeys<Origin>]?: DataTypeValue<Origin[Key]>
+}>
+
+/**
+ * A data type for fields that can be left out of the struct object.
+ * The optional property is used to mark the field as optional when
+ * inferring the {@see StructTyped} type
+ */
+export interface OptionalDataType<N> extends DataType<N> {
+    optional: true;
+}
+
+/**
+ * Creates a DataType for a value that may not be present. The value is
+ * prefixed with a presence byte. Values that are undefined (or null) are
+ * encoded as just the presence byte and are decoded as undefined. This is
+ * equivalent to a pointer field in Go or an Option<T> in Rust
+ *
+ * Encoding:
+ *
+ * Present  Bool
+ * if Present {
+ *     Value DataType<T>
+ * }
+ *
+ * @param type The data type of the value when present
+ * @constructor Creates a new optional DataType
+ */
+export function Optional<T>(type: DataType<T>): OptionalDataType<T | undefined> {
+    return {
+        name: `Optional<${nameOf(type)}>`,
+        optional: true,
+        size(value: T | undefined): number {
+            if (value == null) return 1
+            const s = type.size
+            return 1 + (typeof s === 'number' ? s : s(value))
+        },
+        encode(d: DataView, t: DataViewTracker, v: T | undefined) {
+            if (v == null) {
+                bool.encode(d, t, false)
+            } else {
+                bool.encode(d, t, true)
+                type.encode(d, t, v)
+            }
+        },
+        decode(d: DataView, t: DataViewTracker): T | undefined {
+            return bool.decode(d, t) ? type.decode(d, t) : undefined
+        },
+        validate(t: DataViewTracker, v: T | undefined) {
+            if (v != null) validateValue(t, type, v)
+        },
+        // Missing values are represented as null (or left out of structs)
+        jsonSchema: () => ({anyOf: [jsonSchemaOf(type), {type: 'null'}]}),
+        encodeJSON: (t, v) => v == null ? null : encodeJSONValue(t, type, v),
+        decodeJSON: (t, json) => json == null ? undefined : decodeJSONValue(t, type, json),
+        arbitrary: random => random.bool() ? undefined : arbitraryValue(random, type)
+    }
+}
+
+/**
+ * Creates a DataType for a value that can be null. This has the same
+ * encoding as {@see Optional} but absent values are decoded as null and
+ * the field must always be provided in the struct object
+ *
+ * @param type The data type of the value when present
+ * @constructor Creates a new nullable DataType
+ */
+export function Nullable<T>(type: DataType<T>): DataType<T | null> {
+    const optional = Optional(type)
+    return {
+        name: `Nullable<${nameOf(type)}>`,
+        size: (value: T | null): number => (optional.size as DataSizeFunction<T | undefined>)(value ?? undefined),
+        encode: (d, t, v) => optional.encode(d, t, v ?? undefined),
+        decode(d: DataView, t: DataViewTracker): T | null {
+            const value = optional.decode(d, t)
+            return value === undefined ? null : value
+        },
+        validate: (t, v) => optional.validate!(t, v ?? undefined),
+        jsonSchema: optional.jsonSchema,
+        encodeJSON: (t, v) => optional.encodeJSON!(t, v ?? undefined),
+        decodeJSON: (t, json) => json == null ? null : decodeJSONValue(t, type, json),
+        arbitrary: random => random.bool() ? null : arbitraryValue(random, type)
+    }
+}
+
+/**
+ * Creates a DataType for a field that can be left out of the struct
+ * object in which case the default value is encoded in its place. The
+ * encoding is the same as the provided type so the value is always
+ * present on the wire
+ *
+ * @param type The data type of the value
+ * @param value The value to encode when the field is left out
+ * @constructor Creates a new default valued DataType
+ */
+export function Default<T>(type: DataType<T>, value: T): OptionalDataType<T> {
+    const s = type.size
+    return {
+        name: `Default<${nameOf(type)}>`,
+        optional: true,
+        size: typeof s === 'number' ? s : (v: T): number => s(v === undefined ? value : v),
+        encode: (d, t, v) => type.encode(d, t, v === undefined ? value : v),
+        decode: (d, t) => type.decode(d, t),
+        validate(t: DataViewTracker, v: T) {
+            if (v !== undefined) validateValue(t, type, v)
+        },
+        jsonSchema: () => jsonSchemaOf(type),
+        encodeJSON: (t, v) => encodeJSONValue(t, type, v === undefined ? value : v),
+        decodeJSON: (t, json) => json === undefined ? value : decodeJSONValue(t, type, json),
+        // Left out values decode as the default so a value is always generated
+        arbitrary: random => arbitraryValue(random, type)
+    }
+}
+
+/**
+ * A data type for a field that was added in a later version of an extensible
+ * struct. Peers on older versions don't send the field so it's decoded as the
+ * fallback value instead
+ */
+export interface VersionedDataType<N> extends OptionalDataType<N> {
+    // The version of the struct the field was added in
+    since: number;
+    // The value used when the field is missing
+    fallback: N;
+}
+
+/**
+ * Marks a field of an extensible struct as added in the provided version.
+ * The field is encoded using the provided type. When it's decoded from a
+ * peer that doesn't know about the field (or left out of the struct object
+ * when encoding) the provided value is used in its place. The value must
+ * be valid for the type so only optional types can use undefined
+ *
+ * @param version The version of the struct the field was added in
+ * @param type The data type of the value
+ * @param value The value to use when the field is missing
+ * @constructor Creates a new versioned DataType
+ */
+export function Since<T>(version: number, type: DataType<T>, value: T): VersionedDataType<T> {
+    const s = type.size
+    // Checks values which are left out when there isn't a fallback to use instead (only possible without type checking).
+    // The size of a value is computed without a tracker so the error doesn't have a field path
+    const present = (v: T, t?: DataViewTracker): T => {
+        if (v !== undefined) return v
+        if (value === undefined && !(type as OptionalDataType<T>).optional) {
+            throw t ? t.invalid('Missing value', v) : new EncodeError('Missing value', '', v)
+        }
+        return value
+    }
+    return {
+        name: `Since<${version}, ${nameOf(type)}>`,
+        optional: true,
+        since: version,
+        fallback: value,
+        size: typeof s === 'number' ? s : (v: T): number => s(present(v)),
+        encode: (d, t, v) => type.encode(d, t, present(v, t)),
+        decode: (d, t) => type.decode(d, t),
+        validate(t: DataViewTracker, v: T) {
+            validateValue(t, type, present(v, t))
+        },
+        jsonSchema: () => jsonSchemaOf(type),
+        encodeJSON: (t, v) => encodeJSONValue(t, type, present(v, t)),
+        decodeJSON: (t, json) => json === undefined ? value : decodeJSONValue(t, type, json),
+        // Left out values are generated as the fallback since that's what they decode as (undefined values are left out)
+        arbitrary: random => random.bool() ? value : arbitraryValue(random, type)
+    }
+}
+
+/**
+ * Creates a DataType for a value that must be one of the provided enum
+ * values. The value is encoded using the provided type so numeric enums
+ * can use any of the number types and string enums can use Str.
+ *
+ * Values that aren't in the enum fail to encode with an EncodeError and are
+ * rejected with a DecodeError when decoding
+ *
+ * @param type The data type used to encode the values
+ * @param values The allowed values of the enum
+ * @constructor Creates a new enum DataType
+ */
+export function Enum<B extends string | number, V extends B>(type: DataType<B>, values: readonly V[]): DataType<V> {
+    return {
+        name: `Enum<${nameOf(type)}>(${values.map(v => JSON.stringify(v)).join(', ')})`,
+        size: type.size as DataSize<V>,
+        encode(d: DataView, t: DataViewTracker, v: V) {
+            if (values.indexOf(v) === -1) throw t.invalid('Not a valid enum value', v)
+            type.encode(d, t, v)
+        },
+        decode(d: DataView, t: DataViewTracker): V {
+            const offset = t.current()
+            const value = type.decode(d, t) as V
+            if (values.indexOf(value) === -1) {
+                throw t.error(`${JSON.stringify(value)} is not a valid enum value`, offset)
+            }
+            return value
+        },
+        validate(t: DataViewTracker, v: V) {
+            if (values.indexOf(v) === -1) throw t.invalid('Not a valid enum value', v)
+        },
+        jsonSchema: () => ({enum: values.slice()}),
+        arbitrary: random => random.pick(values)
+    }
+}
+
+// Union layouts are mappings of tags to the data type of each variant
+export type UnionLayout = Record<number, DataType<any>>;
+
+// Union typed is the discriminated union of the variants using the type key as the tag
+export type UnionTyped<Origin extends UnionLayout> = {
+    [Key in keyof Origin]: { type: Key, value: DataTypeValue<Origin[Key]> }
+}[keyof Origin]
+
+/**
+ * Creates a DataType for a tagged union. The tag identifies which of the
+ * variants is encoded and the value is encoded using the data type of
+ * that variant. Values are represented as { type: Tag, value: Value } so
+ * that checking the type narrows the value
+ *
+ * Encoding:
+ *
+ * Tag    VarInt
+ * Value  DataType<Variants[Tag]>
+ *
+ * @param variants The mapping of tags to the data type of each variant
+ * @constructor Creates a new tagged union DataType
+ */
+export function Union<T extends UnionLayout>(variants: T): DataType<UnionTyped<T>> {
+    // The size of a value is computed without a tracker so the error doesn't have a field path
+    const variant = (tag: number, t?: DataViewTracker): DataType<any> => {
+        const type = variants[tag]
+        if (type === undefined) throw t ? t.invalid('Not a valid union tag', tag) : new EncodeError('Not a valid union tag', '', tag)
+        return type
+    }
+    const names = Object.keys(variants).map(tag => `${tag}: ${nameOf(variants[Number(tag)])}`)
+    return {
+        name: `Union<${names.join(', ')}>`,
+        size(value: UnionTyped<T>): number {
+            const tag = value.type as number, s = variant(tag).size
+            return VarIntSize(tag) + (typeof s === 'number' ? s : s(value.value))
+        },
+        encode(d: DataView, t: DataViewTracker, v: UnionTyped<T>) {
+            const tag = v.type as number
+            const type = variant(tag, t)
+            VarInt.encode(d, t, tag)
+            type.encode(d, t, v.value)
+        },
+        decode(d: DataView, t: DataViewTracker): UnionTyped<T> {
+            const offset = t.current()
+            const tag = VarInt.decode(d, t)
+            const type = variants[tag]
+            if (type === undefined) {
+                throw t.error(`${tag} is not a valid union tag`, offset)
+            }
+            return {type: tag, value: decodeField(d, t, 'value', type)} as UnionTyped<T>
+        },
+        validate(t: DataViewTracker, v: UnionTyped<T>) {
+            if (typeof v !== 'object' || v === null) throw t.invalid('Expected an object with a type and value', v)
+            const type = variants[v.type as number]
+            if (type === undefined) throw t.invalid('Not a valid union tag', v.type)
+            validateField(t, 'value', type, v.value)
+        },
+        jsonSchema: () => ({
+            oneOf: Object.keys(variants).map(tag => ({
+                type: 'object',
+                properties: {type: {const: Number(tag)}, value: jsonSchemaOf(variants[Number(tag)])},
+                required: ['type', 'value']
+            }))
+        }),
+        encodeJSON: (t, v) => ({type: v.type as number, value: encodeJSONField(t, 'value', variant(v.type as number, t), v.value)}),
+        decodeJSON(t: DataViewTracker, json: JsonValue): UnionTyped<T> {
+            if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+                throw t.invalid('Expected an object with a type and value', json)
+            }
+            const type = variants[json.type as number]
+            if (type === undefined) throw t.invalid('Not a valid union tag', json.type)
+            return {type: json.type, value: decodeJSONField(t, 'value', type, json.value)} as UnionTyped<T>
+        },
+        arbitrary(random: Random): UnionTyped<T> {
+            const tag = Number(random.pick(Object.keys(variants)))
+            return {type: tag, value: arbitraryValue(random, variants[tag])} as UnionTyped<T>
+        }
+    }
 }
 
 // Map keys are only allowed to be numbers or strings
@@ -274,6 +1496,7 @@ export type MapKey = number | string
  */
 export function MapType<A extends MapKey, B>(keyType: DataType<A>, valueType: DataType<B>): DataType<Record<A, B>> {
     return {
+        name: `Map<${nameOf(keyType)}, ${nameOf(valueType)}>`,
         size(value: Record<A, B>): number {
             const keys = Object.keys(value);
             return VarIntSize(keys.length)
@@ -291,13 +1514,49 @@ export function MapType<A extends MapKey, B>(keyType: DataType<A>, valueType: Da
         },
         decode(d: DataView, t: DataViewTracker): Record<A, B> {
             const length = VarInt.decode(d, t)
+            t.elements('maxMapSize', length)
             const out: any = {}
             for (let i = 0; i < length; i++) {
-                const key = keyType.decode(d, t)
-                out[key] = valueType.decode(d, t)
+                const key = decodeField(d, t, i, keyType)
+                out[key] = decodeField(d, t, String(key), valueType)
             }
             return out;
         },
+        validate(t: DataViewTracker, v: Record<A, B>) {
+            if (typeof v !== 'object' || v === null) throw t.invalid('Expected an object', v)
+            // Keys are always strings once they are object keys so only the values are validated
+            for (let key of Object.keys(v) as A[]) {
+                validateField(t, String(key), valueType, v[key])
+            }
+        },
+        jsonSchema(): JsonSchema {
+            const schema: JsonSchema = {type: 'object', additionalProperties: jsonSchemaOf(valueType)}
+            // Object keys are always strings so integer keys are described by a pattern
+            if (jsonSchemaOf(keyType).type === 'integer') schema.propertyNames = {pattern: '^-?[0-9]+$'}
+            return schema
+        },
+        encodeJSON(t: DataViewTracker, v: Record<A, B>): JsonValue {
+            const out: { [key: string]: JsonValue } = {}
+            for (let key of Object.keys(v) as A[]) {
+                out[key] = encodeJSONField(t, String(key), valueType, v[key])
+            }
+            return out
+        },
+        decodeJSON(t: DataViewTracker, json: JsonValue): Record<A, B> {
+            if (typeof json !== 'object' || json === null || Array.isArray(json)) throw t.invalid('Expected an object', json)
+            const out: any = {}
+            for (let key of Object.keys(json)) {
+                out[key] = decodeJSONField(t, key, valueType, json[key])
+            }
+            return out
+        },
+        arbitrary(random: Random): Record<A, B> {
+            const out: any = {}
+            for (let i = random.length(); i > 0; i--) {
+                out[arbitraryValue(random, keyType)] = arbitraryValue(random, valueType)
+            }
+            return out
+        }
     }
 }
 
@@ -310,12 +1569,29 @@ export function MapType<A extends MapKey, B>(keyType: DataType<A>, valueType: Da
  * included in the encoded struct.
  *
  * @param struct The struct layout includes a key value pair of keys to DataTypes
- * @param keys The order of the keys to encode / decode
+ * @param keys The order of the keys to encode / decode (must contain each key exactly once)
+ * @param options The encoding options (e.g. whether the struct is extensible)
  * @constructor Creates a new struct definition DataType
  */
-export function Struct<T extends StructLayout>(struct: T, keys: StructKeys<T>): DataType<StructTyped<T>> {
-    const definition = new StructDefinition<T>(struct, keys)
+export function Struct<T extends StructLayout, K extends StructKeys<T>>(
+    struct: T,
+    keys: [...K] & CheckedKeys<T, K>,
+    options?: StructOptions
+): DataType<StructTyped<T>> {
+    return structType(new StructDefinition<T>(struct, keys, options))
+}
+
+/**
+ * Creates the data type of a struct definition. The keys of the definition
+ * are only checked at runtime so the builders can use this for their
+ * generic layouts
+ *
+ * @param definition The struct definition
+ * @return The struct data type
+ */
+function structType<T extends StructLayout>(definition: StructDefinition<T>): DataType<StructTyped<T>> {
     return {
+        name: `Struct${definition.describe()}`,
         size(value: StructTyped<T>): number {
             return definition.computeSize(value)
         },
@@ -324,10 +1600,62 @@ export function Struct<T extends StructLayout>(struct: T, keys: StructKeys<T>):
         },
         decode(d: DataView, t: DataViewTracker): StructTyped<T> {
             return definition.decode(d, t)
-        }
+        },
+        validate(t: DataViewTracker, v: StructTyped<T>) {
+            definition.validate(t, v)
+        },
+        jsonSchema: () => definition.jsonSchema(),
+        encodeJSON: (t, v) => definition.encodeJSON(t, v),
+        decodeJSON: (t, json) => definition.decodeJSON(t, json),
+        arbitrary: random => definition.arbitrary(random)
+    }
+}
+
+/**
+ * A struct data type which is built one field at a time using {@see struct}
+ */
+export interface StructBuilder<T extends StructLayout> extends DataType<StructTyped<T>> {
+    /**
+     * Creates a new struct data type with the provided field added after
+     * the existing fields. This data type isn't changed
+     *
+     * @param key The name of the field (must not already be used)
+     * @param type The data type of the field
+     * @return The new struct data type
+     */
+    field<K extends string, D extends DataType<any>>(key: NewKey<T, K>, type: D): StructBuilder<T & { [Key in K]: D }>;
+}
+
+/**
+ * Creates a struct data type which can have more fields added
+ *
+ * @param layout The fields added so far
+ * @param keys The order of the fields added so far
+ * @param options The encoding options
+ * @return The struct data type
+ */
+function buildStruct<T extends StructLayout>(layout: T, keys: StructKeys<T>, options?: StructOptions): StructBuilder<T> {
+    return {
+        // Each key is checked by field as it's added so only the runtime checks are needed
+        ...structType(new StructDefinition(layout, keys, options)),
+        field: (key, type) => buildStruct({...layout, [key]: type}, [...keys, key], options)
     }
 }
 
+/**
+ * Starts the definition of a struct data type. The fields are added in
+ * encoding order using field so there isn't a separate keys array to
+ * keep in sync with the layout e.g.
+ *
+ * struct().field('name', Str).field('value', u8)
+ *
+ * @param options The encoding options (e.g. whether the struct is extensible)
+ * @constructor Creates a new struct DataType without any fields
+ */
+export function struct(options?: StructOptions): StructBuilder<{}> {
+    return buildStruct({}, [], options)
+}
+
 /***
  * Creates a DataType for an array of structs. This is a shortcut to replace the {@see ArrayType}
  * function when the DataType is a struct. This skips the additional step of calling {@see Struct}
@@ -341,12 +1669,20 @@ export function Struct<T extends StructLayout>(struct: T, keys: StructKeys<T>):
  * }
  *
  * @param struct The struct layout includes a key value pair of keys to DataTypes
- * @param keys The order of the keys to encode / decode
+ * @param keys The order of the keys to encode / decode (must contain each key exactly once)
+ * @param options The encoding options of the structs (e.g. whether they are extensible)
  * @constructor Creates a new array struct definition DataType
  */
-export function StructVec<T extends StructLayout>(struct: T, keys: StructKeys<T>): DataType<StructTyped<T>[]> {
-    const definition = new StructDefinition<T>(struct, keys)
+export function StructVec<T extends StructLayout, K extends StructKeys<T>>(
+    struct: T,
+    keys: [...K] & CheckedKeys<T, K>,
+    options?: StructOptions
+): DataType<StructTyped<T>[]> {
+    const definition = new StructDefinition<T>(struct, keys, options)
+    // The data type of each element (used so that the elements are traced)
+    const element = Struct(struct, keys, options)
     return {
+        name: `Vec<Struct${definition.describe()}>`,
         size(value: StructTyped<T>[]): number {
             let size = 0;
             for (let elm of value) {
@@ -362,12 +1698,25 @@ export function StructVec<T extends StructLayout>(struct: T, keys: StructKeys<T>
         },
         decode(d: DataView, t: DataViewTracker): StructTyped<T>[] {
             const count = VarInt.decode(d, t)
-            const out: StructTyped<T>[] = new Array(count)
+            t.elements('maxArrayLength', count)
+            const out: StructTyped<T>[] = []
             for (let i = 0; i < count; i++) {
-                out[i] = definition.decode(d, t)
+                out.push(decodeField(d, t, i, element))
             }
             return out;
-        }
+        },
+        validate(t: DataViewTracker, v: StructTyped<T>[]) {
+            if (!Array.isArray(v)) throw t.invalid('Expected an array', v)
+            for (let i = 0; i < v.length; i++) {
+                t.enter(i)
+                definition.validate(t, v[i])
+                t.exit()
+            }
+        },
+        jsonSchema: () => ({type: 'array', items: definition.jsonSchema()}),
+        encodeJSON: (t, v) => v.map((value, i) => encodeJSONField(t, i, element, value)),
+        decodeJSON: (t, json) => decodeJSONArray(t, json).map((value, i) => decodeJSONField(t, i, element, value)),
+        arbitrary: random => arbitraryArray(random, element, random.length())
     }
 }
 
@@ -387,6 +1736,7 @@ export function StructVec<T extends StructLayout>(struct: T, keys: StructKeys<T>
  */
 export function Vec<T>(type: DataType<T>): DataType<T[]> {
     return {
+        name: `Vec<${nameOf(type)}>`,
         size(value: T[]) {
             return getSizeOf(value, type) + VarIntSize(value.length)
         },
@@ -398,11 +1748,338 @@ export function Vec<T>(type: DataType<T>): DataType<T[]> {
         },
         decode(d: DataView, t: DataViewTracker): T[] {
             const count = VarInt.decode(d, t)
-            const out: T[] = new Array(count)
+            t.elements('maxArrayLength', count, typeof type.size === 'number' ? type.size : 1)
+            const out: T[] = []
             for (let i = 0; i < count; i++) {
-                out[i] = type.decode(d, t)
+                out.push(decodeField(d, t, i, type))
+            }
+            return out
+        },
+        validate(t: DataViewTracker, v: T[]) {
+            if (!Array.isArray(v)) throw t.invalid('Expected an array', v)
+            for (let i = 0; i < v.length; i++) {
+                validateField(t, i, type, v[i])
+            }
+        },
+        jsonSchema: () => ({type: 'array', items: jsonSchemaOf(type)}),
+        encodeJSON: (t, v) => v.map((value, i) => encodeJSONField(t, i, type, value)),
+        decodeJSON: (t, json) => decodeJSONArray(t, json).map((value, i) => decodeJSONField(t, i, type, value)),
+        arbitrary: random => arbitraryArray(random, type, random.length())
+    }
+}
+
+/**
+ * Calculates the size of the values of a tuple using the
+ * data type at the same index as each value
+ *
+ * @param values The values of the tuple
+ * @param types The data types of the tuple
+ */
+function getTupleSize(values: any[], types: DataType<any>[]): number {
+    let size = 0;
+    for (let i = 0; i < types.length; i++) {
+        const s = types[i].size
+        size += typeof s === 'number' ? s : s(values[i])
+    }
+    return size
+}
+
+/**
+ * Creates a DataType for an array with a fixed number of elements. The
+ * length isn't encoded so this is equivalent to a [N]T array in Go or
+ * a [T; N] array in Rust. Arrays with a different number of elements
+ * fail to encode with an EncodeError
+ *
+ * Encoding:
+ *
+ * for Length {
+ *     Value DataType<T>
+ * }
+ *
+ * @param type The type of data this array should encode
+ * @param length The number of elements in the array
+ * @constructor Creates a new fixed length array DataType
+ */
+export function FixedArray<T>(type: DataType<T>, length: number): DataType<T[]> {
+    const s = type.size
+    return {
+        name: `Array<${nameOf(type)}, ${length}>`,
+        // Arrays of fixed size elements are also fixed size
+        size: typeof s === 'number' ? s * length : (value: T[]): number => getSizeOf(value, type),
+        encode(d: DataView, t: DataViewTracker, v: T[]) {
+            if (v.length !== length) throw t.invalid(`Expected ${length} element(s)`, v)
+            for (let value of v) {
+                type.encode(d, t, value)
+            }
+        },
+        decode(d: DataView, t: DataViewTracker): T[] {
+            const out: T[] = []
+            for (let i = 0; i < length; i++) {
+                out.push(decodeField(d, t, i, type))
+            }
+            return out
+        },
+        validate(t: DataViewTracker, v: T[]) {
+            if (!Array.isArray(v)) throw t.invalid('Expected an array', v)
+            if (v.length !== length) throw t.invalid(`Expected ${length} element(s)`, v)
+            for (let i = 0; i < v.length; i++) {
+                validateField(t, i, type, v[i])
+            }
+        },
+        jsonSchema: () => ({type: 'array', items: jsonSchemaOf(type), minItems: length, maxItems: length}),
+        encodeJSON: (t, v) => v.map((value, i) => encodeJSONField(t, i, type, value)),
+        decodeJSON: (t, json) => decodeJSONArray(t, json).map((value, i) => decodeJSONField(t, i, type, value)),
+        arbitrary: random => arbitraryArray(random, type, length)
+    }
+}
+
+// Tuple typed is the array of the js types of each of the data types in the tuple
+export type TupleTyped<Types extends DataType<any>[]> = {
+    [Key in keyof Types]: DataTypeValue<Types[Key]>
+}
+
+/**
+ * Creates a DataType for a tuple of values of different types. The values
+ * are encoded one after another in the order of the data types without a
+ * length prefix. This is equivalent to a Rust tuple
+ *
+ * Encoding:
+ *
+ * for Types {
+ *     Value DataType<Types[Index]>
+ * }
+ *
+ * @param types The data types of the values in the tuple
+ * @constructor Creates a new tuple DataType
+ */
+export function Tuple<T extends DataType<any>[]>(...types: T): DataType<TupleTyped<T>> {
+    const sizes = types.map(type => type.size)
+    const fixed = sizes.every(s => typeof s === 'number')
+    return {
+        name: `Tuple<${types.map(nameOf).join(', ')}>`,
+        // Tuples of fixed size values are also fixed size
+        size: fixed
+            ? (sizes as number[]).reduce((total, s) => total + s, 0)
+            : (value: TupleTyped<T>): number => getTupleSize(value as any[], types),
+        encode(d: DataView, t: DataViewTracker, v: TupleTyped<T>) {
+            const values = v as any[]
+            if (values.length !== types.length) throw t.invalid(`Expected ${types.length} value(s)`, v)
+            for (let i = 0; i < types.length; i++) {
+                types[i].encode(d, t, values[i])
+            }
+        },
+        decode(d: DataView, t: DataViewTracker): TupleTyped<T> {
+            const out: any[] = []
+            for (let i = 0; i < types.length; i++) {
+                out.push(decodeField(d, t, i, types[i]))
+            }
+            return out as TupleTyped<T>
+        },
+        validate(t: DataViewTracker, v: TupleTyped<T>) {
+            if (!Array.isArray(v)) throw t.invalid('Expected an array', v)
+            if (v.length !== types.length) throw t.invalid(`Expected ${types.length} value(s)`, v)
+            for (let i = 0; i < types.length; i++) {
+                validateField(t, i, types[i], v[i])
+            }
+        },
+        jsonSchema: () => ({
+            type: 'array',
+            prefixItems: types.map(jsonSchemaOf),
+            minItems: types.length,
+            maxItems: types.length
+        }),
+        encodeJSON: (t, v) => types.map((type, i) => encodeJSONField(t, i, type, (v as any[])[i])),
+        decodeJSON(t: DataViewTracker, json: JsonValue): TupleTyped<T> {
+            const values = decodeJSONArray(t, json)
+            return types.map((type, i) => decodeJSONField(t, i, type, values[i])) as TupleTyped<T>
+        },
+        arbitrary: random => types.map(type => arbitraryValue(random, type)) as TupleTyped<T>
+    }
+}
+
+// The byte order of the elements of the typed array data types
+export type Endianness = 'big' | 'little'
+
+// Whether this platform stores the elements of typed arrays as little endian
+const PlatformLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+// The typed arrays which can be encoded using the typed array data types
+type NumericArray = Int16Array | Uint16Array | Int32Array | Uint32Array
+    | Float32Array | Float64Array | BigInt64Array | BigUint64Array
+
+// The constructor of one of the numeric typed arrays
+interface NumericArrayConstructor<A extends NumericArray> {
+    new(length: number): A;
+    readonly BYTES_PER_ELEMENT: number;
+}
+
+/**
+ * Creates a DataType for a typed array with the length prefix encoded as
+ * a VarInt followed by each element using the provided byte order. When
+ * the byte order matches the platform the elements are copied in bulk
+ * rather than one at a time. Decoded arrays are always copies so they are
+ * aligned and don't keep the received buffer alive
+ *
+ * Encoding:
+ *
+ * Length VarInt
+ * for Length {
+ *     Value Element (in the provided byte order)
+ * }
+ *
+ * @param name The name of the data type
+ * @param Constructor The typed array constructor
+ * @param element The data type of the elements (used for their JSON representation)
+ * @param endian The byte order of the elements
+ * @param get Reads an element from the data view
+ * @param set Writes an element to the data view
+ * @constructor Creates a new typed array DataType
+ */
+function TypedVec<A extends NumericArray>(
+    name: string,
+    Constructor: NumericArrayConstructor<A>,
+    element: DataType<any>,
+    endian: Endianness,
+    get: (d: DataView, offset: number, little: boolean) => any,
+    set: (d: DataView, offset: number, value: any, little: boolean) => void
+): DataType<A> {
+    const little = endian === 'little'
+    const bytes = Constructor.BYTES_PER_ELEMENT
+    // The array is cast so the elements can be accessed the same way for bigint and number arrays
+    const elements = (array: A): any[] => array as unknown as any[]
+    return {
+        name: `${name}<${little ? 'LE' : 'BE'}>`,
+        size(value: A): number {
+            return VarIntSize(value.length) + value.length * bytes
+        },
+        encode(d: DataView, t: DataViewTracker, v: A) {
+            VarInt.encode(d, t, v.length)
+            const start = t.many(v.length * bytes)
+            if (little === PlatformLittleEndian) {
+                new Uint8Array(d.buffer, d.byteOffset + start, v.byteLength)
+                    .set(new Uint8Array(v.buffer, v.byteOffset, v.byteLength))
+            } else {
+                const values = elements(v)
+                for (let i = 0; i < values.length; i++) {
+                    set(d, start + i * bytes, values[i], little)
+                }
+            }
+        },
+        decode(d: DataView, t: DataViewTracker): A {
+            const count = VarInt.decode(d, t)
+            t.limit('maxArrayLength', count)
+            const start = t.many(count * bytes)
+            const out = new Constructor(count)
+            if (little === PlatformLittleEndian) {
+                new Uint8Array(out.buffer).set(new Uint8Array(d.buffer, d.byteOffset + start, out.byteLength))
+            } else {
+                const values = elements(out)
+                for (let i = 0; i < count; i++) {
+                    values[i] = get(d, start + i * bytes, little)
+                }
+            }
+            return out
+        },
+        validate(t: DataViewTracker, v: A) {
+            if (!(v instanceof (Constructor as unknown as Function))) throw t.invalid(`Expected a ${name.replace('Vec', 'Array')}`, v)
+        },
+        jsonSchema: () => ({type: 'array', items: jsonSchemaOf(element)}),
+        encodeJSON(t: DataViewTracker, v: A): JsonValue {
+            // Mapping a typed array would create another typed array so the values are copied to an array
+            const values = elements(v), out: JsonValue[] = []
+            for (let i = 0; i < values.length; i++) {
+                out.push(encodeJSONField(t, i, element, values[i]))
+            }
+            return out
+        },
+        decodeJSON(t: DataViewTracker, json: JsonValue): A {
+            const values = decodeJSONArray(t, json)
+            const out = new Constructor(values.length)
+            const outValues = elements(out)
+            for (let i = 0; i < values.length; i++) {
+                outValues[i] = decodeJSONField(t, i, element, values[i])
+            }
+            return out
+        },
+        arbitrary(random: Random): A {
+            const out = new Constructor(random.length())
+            const values = elements(out)
+            for (let i = 0; i < values.length; i++) {
+                values[i] = arbitraryValue(random, element)
             }
             return out
         }
     }
 }
+
+/**
+ * Creates a DataType for a length prefixed Int16Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Int16Vec(endian: Endianness = 'big'): DataType<Int16Array> {
+    return TypedVec('Int16Vec', Int16Array, i16, endian, (d, o, l) => d.getInt16(o, l), (d, o, v, l) => d.setInt16(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed Uint16Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Uint16Vec(endian: Endianness = 'big'): DataType<Uint16Array> {
+    return TypedVec('Uint16Vec', Uint16Array, u16, endian, (d, o, l) => d.getUint16(o, l), (d, o, v, l) => d.setUint16(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed Int32Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Int32Vec(endian: Endianness = 'big'): DataType<Int32Array> {
+    return TypedVec('Int32Vec', Int32Array, i32, endian, (d, o, l) => d.getInt32(o, l), (d, o, v, l) => d.setInt32(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed Uint32Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Uint32Vec(endian: Endianness = 'big'): DataType<Uint32Array> {
+    return TypedVec('Uint32Vec', Uint32Array, u32, endian, (d, o, l) => d.getUint32(o, l), (d, o, v, l) => d.setUint32(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed Float32Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Float32Vec(endian: Endianness = 'big'): DataType<Float32Array> {
+    return TypedVec('Float32Vec', Float32Array, f32, endian, (d, o, l) => d.getFloat32(o, l), (d, o, v, l) => d.setFloat32(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed Float64Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function Float64Vec(endian: Endianness = 'big'): DataType<Float64Array> {
+    return TypedVec('Float64Vec', Float64Array, f64, endian, (d, o, l) => d.getFloat64(o, l), (d, o, v, l) => d.setFloat64(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed BigInt64Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function BigInt64Vec(endian: Endianness = 'big'): DataType<BigInt64Array> {
+    return TypedVec('BigInt64Vec', BigInt64Array, i64, endian, (d, o, l) => d.getBigInt64(o, l), (d, o, v, l) => d.setBigInt64(o, v, l))
+}
+
+/**
+ * Creates a DataType for a length prefixed BigUint64Array
+ *
+ * @param endian The byte order of the elements (default big endian like the other number types)
+ */
+export function BigUint64Vec(endian: Endianness = 'big'): DataType<BigUint64Array> {
+    return TypedVec('BigUint64Vec', BigUint64Array, u64, endian, (d, o, l) => d.getBigUint64(o, l), (d, o, v, l) => d.setBigUint64(o, v, l))
+}
@@ -0,0 +1,193 @@
+import { StructTyped } from "./data";
+
+/**
+ * Error used to reject the promise returned by a request when the
+ * request times out, the socket closes or the server responds to the
+ * request with an error packet. Also used to reject the promise
+ * returned by once when waiting times out or the socket closes
+ */
+export class RequestError extends Error {
+    // The decoded error packet if the server responded with one
+    readonly data?: StructTyped<any>;
+
+    /**
+     * Creates a new request error
+     *
+     * @param message The reason the request failed
+     * @param data The decoded error packet (if there is one)
+     */
+    constructor(message: string, data?: StructTyped<any>) {
+        super(message);
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, RequestError.prototype)
+        this.name = 'RequestError'
+        this.data = data
+    }
+}
+
+/**
+ * Error thrown when received data can't be decoded because it is
+ * truncated, malformed or exceeds the configured decode limits.
+ * Other errors thrown while decoding (e.g. by a custom data type)
+ * are wrapped in a decode error with the original error as the source
+ */
+export class DecodeError extends Error {
+    // The id of the packet being decoded (if known)
+    packetId?: number;
+    // The unexpected error thrown while decoding (if this error wraps one)
+    source?: unknown;
+    // The path to the field that failed to decode e.g. "users[2].name"
+    readonly path: string;
+    // The offset in the buffer where the error occurred
+    readonly offset: number;
+
+    /**
+     * Creates a new decode error
+     *
+     * @param message The reason decoding failed
+     * @param path The path to the field that failed to decode
+     * @param offset The offset in the buffer where the error occurred
+     */
+    constructor(message: string, path: string, offset: number) {
+        super(path.length > 0 ? `${message} at ${path} (offset ${offset})` : `${message} (offset ${offset})`);
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, DecodeError.prototype)
+        this.name = 'DecodeError'
+        this.path = path
+        this.offset = offset
+    }
+}
+
+/**
+ * Describes a value for use in an error message. Objects are
+ * described by their type rather than their contents
+ *
+ * @param value The value to describe
+ * @return The description of the value
+ */
+function describeValue(value: unknown): string {
+    if (typeof value === 'string') return JSON.stringify(value)
+    if (typeof value === 'bigint') return `${value}n`
+    if (Array.isArray(value)) return `array of length ${value.length}`
+    if (typeof value === 'object' && value !== null) return Object.prototype.toString.call(value)
+    return String(value)
+}
+
+/**
+ * Error thrown when validation is enabled and a value can't be encoded
+ * using its data type. For example 300 for a u8, a fraction for an i32
+ * or a missing struct field
+ */
+export class EncodeError extends Error {
+    // The id of the packet being encoded (if known)
+    readonly packetId?: number;
+    // The reason the value is invalid
+    readonly reason: string;
+    // The path to the invalid field e.g. "users[2].name"
+    readonly path: string;
+    // The invalid value
+    readonly value: unknown;
+
+    /**
+     * Creates a new encode error
+     *
+     * @param reason The reason the value is invalid
+     * @param path The path to the invalid field
+     * @param value The invalid value
+     * @param packetId The id of the packet being encoded
+     */
+    constructor(reason: string, path: string, value: unknown, packetId?: number) {
+        let message = path.length > 0 ? `${reason} at ${path}` : reason
+        if (packetId !== undefined) message += ` in packet ${packetId}`
+        super(`${message} (value ${describeValue(value)})`);
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, EncodeError.prototype)
+        this.name = 'EncodeError'
+        this.packetId = packetId
+        this.reason = reason
+        this.path = path
+        this.value = value
+    }
+}
+
+/**
+ * Error thrown when a schema is invalid. For example when it
+ * references an unknown type or contains duplicate packet ids. Also
+ * thrown when registering a packet with an id that's already used
+ */
+export class SchemaError extends Error {
+    /**
+     * Creates a new schema error
+     *
+     * @param message The reason the schema is invalid
+     */
+    constructor(message: string) {
+        super(message);
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, SchemaError.prototype)
+        this.name = 'SchemaError'
+    }
+}
+
+/**
+ * Error emitted when the underlying transport reports an error.
+ * The original error (or event) is available as the source
+ */
+export class TransportError extends Error {
+    // The error or event reported by the transport
+    readonly source: unknown;
+
+    /**
+     * Creates a new transport error
+     *
+     * @param source The error or event reported by the transport
+     */
+    constructor(source: unknown) {
+        super(source instanceof Error ? source.message : 'Transport error');
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, TransportError.prototype)
+        this.name = 'TransportError'
+        this.source = source
+    }
+}
+
+/**
+ * Error thrown by {@see checkRoundTrip} and {@see checkGoldenVectors}
+ * when a value doesn't survive being encoded and decoded or doesn't
+ * match its expected encoding
+ */
+export class RoundTripError extends Error {
+    // The reason the check failed
+    readonly reason: string;
+    // The name of the data type being checked
+    readonly type: string;
+    // The value being checked
+    readonly value: unknown;
+    // The seed of the random values (to reproduce the failure)
+    readonly seed?: number;
+    // The encoded bytes of the value (if it could be encoded)
+    readonly bytes?: Uint8Array;
+
+    /**
+     * Creates a new round trip error
+     *
+     * @param reason The reason the check failed
+     * @param type The name of the data type being checked
+     * @param value The value being checked
+     * @param seed The seed of the random values
+     * @param bytes The encoded bytes of the value
+     */
+    constructor(reason: string, type: string, value: unknown, seed?: number, bytes?: Uint8Array) {
+        let message = `${reason} for ${type} (value ${describeValue(value)}`
+        if (seed !== undefined) message += `, seed ${seed}`
+        super(message + ')');
+        // Restore the prototype which is lost when extending Error targeting ES5
+        Object.setPrototypeOf(this, RoundTripError.prototype)
+        this.name = 'RoundTripError'
+        this.reason = reason
+        this.type = type
+        this.value = value
+        this.seed = seed
+        this.bytes = bytes
+    }
+}
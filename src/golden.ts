@@ -0,0 +1,65 @@
+import { JsonValue } from "./data";
+
+/**
+ * A value along with the bytes it must be encoded as. Vectors only use
+ * plain data so they can be shared with the other implementations of
+ * the protocol (e.g. by saving them with JSON.stringify)
+ */
+export interface GoldenVector {
+    // The type expression of the value (the same as the schema) e.g. "Vec<u8>"
+    type: string;
+    // The JSON representation of the value ({@see toJSON})
+    value: JsonValue;
+    // The encoded bytes as hex
+    hex: string;
+}
+
+// The golden vectors checked by {@see checkGoldenVectors}. They are also saved as
+// test/golden.json for the other implementations to load. Maps only have a single
+// entry since Go doesn't keep the order of map entries
+export const GoldenVectors: GoldenVector[] = [
+    {type: 'u8', value: 255, hex: 'ff'},
+    {type: 'i8', value: -2, hex: 'fe'},
+    {type: 'u16', value: 258, hex: '0102'},
+    {type: 'i16', value: -2, hex: 'fffe'},
+    {type: 'u32', value: 16909060, hex: '01020304'},
+    {type: 'i32', value: -2147483648, hex: '80000000'},
+    {type: 'u64', value: '18446744073709551615', hex: 'ffffffffffffffff'},
+    {type: 'i64', value: '-2', hex: 'fffffffffffffffe'},
+    {type: 'f32', value: 1.5, hex: '3fc00000'},
+    {type: 'f32', value: -0.10000000149011612, hex: 'bdcccccd'},
+    {type: 'f64', value: 1.5, hex: '3ff8000000000000'},
+    {type: 'f64', value: 'Infinity', hex: '7ff0000000000000'},
+    {type: 'VarInt', value: 0, hex: '00'},
+    {type: 'VarInt', value: 127, hex: '7f'},
+    {type: 'VarInt', value: 128, hex: '8001'},
+    {type: 'VarInt', value: 300, hex: 'ac02'},
+    {type: 'VarInt', value: 4294967295, hex: 'ffffffff0f'},
+    {type: 'VarLong', value: '18446744073709551615', hex: 'ffffffffffffffffff01'},
+    {type: 'VarI32', value: -1, hex: '01'},
+    {type: 'VarI32', value: 1, hex: '02'},
+    {type: 'VarI32', value: 2147483647, hex: 'feffffff0f'},
+    {type: 'VarI32', value: -2147483648, hex: 'ffffffff0f'},
+    {type: 'VarI64', value: '-1', hex: '01'},
+    {type: 'VarI64', value: '-9223372036854775808', hex: 'ffffffffffffffffff01'},
+    {type: 'bool', value: true, hex: '01'},
+    {type: 'bool', value: false, hex: '00'},
+    {type: 'Str', value: '', hex: '00'},
+    {type: 'Str', value: 'hi', hex: '026869'},
+    {type: 'Str', value: 'é', hex: '02c3a9'},
+    {type: 'Str', value: '€', hex: '03e282ac'},
+    {type: 'Str', value: '😀', hex: '04f09f9880'},
+    {type: 'Latin1Str', value: 'é', hex: '01e9'},
+    {type: 'ByteArray', value: 'AQID', hex: '03010203'},
+    {type: 'Vec<u8>', value: [1, 2], hex: '020102'},
+    {type: 'Vec<Str>', value: ['a'], hex: '010161'},
+    {type: 'Vec<Optional<VarInt>>', value: [300, null], hex: '0201ac0200'},
+    {type: 'Optional<u16>', value: 258, hex: '010102'},
+    {type: 'Optional<u16>', value: null, hex: '00'},
+    {type: 'Map<Str, u8>', value: {a: 1}, hex: '01016101'},
+    {type: 'Map<u16, bool>', value: {'5': true}, hex: '01000501'},
+    {type: 'Map<Str, Vec<i16>>', value: {x: [-1]}, hex: '01017801ffff'},
+    {type: 'Array<u8, 3>', value: [1, 2, 3], hex: '010203'},
+    {type: 'Array<Str, 2>', value: ['a', ''], hex: '016100'},
+    {type: 'Tuple<u8, Str>', value: [1, 'a'], hex: '010161'}
+]
@@ -0,0 +1,66 @@
+import { PacketDefinition } from "./packets";
+import { u32, VarInt } from "./data";
+
+export interface HandshakeConfig {
+    // The version of the protocol
+    version: number;
+    // The packets used to compute the fingerprint of the protocol
+    packets?: PacketDefinition<any>[];
+    // A precomputed fingerprint (takes priority over packets)
+    fingerprint?: number;
+    // The id of the handshake packet (default 0)
+    id?: number;
+    // Whether the socket should close when the protocols don't match (default true)
+    strict?: boolean;
+}
+
+// The details of a handshake where the client and server protocols didn't match
+export interface HandshakeMismatch {
+    version: number;
+    fingerprint: number;
+    remoteVersion: number;
+    remoteFingerprint: number;
+}
+
+/**
+ * Computes a stable 32-bit fingerprint (FNV-1a hash) of the provided
+ * packet definitions from their ids, field keys and data types. The
+ * order the packets are provided in doesn't affect the fingerprint
+ *
+ * Data types without a name are all described as "unknown" so changes
+ * to custom data types are only detected if they are given a name
+ *
+ * @param packets The packet definitions to fingerprint
+ * @return The fingerprint as an unsigned 32-bit integer
+ */
+export function fingerprint(packets: PacketDefinition<any>[]): number {
+    const description = packets
+        .slice()
+        .sort((a, b) => a.id - b.id)
+        .map(packet => `${packet.id}:${packet.describe()}`)
+        .join(';')
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < description.length; i++) {
+        hash ^= description.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+/**
+ * Creates the definition of the handshake packet which is sent by both
+ * the client and server when the connection opens
+ *
+ * Encoding:
+ * Version      VarInt
+ * Fingerprint  u32
+ *
+ * @param id The id of the handshake packet
+ * @return The handshake packet definition
+ */
+export function HandshakePacket(id: number = 0) {
+    return new PacketDefinition(id, {
+        version: VarInt,
+        fingerprint: u32
+    }, ['version', 'fingerprint'])
+}
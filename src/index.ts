@@ -1,8 +1,34 @@
 export {
-    i8, i16, i32, u8, u16, u32,
-    VarInt, f32, f64,
-    Str, bool, ByteArray,
-    Vec, Struct, StructVec, MapType
+    i8, i16, i32, i64, u8, u16, u32, u64,
+    VarInt, VarLong, VarI32, VarI64, f32, f64,
+    Str, Latin1Str, utf8Length, bool, ByteArray,
+    Vec, Struct, StructVec, MapType, FixedArray, Tuple, struct, StructBuilder,
+    Int16Vec, Uint16Vec, Int32Vec, Uint32Vec, Float32Vec, Float64Vec, BigInt64Vec, BigUint64Vec, Endianness,
+    Optional, Nullable, Default, Since, VersionedDataType, Enum, Union,
+    DecodeLimits, DefaultLimits, JsonValue, JsonSchema, arbitraryValue
 } from "./data";
-export { PacketDefinition } from "./packets";
-export { BinarySocket, Config } from "./socket"
\ No newline at end of file
+export { PacketDefinition, StructOptions, CheckedKeys, PacketBuilder, packet } from "./packets";
+export { BinarySocket, Config, QueueConfig, RequestOptions, OnceOptions } from "./socket"
+export { ReconnectStrategy, BackoffOptions, fixedDelay, exponentialBackoff } from "./reconnect";
+export { RequestError, DecodeError, EncodeError, SchemaError, TransportError, RoundTripError } from "./errors";
+export { InboundMiddleware, OutboundMiddleware, NextFunction } from "./middleware";
+export { Schema, SchemaField, SchemaStruct, SchemaPacket, LoadedSchema, loadSchema, parseType, resolveSchema, createType } from "./schema";
+export { generateTypeScript, generateGo, generateRust, TypeScriptOptions, GoOptions } from "./codegen";
+export { HandshakeConfig, HandshakeMismatch, HandshakePacket, fingerprint } from "./handshake";
+export {
+    Transport, TransportHandlers, Connector, CloseInfo, WebSocketLike, WebSocketConstructor,
+    webSocketTransport, wrapWebSocket, loopbackPair
+} from "./transport";
+export { PacketServer, Connection, ServerConfig, ServerPacketHandler } from "./server";
+export { PacketRegistry, PacketPhase, PacketDirection, DefaultPhase, UnknownPacket } from "./registry";
+export { PacketWriter } from "./writer";
+export { Batcher, BatchConfig, frameBatch, splitBatch } from "./batch";
+export {
+    Compressed, CompressionConfig, compressFrame, decompressFrame, decompressFrameSync, deflateSync, inflateSync
+} from "./compression";
+export { tracePacket, formatTrace, hexDump, inspectPacket, InspectOptions, PacketTrace, DebugLogger } from "./inspect";
+export { Recorder, RecorderOptions, Recording, RecordedEvent, ReplayOptions, replayConnector } from "./recording";
+export { jsonSchema, toJSON, fromJSON, JsonPacket, createJSONPacket, parseJSONPacket } from "./json";
+export { Random } from "./random";
+export { checkRoundTrip, checkGoldenVectors, RoundTripOptions } from "./roundtrip";
+export { GoldenVector, GoldenVectors } from "./golden";
@@ -0,0 +1,210 @@
+import { PacketDefinition } from "./packets";
+import { DataViewTracker, DecodeLimits, DefaultLimits, TraceEntry, VarInt } from "./data";
+import { DecodeError } from "./errors";
+
+export interface InspectOptions {
+    // Whether packets are framed with a request id (must match the socket)
+    requestIds?: boolean;
+    // The maximum lengths allowed when decoding the packet
+    limits?: Partial<DecodeLimits>;
+}
+
+// The result of tracing the decoding of a packet
+export interface PacketTrace {
+    // The id of the packet (if it could be decoded)
+    id?: number;
+    // The request id of the packet (if request ids are enabled)
+    requestId?: number;
+    // The definition used to decode the packet (if one was found)
+    definition?: PacketDefinition<any>;
+    // The bytes of the packet
+    bytes: Uint8Array;
+    // The decoded fields ordered by their offset (parents before their children)
+    entries: TraceEntry[];
+    // The number of bytes read before decoding finished (or failed)
+    read: number;
+    // The error that stopped decoding (if decoding failed)
+    error?: DecodeError;
+}
+
+/**
+ * Creates a view of the bytes of the provided data
+ *
+ * @param data The buffer or view
+ * @return The bytes of the data
+ */
+function bytesOf(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+    return ArrayBuffer.isView(data)
+        ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        : new Uint8Array(data)
+}
+
+/**
+ * Decodes the packet recording the offset, length, path, data type
+ * and value of every field including the fields nested within
+ * structs, arrays and maps. Decoding errors are recorded in the
+ * trace rather than thrown so the fields before the error can
+ * still be inspected
+ *
+ * @param data The encoded packet
+ * @param packets The definitions of the packets that could be in the buffer
+ * @param options The framing and limits used when decoding
+ * @return The trace of the decoded packet
+ */
+export function tracePacket(data: ArrayBuffer | ArrayBufferView, packets: PacketDefinition<any>[], options?: InspectOptions): PacketTrace {
+    const bytes = bytesOf(data)
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const trace: PacketTrace = {bytes, entries: [], read: 0}
+    const tracker = new DataViewTracker()
+    tracker.limits = {...DefaultLimits, ...options?.limits}
+    tracker.tracer = (entry: TraceEntry) => trace.entries.push(entry)
+    tracker.bound(view)
+    // The header isn't a struct field so it's recorded here
+    const header = (path: string): number => {
+        const offset = tracker.current()
+        const value = VarInt.decode(view, tracker)
+        trace.entries.push({path, depth: 1, offset, length: tracker.current() - offset, type: 'VarInt', value})
+        return value
+    }
+    try {
+        trace.id = header('id')
+        if (options?.requestIds) trace.requestId = header('requestId')
+        for (let packet of packets) {
+            if (packet.id === trace.id) {
+                trace.definition = packet
+                break
+            }
+        }
+        if (trace.definition) trace.definition.decode(view, tracker)
+    } catch (e) {
+        // Errors other than decode errors (e.g. from custom data types) are recorded the same way
+        const error = tracker.unexpected(e)
+        error.packetId = trace.id
+        trace.error = error
+    }
+    trace.read = tracker.current()
+    // Fields are reported once they are decoded so children come before their parents
+    trace.entries.sort((a, b) => a.offset - b.offset || a.depth - b.depth)
+    return trace
+}
+
+/**
+ * Formats the offset as a 4 digit hex number
+ */
+function hexOffset(offset: number): string {
+    return '0x' + ('000' + offset.toString(16)).slice(-4)
+}
+
+/**
+ * Formats the bytes as space separated hex
+ */
+function hexBytes(bytes: Uint8Array): string {
+    const out: string[] = []
+    for (let i = 0; i < bytes.length; i++) {
+        out.push(('0' + bytes[i].toString(16)).slice(-2))
+    }
+    return out.join(' ')
+}
+
+/**
+ * Creates a hex dump of the provided bytes with 16 bytes per
+ * line along with the offset and the printable ASCII characters
+ *
+ * @param data The bytes to dump
+ * @return The hex dump
+ */
+export function hexDump(data: ArrayBuffer | ArrayBufferView): string {
+    const bytes = bytesOf(data)
+    const lines: string[] = []
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const line = bytes.subarray(offset, offset + 16)
+        let ascii = ''
+        for (let i = 0; i < line.length; i++) {
+            ascii += line[i] >= 0x20 && line[i] < 0x7F ? String.fromCharCode(line[i]) : '.'
+        }
+        // Each byte takes up 3 characters so short lines are padded to keep the ascii aligned
+        const hex = hexBytes(line)
+        lines.push(`${hexOffset(offset)}  ${hex}${' '.repeat(47 - hex.length)}  ${ascii}`)
+    }
+    return lines.join('\n')
+}
+
+/**
+ * Formats a decoded value for the trace. Values containing
+ * other fields are summarised as their fields are listed
+ * on the lines following them
+ *
+ * @param value The decoded value
+ * @return The formatted value
+ */
+function formatValue(value: unknown): string {
+    if (typeof value === 'string') return JSON.stringify(value)
+    if (typeof value === 'bigint') return `${value}n`
+    if (value instanceof Uint8Array) return `Uint8Array(${value.length})`
+    if (Array.isArray(value)) return `[${value.length} item(s)]`
+    if (typeof value === 'object' && value !== null) return `{${Object.keys(value).length} field(s)}`
+    return String(value)
+}
+
+/**
+ * Formats the trace as a table with a line for each field containing
+ * the offset, the bytes, the field path (indented by depth), the
+ * data type and the decoded value
+ *
+ * @param trace The trace to format
+ * @return The formatted trace
+ */
+export function formatTrace(trace: PacketTrace): string {
+    // Long fields (e.g. strings) only show their first bytes
+    const maxBytes = 8
+    const rows = trace.entries.map(entry => {
+        const end = Math.min(entry.offset + entry.length, entry.offset + maxBytes)
+        let bytes = hexBytes(trace.bytes.subarray(entry.offset, end))
+        if (entry.length > maxBytes) bytes += ' ..'
+        return [hexOffset(entry.offset), bytes, '  '.repeat(entry.depth - 1) + entry.path, entry.type, formatValue(entry.value)]
+    })
+    const widths = [0, 0, 0, 0]
+    for (let row of rows) {
+        for (let i = 0; i < widths.length; i++) widths[i] = Math.max(widths[i], row[i].length)
+    }
+    const id = trace.id === undefined ? 'unknown' : `0x${trace.id.toString(16)}`
+    const lines = [`Packet ${id} (${trace.bytes.length} bytes)`]
+    if (trace.id !== undefined && !trace.definition && !trace.error) lines.push('No packet definition defined for this id')
+    for (let row of rows) {
+        lines.push(row.map((column, i) => i < widths.length ? column + ' '.repeat(widths[i] - column.length) : column).join('  '))
+    }
+    if (trace.error) lines.push(`Error: ${trace.error.message}`)
+    if (!trace.error && trace.definition && trace.read < trace.bytes.length) {
+        lines.push(`${trace.bytes.length - trace.read} unread byte(s) after the packet`)
+    }
+    return lines.join('\n')
+}
+
+/**
+ * Creates an annotated trace of the packet followed by a hex dump
+ * of the whole packet. Useful when debugging a mismatch between the
+ * packet layouts of the client and the server
+ *
+ * @param data The encoded packet
+ * @param packets The definitions of the packets that could be in the buffer
+ * @param options The framing and limits used when decoding
+ * @return The formatted trace and hex dump
+ */
+export function inspectPacket(data: ArrayBuffer | ArrayBufferView, packets: PacketDefinition<any>[], options?: InspectOptions): string {
+    const trace = tracePacket(data, packets, options)
+    return `${formatTrace(trace)}\n${hexDump(trace.bytes)}`
+}
+
+// A function which logs the debug messages (e.g. console.debug)
+export type DebugLogger = (message: string) => void
+
+/**
+ * Creates the logger for the debug config option
+ *
+ * @param debug Whether debugging is enabled or the logger to use
+ * @return The logger or undefined if debugging isn't enabled
+ */
+export function debugLogger(debug: boolean | DebugLogger | undefined): DebugLogger | undefined {
+    if (!debug) return undefined
+    return typeof debug === 'function' ? debug : (message: string) => console.debug(message)
+}
@@ -0,0 +1,168 @@
+import {
+    DataType, DataViewTracker, decodeJSONValue, encodeJSONValue, JsonSchema, jsonSchemaOf, JsonValue, StructLayout,
+    StructTyped, validateValue
+} from "./data";
+import { PacketDefinition, StructDefinition } from "./packets";
+import { DecodeError, EncodeError } from "./errors";
+
+// The JSON Schema dialect of the generated schemas
+const Dialect = 'https://json-schema.org/draft/2020-12/schema'
+
+// A data type or the definition of a struct or packet
+type Definition = DataType<any> | StructDefinition<any>
+
+/**
+ * Adds the id of the packet to the encode errors thrown while converting
+ * a packet so that they match the errors thrown when validating
+ *
+ * @param definition The definition being converted
+ * @param convert The conversion function
+ * @return The result of the conversion
+ */
+function withPacketId<R>(definition: Definition, convert: () => R): R {
+    try {
+        return convert()
+    } catch (e) {
+        if (!(e instanceof EncodeError) || !(definition instanceof PacketDefinition) || e.packetId !== undefined) throw e
+        throw new EncodeError(e.reason, e.path, e.value, definition.id)
+    }
+}
+
+/**
+ * Creates the JSON Schema describing the JSON representation of
+ * the provided data type, struct definition or packet definition
+ *
+ * @param definition The data type or definition to describe
+ * @return The JSON Schema
+ */
+export function jsonSchema(definition: Definition): JsonSchema {
+    const schema = definition instanceof StructDefinition ? definition.jsonSchema() : jsonSchemaOf(definition)
+    return {$schema: Dialect, ...schema}
+}
+
+/**
+ * Converts the value to its JSON representation. Byte arrays are converted
+ * to base64 strings, 64-bit integers to strings of digits and NaN or infinite
+ * floats to "NaN", "Infinity" or "-Infinity". The value is validated first
+ *
+ * @param definition The data type or definition of the value
+ * @param value The value to convert
+ * @return The JSON representation (which can be passed to JSON.stringify)
+ * @throws EncodeError If the value is invalid
+ */
+export function toJSON<T extends StructLayout>(definition: StructDefinition<T>, value: StructTyped<T>): JsonValue
+export function toJSON<T>(definition: DataType<T>, value: T): JsonValue
+export function toJSON(definition: Definition, value: any): JsonValue {
+    const tracker = new DataViewTracker()
+    return withPacketId(definition, () => {
+        if (definition instanceof StructDefinition) {
+            definition.validate(tracker, value)
+            return definition.encodeJSON(tracker, value)
+        }
+        validateValue(tracker, definition, value)
+        return encodeJSONValue(tracker, definition, value)
+    })
+}
+
+/**
+ * Converts the JSON representation created by {@see toJSON} back to
+ * the value. The converted value is validated before it's returned
+ *
+ * @param definition The data type or definition of the value
+ * @param json The JSON representation (e.g. the result of JSON.parse)
+ * @return The converted value
+ * @throws EncodeError If the JSON has the wrong shape or the converted value is invalid
+ */
+export function fromJSON<T extends StructLayout>(definition: StructDefinition<T>, json: JsonValue): StructTyped<T>
+export function fromJSON<T>(definition: DataType<T>, json: JsonValue): T
+export function fromJSON(definition: Definition, json: JsonValue): any {
+    const tracker = new DataViewTracker()
+    return withPacketId(definition, () => {
+        if (definition instanceof StructDefinition) {
+            const value = definition.decodeJSON(tracker, json)
+            definition.validate(tracker, value)
+            return value
+        }
+        const value = decodeJSONValue(tracker, definition, json)
+        validateValue(tracker, definition, value)
+        return value
+    })
+}
+
+// A packet sent using the JSON codec
+export interface JsonPacket {
+    // The id of the packet
+    id: number;
+    // The request id of the packet (if request ids are enabled)
+    requestId?: number;
+    // The JSON representation of the packet data
+    data: JsonValue;
+}
+
+/**
+ * Creates the JSON text of a packet for the JSON codec
+ *
+ * Encoding:
+ * {"id": ID, "requestId": RequestID (only present when provided), "data": Data}
+ *
+ * @param definition The definition of the packet
+ * @param data The packet data
+ * @param requestId The optional request id
+ * @return The JSON text
+ */
+export function createJSONPacket<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number): string {
+    const packet: JsonPacket = {id: definition.id, requestId, data: definition.encodeJSON(new DataViewTracker(), data)}
+    return JSON.stringify(packet)
+}
+
+/**
+ * Parses the JSON text of a packet sent using the JSON codec.
+ * The packet data is left as JSON to be converted using the
+ * definition of the packet
+ *
+ * @param text The JSON text
+ * @return The parsed packet
+ * @throws DecodeError If the text isn't a valid JSON packet
+ */
+export function parseJSONPacket(text: string): JsonPacket {
+    let packet: any
+    try {
+        packet = JSON.parse(text)
+    } catch (e) {
+        throw new DecodeError(`Invalid JSON packet: ${e instanceof Error ? e.message : e}`, '', 0)
+    }
+    const isId = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 0xFFFFFFFF && value % 1 === 0
+    if (typeof packet !== 'object' || packet === null || !isId(packet.id)) {
+        throw new DecodeError('JSON packet is missing its id', '', 0)
+    }
+    if (packet.requestId !== undefined && !isId(packet.requestId)) {
+        throw new DecodeError('JSON packet has an invalid request id', '', 0)
+    }
+    return {id: packet.id, requestId: packet.requestId, data: packet.data ?? null}
+}
+
+/**
+ * Encodes the text as UTF-8 into a new buffer
+ *
+ * @param text The text to encode
+ * @return The buffer containing the encoded text
+ */
+export function encodeText(text: string): ArrayBuffer {
+    const bytes = new TextEncoder().encode(text)
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+}
+
+/**
+ * Decodes the UTF-8 text in the view
+ *
+ * @param view The view of the encoded text
+ * @return The decoded text
+ * @throws DecodeError If the text isn't valid UTF-8
+ */
+export function decodeText(view: DataView): string {
+    try {
+        return new TextDecoder('utf-8', {fatal: true}).decode(view)
+    } catch (e) {
+        throw new DecodeError('JSON packet is not valid UTF-8', '', 0)
+    }
+}
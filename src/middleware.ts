@@ -0,0 +1,44 @@
+import { PacketDefinition } from "./packets";
+import { StructTyped } from "./data";
+
+// Passes the (possibly modified) packet data on to the next middleware
+export type NextFunction = (data: StructTyped<any>) => void
+
+/**
+ * Middleware for packets received from the server. The packet is only
+ * passed on when next is called so middleware can modify the packet by
+ * passing different data, drop it by never calling next or delay it by
+ * calling next at a later time
+ */
+export type InboundMiddleware = (id: number, data: StructTyped<any>, next: NextFunction) => any
+
+/**
+ * Middleware for packets being sent to the server. Works the same as
+ * {@see InboundMiddleware} but is given the definition of the packet
+ */
+export type OutboundMiddleware = (definition: PacketDefinition<any>, data: StructTyped<any>, next: NextFunction) => any
+
+// Either type of middleware where T is the packet id or definition
+type Middleware<T> = (target: T, data: StructTyped<any>, next: NextFunction) => any
+
+/**
+ * Runs the packet data through each of the provided middleware in order
+ * calling done with the resulting data if none of the middleware drop it
+ *
+ * @param middleware The middleware to run
+ * @param target The packet id or definition passed to the middleware
+ * @param data The packet data
+ * @param done The function called with the resulting data
+ */
+export function runMiddleware<T>(middleware: Middleware<T>[], target: T, data: StructTyped<any>, done: NextFunction) {
+    // Copy the middleware so that changes while running don't affect this packet
+    const chain = middleware.slice()
+    const next = (index: number, data: StructTyped<any>) => {
+        if (index < chain.length) {
+            chain[index](target, data, (value: StructTyped<any>) => next(index + 1, value))
+        } else {
+            done(data)
+        }
+    }
+    next(0, data)
+}
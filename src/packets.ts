@@ -1,4 +1,9 @@
-import { DataType, DataViewTracker, StructLayout, StructTyped, VarInt, VarIntSize } from "./data";
+import {
+    arbitraryValue, DataType, DataViewTracker, decodeField, decodeJSONField, encodeJSONField, JsonSchema, jsonSchemaOf,
+    JsonValue, nameOf, OptionalDataType, StructLayout, StructTyped, validateField, VarInt, VarIntSize, VersionedDataType
+} from "./data";
+import { EncodeError } from "./errors";
+import { Random } from "./random";
 
 
 // Represents a key of a struct
@@ -6,31 +11,140 @@ export type StructKey<T> = keyof T;
 // Represents all the keys of a struct
 export type StructKeys<T> = Array<StructKey<T>>;
 
+// The keys that appear more than once in a tuple of keys
+type DuplicateKeys<K extends readonly unknown[]> = K extends readonly [infer First, ...infer Rest]
+    ? (First extends Rest[number] ? First : never) | DuplicateKeys<Rest>
+    : never
+
+// A new key for a struct layout (keys that are already used aren't allowed)
+export type NewKey<T, K extends string> = K extends keyof T ? never : K
+
+/**
+ * Checks at compile time that a tuple of keys contains every key of the
+ * struct exactly once. This is unknown for valid keys so it can be
+ * intersected with the keys parameter. Otherwise, it names the missing
+ * or duplicate keys so that they show up in the compiler error. Keys
+ * that aren't a tuple (e.g. string[]) can't be checked
+ */
+export type CheckedKeys<T, K extends readonly unknown[]> =
+    [Exclude<keyof T, K[number]>] extends [never]
+        ? [DuplicateKeys<K>] extends [never] ? unknown : { duplicateKeys: DuplicateKeys<K> }
+        : { missingKeys: Exclude<keyof T, K[number]> }
+
 // Represents the pairing of a key and data type
 type DefinitionField<T> = [StructKey<T>, DataType<any>];
 // Represents all the pairs of keys and data types for a struct
 type DefinitionFields<T> = DefinitionField<T>[];
 
+export interface StructOptions {
+    // Whether the struct is prefixed with its length and field count so that fields can be added later
+    extensible?: boolean;
+    // The version of an extensible struct to encode (defaults to the latest version)
+    version?: number;
+}
+
+/**
+ * The definition of the fields of a struct. Structs are encoded as each of
+ * their fields in order. Extensible structs are prefixed with their length
+ * and the number of fields so that decoders can fill in the fields added
+ * in later versions that are missing and skip the fields they don't know
+ *
+ * Extensible encoding:
+ *
+ * Length  VarInt (the number of bytes after the length)
+ * Count   VarInt
+ * for Count {
+ *     Field  DataType<T[Key]>
+ * }
+ */
 export class StructDefinition<T extends StructLayout> {
     private readonly fields: DefinitionFields<T>;
+    // Whether the struct is prefixed with its length and field count
+    private readonly extensible: boolean;
+    // The number of fields that aren't versioned (must be present when decoding)
+    private readonly required: number;
+    // The number of fields that are encoded (the fields up to the encoded version)
+    private readonly count: number;
 
-    constructor(struct: T, keys: StructKeys<T>) {
+    /**
+     * Creates a new struct definition. Versioned fields ({@see Since}) must
+     * come after all the other fields in the order of their versions
+     *
+     * @param struct The structure of the struct
+     * @param keys The order of the struct keys
+     * @param options The encoding options
+     * @throws Error If the keys don't contain every field exactly once or
+     * versioned fields are used in a struct that isn't extensible or are out of order
+     */
+    constructor(struct: T, keys: StructKeys<T>, options?: StructOptions) {
         const fields: DefinitionFields<T> = new Array(keys.length);
         for (let i = 0; i < keys.length; i++) {
             const key = keys[i], type = struct[key];
+            if (type === undefined) throw new Error(`Key ${String(key)} isn't a field of the struct`)
+            if (keys.indexOf(key) !== i) throw new Error(`Duplicate key ${String(key)}`)
             fields[i] = [key, type];
         }
+        for (let key of Object.keys(struct)) {
+            if (keys.indexOf(key) === -1) throw new Error(`Field ${key} is missing from the keys`)
+        }
         this.fields = fields;
+        this.extensible = options?.extensible ?? false;
+        let required = 0, count = 0, latest = 0;
+        for (let [key, type] of fields) {
+            const since = (type as VersionedDataType<any>).since
+            if (since === undefined) {
+                if (required !== count) throw new Error(`Field ${String(key)} must come before the versioned fields`)
+                required++
+            } else {
+                if (!this.extensible) throw new Error(`Versioned field ${String(key)} requires an extensible struct`)
+                if (since < latest) throw new Error(`Field ${String(key)} must come after the fields added in version ${latest}`)
+                latest = since
+                if (options?.version !== undefined && since > options.version) continue
+            }
+            count++
+        }
+        this.required = required;
+        this.count = count;
+    }
+
+    /**
+     * Describes the layout of this struct using the names of the fields
+     * and their data types in encoding order e.g. "{name: Str, user: u8}".
+     * Extensible structs only describe the fields that aren't versioned
+     * followed by ".." so peers on different versions have the same layout
+     */
+    describe(): string {
+        const fields = this.fields
+            .slice(0, this.required)
+            .map(([key, type]) => `${String(key)}: ${nameOf(type)}`)
+        if (this.extensible) fields.push('..')
+        return `{${fields.join(', ')}}`
     }
 
     computeSize(packet: StructTyped<T>) {
+        if (!this.extensible) return this.fieldsSize(packet)
+        const size = VarIntSize(this.count) + this.fieldsSize(packet)
+        return VarIntSize(size) + size
+    }
+
+    /**
+     * Calculates the size of the encoded fields without
+     * the length and count prefix of extensible structs
+     *
+     * @param packet The struct to calculate the size of
+     * @private Shouldn't be accessed outside this class
+     */
+    private fieldsSize(packet: StructTyped<T>): number {
+        // Optional fields make StructTyped a mapped type that can't be indexed by keyof T
+        const values: any = packet;
         let size: number = 0;
-        for (let [key, type] of this.fields) {
+        for (let i = 0; i < this.count; i++) {
+            const [key, type] = this.fields[i]
             const s = type.size
             if (typeof s === 'number') {
                 size += s
             } else {
-                size += s(packet[key])
+                size += s(values[key])
             }
         }
         return size
@@ -38,21 +152,152 @@ export class StructDefinition<T extends StructLayout> {
 
     decode(view: DataView, tracker: DataViewTracker): StructTyped<T> {
         const out: any = {};
-        for (let [key, type] of this.fields) {
-            out[key] = type.decode(view, tracker);
+        if (!this.extensible) {
+            for (let [key, type] of this.fields) {
+                out[key] = decodeField(view, tracker, key as string, type);
+            }
+            return out;
         }
+        const length = VarInt.decode(view, tracker)
+        const end = tracker.enclose(length)
+        const offset = tracker.current()
+        const count = VarInt.decode(view, tracker)
+        if (count < this.required) {
+            throw tracker.error(`Expected at least ${this.required} field(s) but got ${count}`, offset)
+        }
+        for (let i = 0; i < this.fields.length; i++) {
+            const [key, type] = this.fields[i]
+            // Fields from later versions than the peer are missing
+            out[key] = i < count
+                ? decodeField(view, tracker, key as string, type)
+                : (type as VersionedDataType<any>).fallback
+        }
+        // Skips the fields from later versions than this one
+        tracker.release(end)
         return out;
     }
 
     encode(view: DataView, tracker: DataViewTracker, struct: StructTyped<T>) {
+        const values: any = struct;
+        if (this.extensible) {
+            VarInt.encode(view, tracker, VarIntSize(this.count) + this.fieldsSize(struct))
+            VarInt.encode(view, tracker, this.count)
+        }
+        for (let i = 0; i < this.count; i++) {
+            const [key, type] = this.fields[i]
+            // The key is entered so errors thrown by the data type include the field path
+            tracker.enter(key as string)
+            try {
+                type.encode(view, tracker, values[key])
+            } finally {
+                tracker.exit()
+            }
+        }
+    }
+
+    /**
+     * Checks that each of the fields can be encoded using their data
+     * types. Fields can only be left out if their data type is optional
+     *
+     * @param tracker The tracker used to keep track of the field path
+     * @param struct The struct to validate
+     * @throws EncodeError If a field is missing or can't be encoded
+     */
+    validate(tracker: DataViewTracker, struct: StructTyped<T>) {
+        const values: any = struct;
+        if (typeof values !== 'object' || values === null) throw tracker.invalid('Expected an object', values)
+        for (let [key, type] of this.fields) {
+            const value = values[key]
+            if (value === undefined && !(type as OptionalDataType<any>).optional) {
+                tracker.enter(key as string)
+                throw tracker.invalid('Missing value', value)
+            }
+            validateField(tracker, key as string, type, value)
+        }
+    }
+
+    /**
+     * Describes the JSON representation of this struct as a JSON Schema.
+     * Structs are represented as objects and the fields which are optional
+     * aren't required
+     */
+    jsonSchema(): JsonSchema {
+        const properties: JsonSchema = {}
+        const required: string[] = []
+        for (let [key, type] of this.fields) {
+            properties[key as string] = jsonSchemaOf(type)
+            if (!(type as OptionalDataType<any>).optional) required.push(key as string)
+        }
+        return {type: 'object', properties, required, additionalProperties: false}
+    }
+
+    /**
+     * Converts the struct to its JSON representation. Fields which
+     * are undefined are left out of the JSON object
+     *
+     * @param tracker The tracker used to keep track of the field path
+     * @param struct The struct to convert
+     * @return The JSON object
+     */
+    encodeJSON(tracker: DataViewTracker, struct: StructTyped<T>): JsonValue {
+        const values: any = struct;
+        const out: { [key: string]: JsonValue } = {}
+        for (let [key, type] of this.fields) {
+            const value = values[key]
+            if (value !== undefined) out[key as string] = encodeJSONField(tracker, key as string, type, value)
+        }
+        return out
+    }
+
+    /**
+     * Converts the JSON representation of this struct back to the struct.
+     * Fields that are missing from the JSON object are only allowed if
+     * their data type is optional
+     *
+     * @param tracker The tracker used to keep track of the field path
+     * @param json The JSON object to convert
+     * @return The converted struct
+     * @throws EncodeError If the JSON object has the wrong shape or is missing a field
+     */
+    decodeJSON(tracker: DataViewTracker, json: JsonValue): StructTyped<T> {
+        if (typeof json !== 'object' || json === null || Array.isArray(json)) throw tracker.invalid('Expected an object', json)
+        const out: any = {};
         for (let [key, type] of this.fields) {
-            const value = struct[key]
-            type.encode(view, tracker, value)
+            const value = json[key as string]
+            if (value === undefined && !(type as OptionalDataType<any>).optional) {
+                tracker.enter(key as string)
+                throw tracker.invalid('Missing value', value)
+            }
+            out[key] = decodeJSONField(tracker, key as string, type, value)
+        }
+        return out;
+    }
+    /**
+     * Generates a random struct using the data types of the fields. The
+     * fields added after the encoded version are set to their fallback
+     * values since that's what they are decoded as
+     *
+     * @param random The random number generator to use
+     * @return The generated struct
+     * @throws Error If one of the fields can't generate values
+     */
+    arbitrary(random: Random): StructTyped<T> {
+        const out: any = {};
+        for (let i = 0; i < this.fields.length; i++) {
+            const [key, type] = this.fields[i]
+            out[key] = i < this.count
+                ? arbitraryValue(random, type)
+                : (type as VersionedDataType<any>).fallback
         }
+        return out;
     }
 }
 
-export class PacketDefinition<T extends StructLayout> extends StructDefinition<T> {
+/**
+ * The definition of a packet. The keys type is only used to check the
+ * keys passed to the constructor at compile time ({@see CheckedKeys})
+ */
+export class PacketDefinition<T extends StructLayout, K extends StructKeys<T> = StructKeys<T>> extends StructDefinition<T> {
 
     // The id of this packet
     public readonly id: number;
@@ -62,33 +307,130 @@ export class PacketDefinition<T extends StructLayout> extends StructDefinition<T
      *
      * @param id The id of the packet
      * @param struct The structure of the packet
+     * @param keys The order of the packet keys (must contain each key exactly once)
+     * @param options The encoding options (e.g. whether the packet is extensible)
+     */
+    constructor(id: number, struct: T, keys: [...K] & CheckedKeys<T, K>, options?: StructOptions)
+    /**
+     * Creates a new packet definition from keys which have already been
+     * checked at compile time (e.g. by {@see PacketBuilder} which checks
+     * each key as it's added). The keys are still checked at runtime
+     *
+     * @param id The id of the packet
+     * @param struct The structure of the packet
      * @param keys The order of the packet keys
+     * @param options The encoding options
+     * @param checked Marks the keys as already checked
      */
-    constructor(id: number, struct: T, keys: StructKeys<T>) {
-        super(struct, keys)
+    constructor(id: number, struct: T, keys: StructKeys<T>, options: StructOptions | undefined, checked: true)
+    constructor(id: number, struct: T, keys: StructKeys<T>, options?: StructOptions) {
+        super(struct, keys, options)
         this.id = id;
     }
 
+    /**
+     * Checks that the packet data can be encoded. The thrown
+     * error includes the id of this packet
+     *
+     * @param tracker The tracker used to keep track of the field path
+     * @param data The packet data to validate
+     * @throws EncodeError If a field is missing or can't be encoded
+     */
+    validate(tracker: DataViewTracker, data: StructTyped<T>) {
+        try {
+            super.validate(tracker, data)
+        } catch (e) {
+            if (!(e instanceof EncodeError)) throw e
+            throw new EncodeError(e.reason, e.path, e.value, this.id)
+        }
+    }
+
     /**
      * Function for encoding the packet into an array buffer.
      * this will reset write tracker after writing into the
      * buffer.
      *
      * Encoding:
-     * ID     VarInt
-     * Data   StructTyped<T>
+     * ID         VarInt
+     * RequestID  VarInt (Only present when a request id is provided)
+     * Data       StructTyped<T>
      *
      *
      * @param writeTracker The write tracker to keep track of write progress
      * @param data The packet data to write
+     * @param requestId The optional request id used to correlate responses
      * @return An array buffer of the binary packet data
      */
-    create(writeTracker: DataViewTracker, data: StructTyped<T>): ArrayBuffer {
-        const buffer = new ArrayBuffer(VarIntSize(this.id) + this.computeSize(data));
+    create(writeTracker: DataViewTracker, data: StructTyped<T>, requestId?: number): ArrayBuffer {
+        let size = VarIntSize(this.id) + this.computeSize(data);
+        if (requestId !== undefined) size += VarIntSize(requestId)
+        const buffer = new ArrayBuffer(size);
         const view = new DataView(buffer);
-        VarInt.encode(view, writeTracker, this.id)
-        super.encode(view, writeTracker, data)
-        writeTracker.reset()
+        try {
+            VarInt.encode(view, writeTracker, this.id)
+            if (requestId !== undefined) VarInt.encode(view, writeTracker, requestId)
+            super.encode(view, writeTracker, data)
+        } finally {
+            // Reset even when a value fails to encode so the next packet starts at the beginning
+            writeTracker.reset()
+        }
         return buffer
     }
 }
+
+/**
+ * A packet definition which is built one field at a time using {@see packet}.
+ * The fields are encoded in the order they are added so there isn't a
+ * separate keys array to keep in sync with the layout
+ */
+export class PacketBuilder<T extends StructLayout> extends PacketDefinition<T> {
+    // The layout of the fields added so far
+    private readonly layout: T;
+    // The order of the fields added so far
+    private readonly order: StructKeys<T>;
+    // The encoding options of the packet
+    private readonly options?: StructOptions;
+
+    /**
+     * Creates a new packet builder. Use {@see packet} instead
+     *
+     * @param id The id of the packet
+     * @param struct The structure of the packet
+     * @param keys The order of the packet keys
+     * @param options The encoding options
+     */
+    constructor(id: number, struct: T, keys: StructKeys<T>, options?: StructOptions) {
+        // Each key is checked by field as it's added
+        super(id, struct, keys, options, true)
+        this.layout = struct
+        this.order = keys
+        this.options = options
+    }
+
+    /**
+     * Creates a new definition of this packet with the provided field added
+     * after the existing fields. This definition isn't changed
+     *
+     * @param key The name of the field (must not already be used)
+     * @param type The data type of the field
+     * @return The new packet definition
+     */
+    field<K extends string, D extends DataType<any>>(key: NewKey<T, K>, type: D): PacketBuilder<T & { [Key in K]: D }> {
+        const struct = {...this.layout, [key]: type} as T & { [Key in K]: D }
+        return new PacketBuilder(this.id, struct, [...this.order, key], this.options)
+    }
+}
+
+/**
+ * Starts the definition of a packet with the provided id. The fields are
+ * added in encoding order using field e.g.
+ *
+ * packet(0x02).field('name', Str).field('user', u8)
+ *
+ * @param id The id of the packet
+ * @param options The encoding options (e.g. whether the packet is extensible)
+ * @return The packet definition without any fields
+ */
+export function packet(id: number, options?: StructOptions): PacketBuilder<{}> {
+    return new PacketBuilder(id, {}, [], options)
+}
@@ -0,0 +1,115 @@
+// How often the values at the edges of a range are picked instead of a uniform value
+const EdgeChance = 0.2
+
+/**
+ * A small seeded random number generator (mulberry32) used to generate
+ * values for data types. The same seed always produces the same values
+ * so failures can be reproduced
+ */
+export class Random {
+    // The seed this generator was created with
+    public readonly seed: number;
+    // The current state of the generator
+    private state: number;
+
+    /**
+     * Creates a new random number generator
+     *
+     * @param seed The seed of the generator (defaults to a random seed)
+     */
+    constructor(seed: number = Math.floor(Math.random() * 0x100000000)) {
+        this.seed = seed >>> 0
+        this.state = this.seed
+    }
+
+    /**
+     * @return A random number between 0 (inclusive) and 1 (exclusive)
+     */
+    next(): number {
+        let z = (this.state = (this.state + 0x6D2B79F5) >>> 0)
+        z = Math.imul(z ^ (z >>> 15), z | 1)
+        z ^= z + Math.imul(z ^ (z >>> 7), z | 61)
+        return ((z ^ (z >>> 14)) >>> 0) / 0x100000000
+    }
+
+    /**
+     * @return A random boolean
+     */
+    bool(): boolean {
+        return this.next() < 0.5
+    }
+
+    /**
+     * Picks a random integer within the range. The edges of the
+     * range (and zero) are picked more often because that's
+     * where encodings usually go wrong
+     *
+     * @param min The smallest value (inclusive)
+     * @param max The largest value (inclusive)
+     * @return The random integer
+     */
+    int(min: number, max: number): number {
+        if (this.next() < EdgeChance) {
+            const edges = min <= 0 && max >= 0 ? [min, max, 0] : [min, max]
+            return this.pick(edges)
+        }
+        return min + Math.floor(this.next() * (max - min + 1))
+    }
+
+    /**
+     * Picks a random 64-bit integer. The edges of the range
+     * (and zero) are picked more often
+     *
+     * @param signed Whether the integer is signed
+     * @return The random integer
+     */
+    bigint(signed: boolean): bigint {
+        if (this.next() < EdgeChance) {
+            const edges = signed
+                ? [-(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1), BigInt(0)]
+                : [BigInt(0), (BigInt(1) << BigInt(64)) - BigInt(1)]
+            return this.pick(edges)
+        }
+        // Small values are common so the number of bits is random too
+        const bits = this.int(1, 64)
+        const high = BigInt(Math.floor(this.next() * 0x100000000))
+        const low = BigInt(Math.floor(this.next() * 0x100000000))
+        const value = BigInt.asUintN(bits, (high << BigInt(32)) | low)
+        return signed ? BigInt.asIntN(64, this.bool() ? value : -value) : value
+    }
+
+    /**
+     * Picks a random float including the special values (zero,
+     * negative zero, infinities and NaN)
+     *
+     * @return The random float
+     */
+    float(): number {
+        if (this.next() < EdgeChance) {
+            return this.pick([0, -0, Infinity, -Infinity, NaN, Number.MAX_VALUE, Number.MIN_VALUE])
+        }
+        const value = this.next() * Math.pow(2, this.int(-40, 40))
+        return this.bool() ? value : -value
+    }
+
+    /**
+     * Picks a random length for a collection. Short lengths are used
+     * so that nested collections stay small
+     *
+     * @param max The longest length (defaults to 4)
+     * @return The random length
+     */
+    length(max: number = 4): number {
+        return Math.floor(this.next() * (max + 1))
+    }
+
+    /**
+     * Picks one of the provided values
+     *
+     * @param values The values to pick from (must not be empty)
+     * @return The picked value
+     */
+    pick<T>(values: readonly T[]): T {
+        return values[Math.floor(this.next() * values.length)]
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * A strategy that decides how long the socket should wait before
+ * attempting to reconnect and when it should give up reconnecting
+ */
+export interface ReconnectStrategy {
+    /**
+     * Calculates the delay before the provided reconnect attempt
+     *
+     * @param attempt The number of the attempt starting at 1 (reset after a successful connection)
+     * @return The delay in milliseconds or undefined to give up reconnecting
+     */
+    delay(attempt: number): number | undefined;
+}
+
+export interface BackoffOptions {
+    // The delay in milliseconds before the first attempt (default 500)
+    initial?: number;
+    // The maximum delay in milliseconds (default 30000)
+    max?: number;
+    // The amount the delay is multiplied by after each attempt (default 2)
+    factor?: number;
+    // The fraction of the delay that is randomized between 0 and 1 (default 0.5)
+    jitter?: number;
+    // The maximum number of attempts before giving up (default unlimited)
+    maxAttempts?: number;
+}
+
+/**
+ * Creates a reconnect strategy that always waits the same amount of
+ * time between each attempt
+ *
+ * @param delay The delay in milliseconds between attempts
+ * @param maxAttempts The maximum number of attempts before giving up
+ * @return The created reconnect strategy
+ */
+export function fixedDelay(delay: number, maxAttempts?: number): ReconnectStrategy {
+    return {
+        delay(attempt: number): number | undefined {
+            if (maxAttempts !== undefined && attempt > maxAttempts) return undefined
+            return delay
+        }
+    }
+}
+
+/**
+ * Creates a reconnect strategy where the delay grows exponentially with
+ * each attempt. Part of the delay is randomized (jitter) so that many
+ * clients disconnected at the same time don't all reconnect at once
+ *
+ * @param options The options for the backoff
+ * @return The created reconnect strategy
+ */
+export function exponentialBackoff(options?: BackoffOptions): ReconnectStrategy {
+    const initial = options?.initial ?? 500,
+        max = options?.max ?? 30000,
+        factor = options?.factor ?? 2,
+        jitter = options?.jitter ?? 0.5,
+        maxAttempts = options?.maxAttempts;
+    return {
+        delay(attempt: number): number | undefined {
+            if (maxAttempts !== undefined && attempt > maxAttempts) return undefined
+            const delay = Math.min(max, initial * Math.pow(factor, attempt - 1))
+            return delay - delay * jitter * Math.random()
+        }
+    }
+}
@@ -0,0 +1,273 @@
+import { PacketDefinition } from "./packets";
+import { CloseInfo, Connector, Transport, TransportHandlers } from "./transport";
+import { formatTrace, tracePacket } from "./inspect";
+import { splitBatch } from "./batch";
+import { decompressFrameSync } from "./compression";
+import { DataViewTracker, DecodeLimits, DefaultLimits } from "./data";
+import { fromBase64, toBase64 } from "./base64";
+
+/**
+ * An event captured by a {@see Recorder}. The time is the number of
+ * milliseconds since the recording started and frame data is base64
+ */
+export type RecordedEvent =
+    // A new connection was created (e.g. the initial connection or a reconnect)
+    { time: number, type: 'connect' }
+    | { time: number, type: 'open' }
+    | { time: number, type: 'close', code: number, reason: string }
+    // A received (in) or sent (out) frame along with the decoded trace when packets were provided
+    | { time: number, type: 'in' | 'out', data: string, trace?: string }
+    | { time: number, type: 'error', message: string }
+
+// A recorded session which can be saved as JSON
+export interface Recording {
+    // The version of the recording format
+    version: number;
+    // The time the recording started (milliseconds since the epoch)
+    started: number;
+    // The recorded events in the order they happened
+    events: RecordedEvent[];
+}
+
+export interface RecorderOptions {
+    // The definitions used to add a decoded trace to each recorded frame
+    packets?: PacketDefinition<any>[];
+    // Whether packets are framed with a request id (must match the socket)
+    requestIds?: boolean;
+    // Whether frames are batches of packets (must match the socket)
+    batch?: boolean;
+    // Whether frames have the compression flag (must match the socket)
+    compression?: boolean;
+    // The maximum lengths allowed when decoding the traced packets
+    limits?: Partial<DecodeLimits>;
+}
+
+export interface ReplayOptions {
+    // How many times faster than real time the recording is replayed (default 1). Infinity replays without delays
+    speed?: number;
+}
+
+// The current version of the recording format
+const RecordingVersion = 1
+
+/**
+ * Records the frames and connection events of the transports created
+ * by the connectors it wraps. The recording can be saved as JSON and
+ * replayed later using {@see replayConnector}
+ */
+export class Recorder {
+    // The recorder options
+    private readonly options: RecorderOptions
+    // The time the recording started
+    private readonly started: number = Date.now()
+    // The recorded events
+    private events: RecordedEvent[] = []
+
+    /**
+     * Creates a new recorder
+     *
+     * @param options The recorder options
+     */
+    constructor(options?: RecorderOptions) {
+        this.options = options ?? {}
+    }
+
+    /**
+     * Wraps the connector so that all the transports it
+     * creates are recorded
+     *
+     * @param connector The connector to record
+     * @return The recorded connector
+     */
+    wrap(connector: Connector): Connector {
+        return (handlers: TransportHandlers): Transport => {
+            this.events.push({time: this.now(), type: 'connect'})
+            const transport = connector({
+                open: (event?: Event) => {
+                    this.events.push({time: this.now(), type: 'open'})
+                    handlers.open(event)
+                },
+                close: (info: CloseInfo) => {
+                    this.events.push({time: this.now(), type: 'close', code: info.code, reason: info.reason})
+                    handlers.close(info)
+                },
+                message: (data: ArrayBuffer) => {
+                    this.frame('in', data)
+                    handlers.message(data)
+                },
+                error: (error: unknown) => {
+                    const message = error instanceof Error ? error.message : 'Transport error'
+                    this.events.push({time: this.now(), type: 'error', message})
+                    handlers.error(error)
+                }
+            })
+            const recorder = this
+            return {
+                get open(): boolean {
+                    return transport.open
+                },
+                send(data: ArrayBuffer) {
+                    recorder.frame('out', data)
+                    transport.send(data)
+                },
+                close: (code?: number, reason?: string) => transport.close(code, reason)
+            }
+        }
+    }
+
+    /**
+     * @return The recording of the events so far
+     */
+    recording(): Recording {
+        return {version: RecordingVersion, started: this.started, events: this.events.slice()}
+    }
+
+    /**
+     * Clears the recorded events
+     */
+    clear() {
+        this.events = []
+    }
+
+    /**
+     * Records a sent or received frame along with the trace of each of its
+     * packets. Tracing never throws so a frame that can't be traced is
+     * still recorded and delivered
+     *
+     * @param type Whether the frame was received (in) or sent (out)
+     * @param data The frame data
+     * @private Shouldn't be accessed outside this class
+     */
+    private frame(type: 'in' | 'out', data: ArrayBuffer) {
+        const bytes = new Uint8Array(data)
+        let trace: string | undefined
+        if (this.options.packets) {
+            try {
+                trace = this.trace(data, this.options.packets)
+            } catch (e) {
+                trace = `Failed to trace the frame: ${e instanceof Error ? e.message : String(e)}`
+            }
+        }
+        this.events.push({time: this.now(), type, data: toBase64(bytes), trace})
+    }
+
+    /**
+     * Decompresses and splits the frame the same way as the socket and
+     * traces each of the packets within it
+     *
+     * @param data The frame data
+     * @param packets The packet definitions
+     * @return The formatted traces of the packets
+     * @throws DecodeError If the frame can't be decompressed or split
+     * @private Shouldn't be accessed outside this class
+     */
+    private trace(data: ArrayBuffer, packets: PacketDefinition<any>[]): string {
+        const limits = {...DefaultLimits, ...this.options.limits}
+        // The frame is decompressed synchronously so the trace is recorded with the frame
+        const frame = this.options.compression ? decompressFrameSync(data, limits.maxDecompressedSize) : data
+        let views = [new DataView(frame)]
+        if (this.options.batch) {
+            const tracker = new DataViewTracker()
+            tracker.limits = limits
+            views = splitBatch(frame, tracker)
+        }
+        return views.map(view => formatTrace(tracePacket(view, packets, this.options))).join('\n')
+    }
+
+    /**
+     * @return The time since the recording started
+     * @private Shouldn't be accessed outside this class
+     */
+    private now(): number {
+        return Date.now() - this.started
+    }
+}
+
+/**
+ * Creates a connector which replays a recording instead of connecting
+ * to a server. The recorded open, close, error and received frame events
+ * are replayed in order with their recorded timing (scaled by the speed)
+ * and sent frames are ignored.
+ *
+ * Each time the connector is used it replays the next recorded connection
+ * so reconnects are replayed too. Once all the recorded connections have
+ * been replayed the created transports never open
+ *
+ * @param recording The recording to replay
+ * @param options The replay options
+ * @return The replay connector
+ */
+export function replayConnector(recording: Recording, options?: ReplayOptions): Connector {
+    if (recording.version !== RecordingVersion) {
+        throw new Error(`Unsupported recording version ${recording.version}`)
+    }
+    const speed = options?.speed ?? 1
+    // The events of each connection along with the time the connection was made
+    const connections: { time: number, events: RecordedEvent[] }[] = []
+    for (let event of recording.events) {
+        if (event.type === 'connect' || connections.length === 0) {
+            connections.push({time: event.time, events: []})
+        }
+        if (event.type !== 'connect') connections[connections.length - 1].events.push(event)
+    }
+    let next = 0
+    return (handlers: TransportHandlers): Transport => {
+        const connection = connections[next++] ?? {time: 0, events: []}
+        let open = false, stopped = false, position = 0, last = connection.time
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const dispatch = (event: RecordedEvent) => {
+            switch (event.type) {
+                case 'open':
+                    open = true
+                    handlers.open()
+                    break
+                case 'close':
+                    open = false
+                    stopped = true
+                    handlers.close({code: event.code, reason: event.reason})
+                    break
+                case 'in':
+                    handlers.message(fromBase64(event.data).buffer)
+                    break
+                case 'error':
+                    handlers.error(new Error(event.message))
+                    break
+            }
+        }
+        const schedule = () => {
+            if (stopped || position >= connection.events.length) return
+            const event = connection.events[position++]
+            const delay = Math.max(0, event.time - last) / speed
+            last = event.time
+            const run = () => {
+                timer = undefined
+                if (stopped) return
+                dispatch(event)
+                schedule()
+            }
+            // Events are always replayed asynchronously like a real connection
+            if (delay > 0 && isFinite(delay)) {
+                timer = setTimeout(run, delay)
+            } else {
+                Promise.resolve().then(run)
+            }
+        }
+        schedule()
+        return {
+            get open(): boolean {
+                return open
+            },
+            send() {
+                // Sent frames aren't compared with the recording
+            },
+            close(code?: number, reason?: string) {
+                if (stopped) return
+                stopped = true
+                if (timer !== undefined) clearTimeout(timer)
+                const wasOpen = open
+                open = false
+                if (wasOpen) Promise.resolve().then(() => handlers.close({code: code ?? 1000, reason: reason ?? ''}))
+            }
+        }
+    }
+}
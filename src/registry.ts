@@ -0,0 +1,250 @@
+import { PacketDefinition } from "./packets";
+import { SchemaError } from "./errors";
+
+// The direction a packet is sent in. Clientbound packets are sent by the
+// server to the clients and serverbound packets by the clients to the server
+export type PacketDirection = 'clientbound' | 'serverbound' | 'both'
+
+// The phase packets are registered in when a phase isn't provided
+export const DefaultPhase = 'default'
+
+/**
+ * The packets of a single connection phase (e.g. "handshake" or "play").
+ * Clientbound and serverbound packets have separate id spaces so the same
+ * id can be used once in each direction
+ */
+export class PacketPhase {
+    // The name of this phase
+    readonly name: string;
+
+    // The packets received by the clients mapped to their id
+    private readonly clientboundPackets: Record<number, PacketDefinition<any>> = {}
+    // The packets received by the server mapped to their id
+    private readonly serverboundPackets: Record<number, PacketDefinition<any>> = {}
+
+    /**
+     * Creates a new phase. Use {@see PacketRegistry.phase} instead
+     *
+     * @param name The name of the phase
+     */
+    constructor(name: string) {
+        this.name = name
+    }
+
+    /**
+     * Registers packets sent by the server to the clients
+     *
+     * @param packets The packet definitions
+     * @return This phase
+     * @throws SchemaError If another clientbound packet has the same id
+     */
+    clientbound(...packets: PacketDefinition<any>[]): this {
+        for (let packet of packets) this.register(packet, 'clientbound')
+        return this
+    }
+
+    /**
+     * Registers packets sent by the clients to the server
+     *
+     * @param packets The packet definitions
+     * @return This phase
+     * @throws SchemaError If another serverbound packet has the same id
+     */
+    serverbound(...packets: PacketDefinition<any>[]): this {
+        for (let packet of packets) this.register(packet, 'serverbound')
+        return this
+    }
+
+    /**
+     * Registers packets sent in both directions
+     *
+     * @param packets The packet definitions
+     * @return This phase
+     * @throws SchemaError If another packet has the same id in either direction
+     */
+    both(...packets: PacketDefinition<any>[]): this {
+        for (let packet of packets) this.register(packet, 'both')
+        return this
+    }
+
+    /**
+     * Registers a packet sent in the provided direction. Registering
+     * the same definition again in the same direction does nothing
+     *
+     * @param packet The packet definition
+     * @param direction The direction the packet is sent in
+     * @return This phase
+     * @throws SchemaError If another packet has the same id in the same direction
+     */
+    register(packet: PacketDefinition<any>, direction: PacketDirection): this {
+        const targets = direction === 'both'
+            ? [this.clientboundPackets, this.serverboundPackets]
+            : [direction === 'clientbound' ? this.clientboundPackets : this.serverboundPackets]
+        // All the directions are checked first so a failed registration doesn't register anything
+        for (let target of targets) {
+            const existing = target[packet.id]
+            if (existing !== undefined && existing !== packet) {
+                const side = target === this.clientboundPackets ? 'clientbound' : 'serverbound'
+                throw new SchemaError(`Packet id 0x${packet.id.toString(16)} is already used by another ${side} packet in phase "${this.name}"`)
+            }
+        }
+        for (let target of targets) target[packet.id] = packet
+        return this
+    }
+
+    /**
+     * Finds the packet sent in the provided direction with the provided id
+     *
+     * @param id The id of the packet
+     * @param direction The direction the packet was sent in
+     * @return The packet definition (if there is one)
+     */
+    find(id: number, direction: 'clientbound' | 'serverbound'): PacketDefinition<any> | undefined {
+        return (direction === 'clientbound' ? this.clientboundPackets : this.serverboundPackets)[id]
+    }
+
+    /**
+     * @param packet The packet definition
+     * @return The direction the packet is registered in (undefined if it isn't in this phase)
+     */
+    directionOf(packet: PacketDefinition<any>): PacketDirection | undefined {
+        const clientbound = this.clientboundPackets[packet.id] === packet
+        const serverbound = this.serverboundPackets[packet.id] === packet
+        if (clientbound && serverbound) return 'both'
+        if (clientbound) return 'clientbound'
+        return serverbound ? 'serverbound' : undefined
+    }
+
+    /**
+     * @return The packets registered in this phase
+     */
+    packets(): PacketDefinition<any>[] {
+        const out: PacketDefinition<any>[] = []
+        for (let target of [this.clientboundPackets, this.serverboundPackets]) {
+            for (let key in target) {
+                if (out.indexOf(target[key]) === -1) out.push(target[key])
+            }
+        }
+        return out
+    }
+}
+
+/**
+ * Records the packets of a protocol along with the direction they are sent
+ * in and the connection phase they belong to. Each phase has its own id
+ * spaces so that different phases can reuse ids. Registering two packets
+ * with the same id in the same phase and direction throws a SchemaError
+ * rather than replacing the first packet
+ */
+export class PacketRegistry {
+    // The phases mapped to their name
+    private readonly phases: Record<string, PacketPhase> = {}
+
+    /**
+     * Gets the phase with the provided name. The phase
+     * is created if it doesn't exist yet
+     *
+     * @param name The name of the phase (defaults to the default phase)
+     * @return The phase
+     */
+    phase(name: string = DefaultPhase): PacketPhase {
+        let phase = this.phases[name]
+        if (phase === undefined) {
+            phase = new PacketPhase(name)
+            this.phases[name] = phase
+        }
+        return phase
+    }
+
+    /**
+     * Registers packets sent by the server to the clients in the default phase
+     *
+     * @param packets The packet definitions
+     * @return This registry
+     * @throws SchemaError If another clientbound packet has the same id
+     */
+    clientbound(...packets: PacketDefinition<any>[]): this {
+        this.phase().clientbound(...packets)
+        return this
+    }
+
+    /**
+     * Registers packets sent by the clients to the server in the default phase
+     *
+     * @param packets The packet definitions
+     * @return This registry
+     * @throws SchemaError If another serverbound packet has the same id
+     */
+    serverbound(...packets: PacketDefinition<any>[]): this {
+        this.phase().serverbound(...packets)
+        return this
+    }
+
+    /**
+     * Registers packets sent in both directions in the default phase
+     *
+     * @param packets The packet definitions
+     * @return This registry
+     * @throws SchemaError If another packet has the same id in either direction
+     */
+    both(...packets: PacketDefinition<any>[]): this {
+        this.phase().both(...packets)
+        return this
+    }
+
+    /**
+     * Finds the packet sent in the provided direction with
+     * the provided id in the provided phase
+     *
+     * @param id The id of the packet
+     * @param direction The direction the packet was sent in
+     * @param phase The name of the phase
+     * @return The packet definition (if there is one)
+     */
+    find(id: number, direction: 'clientbound' | 'serverbound', phase: string = DefaultPhase): PacketDefinition<any> | undefined {
+        return this.phases[phase]?.find(id, direction)
+    }
+
+    /**
+     * @param packet The packet definition
+     * @return Whether the packet is registered in any of the phases
+     */
+    has(packet: PacketDefinition<any>): boolean {
+        for (let name in this.phases) {
+            if (this.phases[name].directionOf(packet) !== undefined) return true
+        }
+        return false
+    }
+
+    /**
+     * @return The names of the phases
+     */
+    phaseNames(): string[] {
+        return Object.keys(this.phases)
+    }
+
+    /**
+     * @return The packets registered in all the phases
+     */
+    packets(): PacketDefinition<any>[] {
+        const out: PacketDefinition<any>[] = []
+        for (let name in this.phases) {
+            for (let packet of this.phases[name].packets()) {
+                if (out.indexOf(packet) === -1) out.push(packet)
+            }
+        }
+        return out
+    }
+}
+
+// A received packet with an id that isn't registered in the active phase
+export interface UnknownPacket {
+    // The id of the packet
+    id: number;
+    // The request id of the packet (0 if it isn't part of a request)
+    requestId: number;
+    // The phase that was active when the packet was received
+    phase: string;
+    // The view of the whole packet including the id
+    data: DataView;
+}
@@ -0,0 +1,259 @@
+import { arbitraryValue, DataType, DataViewTracker, nameOf, StructLayout, StructTyped, validateValue } from "./data";
+import { StructDefinition } from "./packets";
+import { EncodeError, RoundTripError } from "./errors";
+import { fromJSON, toJSON } from "./json";
+import { createType, parseType } from "./schema";
+import { GoldenVector, GoldenVectors } from "./golden";
+import { Random } from "./random";
+
+export interface RoundTripOptions<T> {
+    // The number of random values to check (default 100)
+    runs?: number;
+    // The seed of the random values (defaults to a random seed which is included in failures)
+    seed?: number;
+    // Generates the values to check instead of the arbitrary function of the data type
+    generate?: (random: Random) => T;
+    // Whether the JSON representation is checked too (default true)
+    json?: boolean;
+}
+
+// The number of bytes around the encoded value used to detect writes
+// and reads outside the data view (e.g. ignoring its byteOffset)
+const Padding = 7
+// The bytes used to fill the padding when encoding and decoding
+const EncodeFill = 0xAA, DecodeFill = 0x55
+
+/**
+ * Adapts a struct or packet definition to the data type interface
+ * so they can be checked in the same way as the data types
+ *
+ * @param definition The data type or definition
+ * @return The data type
+ */
+function asDataType(definition: DataType<any> | StructDefinition<any>): DataType<any> {
+    if (!(definition instanceof StructDefinition)) return definition
+    return {
+        name: `Struct${definition.describe()}`,
+        size: value => definition.computeSize(value),
+        encode: (d, t, v) => definition.encode(d, t, v),
+        decode: (d, t) => definition.decode(d, t),
+        validate: (t, v) => definition.validate(t, v),
+        jsonSchema: () => definition.jsonSchema(),
+        encodeJSON: (t, v) => definition.encodeJSON(t, v),
+        decodeJSON: (t, json) => definition.decodeJSON(t, json),
+        arbitrary: random => definition.arbitrary(random)
+    }
+}
+
+/**
+ * Checks whether two values are the same. Arrays, typed arrays and objects
+ * are compared by their contents and fields which are undefined are the
+ * same as missing fields. NaN is the same as NaN
+ *
+ * @param a The first value
+ * @param b The second value
+ * @param signedZero Whether zero and negative zero are different
+ * @return Whether the values are the same
+ */
+function same(a: unknown, b: unknown, signedZero: boolean): boolean {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return signedZero ? Object.is(a, b) : a === b || (a !== a && b !== b)
+    }
+    if (a === b) return true
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+    if (ArrayBuffer.isView(a) || ArrayBuffer.isView(b)) {
+        if (!ArrayBuffer.isView(a) || !ArrayBuffer.isView(b) || a.constructor !== b.constructor) return false
+        return same(Array.prototype.slice.call(a), Array.prototype.slice.call(b), signedZero)
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+    const x = a as Record<string, unknown>, y = b as Record<string, unknown>
+    if (Array.isArray(a) && x.length !== y.length) return false
+    const keys = Object.keys(x).concat(Object.keys(y))
+    for (let key of keys) {
+        if (!same(x[key], y[key], signedZero)) return false
+    }
+    return true
+}
+
+/**
+ * Describes an error thrown while checking for use in the failure reason
+ *
+ * @param e The thrown error
+ */
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e)
+}
+
+/**
+ * Encodes the value into the middle of a larger buffer so writes outside
+ * the data view can be detected
+ *
+ * @param type The data type of the value
+ * @param value The value to encode
+ * @param fail Creates the error for a failed check
+ * @return The encoded bytes
+ * @throws RoundTripError If the value is encoded incorrectly
+ */
+function encodeChecked<T>(type: DataType<T>, value: T, fail: (reason: string, bytes?: Uint8Array) => RoundTripError): Uint8Array {
+    const s = type.size
+    const size = typeof s === 'number' ? s : s(value)
+    const buffer = new Uint8Array(size + Padding * 2).fill(EncodeFill)
+    const tracker = new DataViewTracker()
+    try {
+        type.encode(new DataView(buffer.buffer, Padding, size), tracker, value)
+    } catch (e) {
+        throw fail(`Encoding failed: ${errorMessage(e)}`)
+    }
+    const bytes = buffer.slice(Padding, Padding + size)
+    if (tracker.current() !== size) {
+        throw fail(`Encoded ${tracker.current()} byte(s) but the size is ${size}`, bytes)
+    }
+    for (let i = 0; i < buffer.length; i++) {
+        if ((i < Padding || i >= Padding + size) && buffer[i] !== EncodeFill) {
+            throw fail('Encoding wrote outside of the data view', bytes)
+        }
+    }
+    return bytes
+}
+
+/**
+ * Decodes the bytes from the middle of a larger buffer so reads outside
+ * the data view can be detected. All the bytes must be read
+ *
+ * @param type The data type of the value
+ * @param bytes The encoded bytes
+ * @param fail Creates the error for a failed check
+ * @return The decoded value
+ * @throws RoundTripError If the bytes aren't decoded completely
+ */
+function decodeChecked<T>(type: DataType<T>, bytes: Uint8Array, fail: (reason: string, bytes?: Uint8Array) => RoundTripError): T {
+    // Uses a different offset to encoding so the bytes aren't at the same position
+    const buffer = new Uint8Array(bytes.length + Padding * 2 + 1).fill(DecodeFill)
+    buffer.set(bytes, Padding + 1)
+    const view = new DataView(buffer.buffer, Padding + 1, bytes.length)
+    const tracker = new DataViewTracker()
+    tracker.bound(view)
+    let value: T
+    try {
+        value = type.decode(view, tracker)
+    } catch (e) {
+        throw fail(`Decoding failed: ${errorMessage(e)}`, bytes)
+    }
+    if (tracker.current() !== bytes.length) {
+        throw fail(`Decoded ${tracker.current()} of the ${bytes.length} encoded byte(s)`, bytes)
+    }
+    return value
+}
+
+/**
+ * Checks that random values of the data type survive being encoded and
+ * decoded. For each value this checks that:
+ *
+ * - the value is valid according to the data type
+ * - the number of bytes written is the size of the value
+ * - nothing is written or read outside the data view (e.g. ignoring its byteOffset)
+ * - decoding reads all the bytes and returns the same value
+ * - the value survives being converted to JSON and back (unless disabled)
+ *
+ * The values come from the arbitrary function of the data type (or the
+ * generate option for data types without one). Failures include the seed
+ * so they can be reproduced by passing it back in the options
+ *
+ * @param definition The data type, struct definition or packet definition to check
+ * @param options The check options
+ * @throws RoundTripError If one of the values fails a check
+ */
+export function checkRoundTrip<T extends StructLayout>(definition: StructDefinition<T>, options?: RoundTripOptions<StructTyped<T>>): void
+export function checkRoundTrip<T>(definition: DataType<T>, options?: RoundTripOptions<T>): void
+export function checkRoundTrip(definition: DataType<any> | StructDefinition<any>, options?: RoundTripOptions<any>): void {
+    const type = asDataType(definition)
+    const name = nameOf(type)
+    const random = new Random(options?.seed)
+    const generate = options?.generate ?? ((random: Random) => arbitraryValue(random, type))
+    const runs = options?.runs ?? 100
+    for (let run = 0; run < runs; run++) {
+        const value = generate(random)
+        const fail = (reason: string, bytes?: Uint8Array) => new RoundTripError(reason, name, value, random.seed, bytes)
+        try {
+            validateValue(new DataViewTracker(), type, value)
+        } catch (e) {
+            if (!(e instanceof EncodeError)) throw e
+            throw fail(`Generated an invalid value: ${e.message}`)
+        }
+        const bytes = encodeChecked(type, value, fail)
+        const decoded = decodeChecked(type, bytes, fail)
+        if (!same(decoded, value, true)) {
+            throw fail('Decoded value is different', bytes)
+        }
+        if (options?.json === false) continue
+        let converted: unknown
+        try {
+            converted = fromJSON(type, JSON.parse(JSON.stringify(toJSON(type, value))))
+        } catch (e) {
+            throw fail(`JSON conversion failed: ${errorMessage(e)}`, bytes)
+        }
+        // JSON numbers don't have negative zero
+        if (!same(converted, value, false)) {
+            throw fail('Value converted from JSON is different', bytes)
+        }
+    }
+}
+
+/**
+ * Formats the bytes as lowercase hex without separators
+ *
+ * @param bytes The bytes to format
+ */
+function toHex(bytes: Uint8Array): string {
+    let out = ''
+    for (let i = 0; i < bytes.length; i++) {
+        out += (bytes[i] < 0x10 ? '0' : '') + bytes[i].toString(16)
+    }
+    return out
+}
+
+/**
+ * Parses bytes formatted as hex (whitespace is ignored)
+ *
+ * @param hex The hex to parse
+ */
+function fromHex(hex: string): Uint8Array {
+    const text = hex.replace(/\s+/g, '')
+    if (text.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(text)) throw new Error(`Invalid hex "${hex}"`)
+    const out = new Uint8Array(text.length / 2)
+    for (let i = 0; i < out.length; i++) {
+        out[i] = parseInt(text.substr(i * 2, 2), 16)
+    }
+    return out
+}
+
+/**
+ * Checks that each of the golden vectors encodes to exactly the expected
+ * bytes and that the expected bytes decode to the expected value. The
+ * same vectors are checked by the other implementations of the protocol
+ * so this ensures they produce the same bytes
+ *
+ * @param vectors The vectors to check (defaults to {@see GoldenVectors})
+ * @throws RoundTripError If one of the vectors fails a check
+ * @throws SchemaError If the type of one of the vectors is invalid
+ */
+export function checkGoldenVectors(vectors: GoldenVector[] = GoldenVectors): void {
+    for (let vector of vectors) {
+        const type = createType(parseType(vector.type, []), {})
+        const fail = (reason: string, bytes?: Uint8Array) => new RoundTripError(reason, vector.type, vector.value, undefined, bytes)
+        let value: unknown
+        try {
+            value = fromJSON(type, vector.value)
+        } catch (e) {
+            throw fail(`Invalid value: ${errorMessage(e)}`)
+        }
+        const bytes = encodeChecked(type, value, fail)
+        if (toHex(bytes) !== toHex(fromHex(vector.hex))) {
+            throw fail(`Encoded as ${toHex(bytes)} but expected ${vector.hex}`, bytes)
+        }
+        const decoded = decodeChecked(type, fromHex(vector.hex), fail)
+        if (JSON.stringify(toJSON(type, decoded)) !== JSON.stringify(vector.value)) {
+            throw fail(`Decoded as ${JSON.stringify(toJSON(type, decoded))}`, bytes)
+        }
+    }
+}
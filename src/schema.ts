@@ -0,0 +1,269 @@
+import {
+    bool, ByteArray, DataType, f32, f64, FixedArray, i16, i32, i64, i8, Latin1Str, MapType, Optional, Str, Struct,
+    StructLayout, Tuple, u16, u32, u64, u8, VarI32, VarI64, VarInt, VarLong, Vec
+} from "./data";
+import { PacketDefinition } from "./packets";
+import { SchemaError } from "./errors";
+
+// A field of a struct or packet in the schema
+export interface SchemaField {
+    // The name of the field (must be a valid identifier)
+    name: string;
+    // The type expression of the field e.g. "u8", "Vec<Str>" or "Map<Str, User>"
+    type: string;
+}
+
+// A named struct in the schema
+export interface SchemaStruct {
+    name: string;
+    // The fields of the struct in the order they are encoded
+    fields: SchemaField[];
+}
+
+// A packet in the schema
+export interface SchemaPacket extends SchemaStruct {
+    // The unique id of the packet
+    id: number;
+}
+
+/**
+ * The declarative description of a protocol. Structs can only
+ * reference the structs that are declared before them
+ */
+export interface Schema {
+    structs?: SchemaStruct[];
+    packets: SchemaPacket[];
+}
+
+// The primitive data types that can be used in a schema
+export const PrimitiveTypes: Record<string, DataType<any>> = {
+    i8, i16, i32, i64, u8, u16, u32, u64, f32, f64,
+    VarInt, VarLong, VarI32, VarI64,
+    bool, Str, Latin1Str, ByteArray
+}
+
+// The primitive types that can be used as map keys
+const KeyTypes = ['i8', 'i16', 'i32', 'u8', 'u16', 'u32', 'VarInt', 'VarI32', 'Str', 'Latin1Str']
+
+/**
+ * The parsed form of a type expression
+ */
+export type SchemaType =
+    { kind: 'primitive', name: string }
+    | { kind: 'struct', name: string }
+    | { kind: 'vec', of: SchemaType }
+    | { kind: 'map', key: SchemaType, value: SchemaType }
+    | { kind: 'optional', of: SchemaType }
+    | { kind: 'array', of: SchemaType, length: number }
+    | { kind: 'tuple', of: SchemaType[] }
+
+// Matches the valid names for fields, structs and packets
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Parses the provided type expression. Struct names are only checked
+ * against the provided set of known struct names
+ *
+ * @param expression The type expression e.g. "Map<Str, Vec<u8>>" or "Array<f32, 3>"
+ * @param structs The names of the structs that can be referenced
+ * @return The parsed type
+ * @throws SchemaError If the expression is invalid
+ */
+export function parseType(expression: string, structs: string[]): SchemaType {
+    const tokens = expression.match(/[A-Za-z_][A-Za-z0-9_]*|[0-9]+|[<>,]|\S/g) ?? []
+    let index = 0;
+
+    const expect = (token: string) => {
+        if (tokens[index] !== token) {
+            throw new SchemaError(`Expected "${token}" in type "${expression}"`)
+        }
+        index++
+    }
+
+    const parse = (): SchemaType => {
+        const name = tokens[index++]
+        if (name === undefined || !IDENTIFIER.test(name)) {
+            throw new SchemaError(`Invalid type "${expression}"`)
+        }
+        if (name === 'Vec' || name === 'Optional') {
+            expect('<')
+            const of = parse()
+            expect('>')
+            return {kind: name === 'Vec' ? 'vec' : 'optional', of}
+        } else if (name === 'Map') {
+            expect('<')
+            const key = parse()
+            expect(',')
+            const value = parse()
+            expect('>')
+            if (key.kind !== 'primitive' || KeyTypes.indexOf(key.name) === -1) {
+                throw new SchemaError(`Map keys must be a string or integer type in "${expression}"`)
+            }
+            return {kind: 'map', key, value}
+        } else if (name === 'Array') {
+            expect('<')
+            const of = parse()
+            expect(',')
+            const length = tokens[index++]
+            if (length === undefined || !/^[0-9]+$/.test(length)) {
+                throw new SchemaError(`Expected the array length in "${expression}"`)
+            }
+            expect('>')
+            return {kind: 'array', of, length: Number(length)}
+        } else if (name === 'Tuple') {
+            expect('<')
+            const of = [parse()]
+            while (tokens[index] === ',') {
+                index++
+                of.push(parse())
+            }
+            expect('>')
+            return {kind: 'tuple', of}
+        } else if (PrimitiveTypes[name] !== undefined) {
+            return {kind: 'primitive', name}
+        } else if (structs.indexOf(name) !== -1) {
+            return {kind: 'struct', name}
+        }
+        throw new SchemaError(`Unknown type "${name}" in "${expression}"`)
+    }
+
+    const type = parse()
+    if (index !== tokens.length) {
+        throw new SchemaError(`Unexpected "${tokens[index]}" in type "${expression}"`)
+    }
+    return type
+}
+
+// A struct or packet whose field types have been parsed
+export interface ResolvedStruct {
+    name: string;
+    fields: Array<{ name: string, type: SchemaType }>;
+}
+
+// A packet whose field types have been parsed
+export interface ResolvedPacket extends ResolvedStruct {
+    id: number;
+}
+
+// A schema whose field types have been parsed and validated
+export interface ResolvedSchema {
+    structs: ResolvedStruct[];
+    packets: ResolvedPacket[];
+}
+
+/**
+ * Validates the provided schema and parses all the type expressions
+ *
+ * @param schema The schema to resolve
+ * @return The resolved schema
+ * @throws SchemaError If the schema is invalid
+ */
+export function resolveSchema(schema: Schema): ResolvedSchema {
+    const names: string[] = [];
+    const ids: Record<number, string> = {};
+
+    const resolve = (struct: SchemaStruct): ResolvedStruct => {
+        if (!IDENTIFIER.test(struct.name)) {
+            throw new SchemaError(`Invalid name "${struct.name}"`)
+        }
+        if (names.indexOf(struct.name) !== -1 || PrimitiveTypes[struct.name] !== undefined) {
+            throw new SchemaError(`Duplicate name "${struct.name}"`)
+        }
+        const keys: string[] = [];
+        const fields = struct.fields.map((field) => {
+            if (!IDENTIFIER.test(field.name)) {
+                throw new SchemaError(`Invalid field name "${field.name}" in ${struct.name}`)
+            }
+            if (keys.indexOf(field.name) !== -1) {
+                throw new SchemaError(`Duplicate field "${field.name}" in ${struct.name}`)
+            }
+            keys.push(field.name)
+            return {name: field.name, type: parseType(field.type, names)}
+        })
+        names.push(struct.name)
+        return {name: struct.name, fields}
+    }
+
+    const structs = (schema.structs ?? []).map(resolve)
+    const packets = schema.packets.map((packet): ResolvedPacket => {
+        const id = packet.id
+        if (typeof id !== 'number' || id < 0 || id > 0xFFFFFFFF || id % 1 !== 0) {
+            throw new SchemaError(`Invalid id ${id} for packet ${packet.name}`)
+        }
+        if (ids[id] !== undefined) {
+            throw new SchemaError(`Packet ${packet.name} has the same id as ${ids[id]} (0x${id.toString(16)})`)
+        }
+        ids[id] = packet.name
+        return {...resolve(packet), id}
+    })
+    return {structs, packets}
+}
+
+/**
+ * Creates the data type of a parsed type expression
+ *
+ * @param type The parsed type
+ * @param structs The data types of the structs that can be referenced by name
+ * @return The data type
+ * @throws SchemaError If the type references a struct that wasn't provided
+ */
+export function createType(type: SchemaType, structs: Record<string, DataType<any>>): DataType<any> {
+    const create = (type: SchemaType) => createType(type, structs)
+    switch (type.kind) {
+        case "primitive":
+            return PrimitiveTypes[type.name]
+        case "struct":
+            if (structs[type.name] === undefined) throw new SchemaError(`Unknown struct "${type.name}"`)
+            return structs[type.name]
+        case "vec":
+            return Vec(create(type.of))
+        case "map":
+            return MapType(create(type.key), create(type.value))
+        case "optional":
+            return Optional(create(type.of))
+        case "array":
+            return FixedArray(create(type.of), type.length)
+        case "tuple":
+            return Tuple(...type.of.map(create))
+    }
+}
+
+// The data types and packet definitions created from a schema
+export interface LoadedSchema {
+    structs: Record<string, DataType<any>>;
+    packets: Record<string, PacketDefinition<any>>;
+}
+
+/**
+ * Creates the struct data types and packet definitions described by
+ * the provided schema at runtime
+ *
+ * @param schema The schema to load
+ * @return The created data types and packet definitions
+ * @throws SchemaError If the schema is invalid
+ */
+export function loadSchema(schema: Schema): LoadedSchema {
+    const resolved = resolveSchema(schema)
+    const structs: Record<string, DataType<any>> = {};
+
+    const layout = (struct: ResolvedStruct): [StructLayout, string[]] => {
+        const out: StructLayout = {};
+        const keys: string[] = [];
+        for (let field of struct.fields) {
+            out[field.name] = createType(field.type, structs)
+            keys.push(field.name)
+        }
+        return [out, keys]
+    }
+
+    for (let struct of resolved.structs) {
+        const [fields, keys] = layout(struct)
+        structs[struct.name] = Struct(fields, keys)
+    }
+    const packets: Record<string, PacketDefinition<any>> = {};
+    for (let packet of resolved.packets) {
+        const [fields, keys] = layout(packet)
+        packets[packet.name] = new PacketDefinition(packet.id, fields, keys)
+    }
+    return {structs, packets}
+}
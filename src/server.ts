@@ -0,0 +1,656 @@
+import { PacketDefinition } from "./packets";
+import { DataViewTracker, DecodeLimits, DefaultLimits, StructLayout, StructTyped, VarInt } from "./data";
+import { DecodeError, TransportError } from "./errors";
+import { CloseInfo, Connector, Transport, WebSocketLike, wrapWebSocket } from "./transport";
+import { fingerprint, HandshakeConfig, HandshakeMismatch, HandshakePacket } from "./handshake";
+import { PacketWriter } from "./writer";
+import { BatchConfig, Batcher, frameBatch, splitBatch } from "./batch";
+import { compressFrame, CompressionConfig, decompressFrame, FrameSequence, uncompressedFrame } from "./compression";
+import { DebugLogger, debugLogger, formatTrace, hexDump, tracePacket } from "./inspect";
+import { DefaultPhase, PacketRegistry, UnknownPacket } from "./registry";
+
+export interface ServerConfig {
+    // Whether packets are framed with a request id (must match the clients)
+    requestIds?: boolean;
+    // The maximum lengths allowed when decoding received packets
+    limits?: Partial<DecodeLimits>;
+    // Whether received frames are batches and sent packets are batched for each connection (must match the clients)
+    batch?: boolean | BatchConfig;
+    // Whether frames above the threshold size are compressed (must match the clients)
+    compression?: boolean | CompressionConfig;
+    // Waits for the handshake of each connection and responds with the server protocol version and fingerprint
+    handshake?: HandshakeConfig;
+    // Logs a trace of every sent and received packet (console.debug when true)
+    debug?: boolean | DebugLogger;
+    // The registry of the protocol packets (the serverbound packets are decoded, defaults to an empty registry)
+    registry?: PacketRegistry;
+    // The phase each connection starts in (defaults to the default phase)
+    phase?: string;
+    // Called with received packets that aren't registered in the phase of the connection (they are ignored by default)
+    unknownPacket?: (packet: UnknownPacket, connection: Connection) => void;
+}
+
+/**
+ * A handler for packets received by the server. The request id is 0 unless
+ * the packet was sent using a request in which case the response should be
+ * sent with the same request id
+ */
+export type ServerPacketHandler<T extends StructLayout> = (packet: StructTyped<T>, connection: Connection, requestId: number) => any
+// The handlers are stored with their definition so packets with the same id in other phases aren't passed to them
+type ServerPacketHandlers = { [key: number]: Array<{ definition: PacketDefinition<any>, handler: ServerPacketHandler<any> }> }
+
+// The value passed to the listeners of each server event
+interface ServerEvents {
+    // A new connection has opened
+    connect: Connection;
+    // A connection has closed
+    disconnect: { connection: Connection, info: CloseInfo };
+    // A packet from a connection couldn't be decoded or the transport reported an error
+    error: { connection: Connection, error: DecodeError | TransportError };
+    // The protocol of a connection didn't match during the handshake
+    mismatch: { connection: Connection, mismatch: HandshakeMismatch };
+}
+
+type ServerEventNames = keyof ServerEvents
+type ServerEventFunction<K extends ServerEventNames> = (event: ServerEvents[K]) => any
+type ServerEventListeners = Partial<Record<ServerEventNames, ServerEventFunction<any>[]>>
+
+/**
+ * A single connection to a {@see PacketServer}
+ */
+export class Connection {
+    // The server this connection belongs to
+    readonly server: PacketServer;
+    // The transport of this connection
+    readonly transport: Transport;
+    // Storage for any data associated with this connection (e.g. the user)
+    data: Record<string, any> = {};
+
+    // The groups this connection is a member of
+    private groups: string[] = [];
+    // Collects packets into batch frames (if batching is enabled)
+    private batcher?: Batcher;
+    // The name of the active connection phase
+    private activePhase: string;
+    // The server handlers for this connection
+    private readonly handlers: ConnectionHandlers;
+    // Keeps sent and received frames in order while they are being compressed
+    private outgoing: FrameSequence = new FrameSequence();
+    private incoming: FrameSequence = new FrameSequence();
+
+    /**
+     * Creates a new connection. Connections are created
+     * by the server using {@see PacketServer.accept}
+     *
+     * @param server The server the connection belongs to
+     * @param connector The connector used to create the transport
+     * @param handlers The server handlers for this connection
+     */
+    constructor(server: PacketServer, connector: Connector, handlers: ConnectionHandlers) {
+        this.server = server
+        this.handlers = handlers
+        this.activePhase = server.config.phase ?? DefaultPhase
+        const batch = server.config.batch
+        if (batch) {
+            this.batcher = new Batcher(
+                typeof batch === 'object' ? batch : {},
+                frame => this.sendFrame(server.createFrame(frame)),
+                error => handlers.error(this, new TransportError(error))
+            )
+        }
+        this.transport = connector({
+            open: () => handlers.open(this),
+            close: (info: CloseInfo) => {
+                if (this.batcher) this.batcher.clear()
+                for (let group of this.groups.slice()) this.leave(group)
+                handlers.close(this, info)
+            },
+            message: (data: ArrayBuffer) => this.incoming.push(handlers.decompress(data), frame => handlers.message(this, frame), error => {
+                handlers.error(this, error instanceof DecodeError ? error : new TransportError(error))
+            }),
+            error: (error: unknown) => handlers.error(this, new TransportError(error))
+        })
+    }
+
+    /**
+     * @return The name of the active connection phase
+     */
+    get phase(): string {
+        return this.activePhase
+    }
+
+    /**
+     * Switches the active connection phase. Packets received from this
+     * connection are decoded using the serverbound packets registered
+     * in the active phase
+     *
+     * @param phase The name of the phase
+     */
+    setPhase(phase: string) {
+        this.activePhase = phase
+    }
+
+    /**
+     * Encodes and sends the provided packet to this connection
+     *
+     * @param definition The definition of the packet
+     * @param data The packet data
+     * @param requestId The request id when responding to a request
+     */
+    send<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number) {
+        this.sendPacket(this.server.createBuffer(definition, data, requestId))
+    }
+
+    /**
+     * Adds the encoded packet to the current batch when batching
+     * is enabled otherwise the packet is sent as its own frame
+     *
+     * @param buffer The encoded packet
+     */
+    sendPacket(buffer: ArrayBuffer) {
+        if (this.batcher) {
+            this.batcher.add(buffer)
+        } else {
+            this.sendFrame(this.server.createFrame(buffer))
+        }
+    }
+
+    /**
+     * Sends the frame once all the frames sent before it have been sent. Use
+     * {@see Connection.send} instead of calling this directly
+     *
+     * @param frame The frame or a promise of the frame while it's being compressed
+     */
+    sendFrame(frame: ArrayBuffer | Promise<ArrayBuffer>) {
+        this.outgoing.push(frame, frame => this.transport.send(frame), error => {
+            this.handlers.error(this, new TransportError(error))
+        })
+    }
+
+    /**
+     * Adds this connection to the provided group
+     *
+     * @param group The name of the group
+     */
+    join(group: string) {
+        if (this.groups.indexOf(group) !== -1) return
+        this.groups.push(group)
+        this.server.addToGroup(group, this)
+    }
+
+    /**
+     * Removes this connection from the provided group
+     *
+     * @param group The name of the group
+     */
+    leave(group: string) {
+        const index = this.groups.indexOf(group)
+        if (index === -1) return
+        this.groups.splice(index, 1)
+        this.server.removeFromGroup(group, this)
+    }
+
+    /**
+     * @return Whether this connection is a member of the provided group
+     */
+    inGroup(group: string): boolean {
+        return this.groups.indexOf(group) !== -1
+    }
+
+    /**
+     * Closes this connection
+     *
+     * @param code The optional close code
+     * @param reason The optional close reason
+     */
+    close(code?: number, reason?: string) {
+        this.transport.close(code, reason)
+    }
+}
+
+// The functions a connection reports its transport events to
+interface ConnectionHandlers {
+    open(connection: Connection): void;
+    close(connection: Connection, info: CloseInfo): void;
+    decompress(data: ArrayBuffer): ArrayBuffer | Promise<ArrayBuffer>;
+    message(connection: Connection, data: ArrayBuffer): void;
+    error(connection: Connection, error: DecodeError | TransportError): void;
+}
+
+/**
+ * The server side counterpart to {@see BinarySocket}. Accepts connections
+ * from any transport, decodes the packets received from them and passes
+ * them to the handlers for each packet
+ */
+export class PacketServer {
+    // The configuration settings
+    config: ServerConfig;
+    // The connections that are currently open
+    readonly connections: Connection[] = [];
+    // The open connections which haven't completed the handshake yet
+    private handshaking: Connection[] = [];
+
+    // The registry of the packets that can be received
+    readonly registry: PacketRegistry
+    // Handlers for each packet type
+    private handlers: ServerPacketHandlers = {}
+    // The members of each group mapped to the group name
+    private groups: Record<string, Connection[]> = {}
+    // Listeners for the server events
+    private eventListeners: ServerEventListeners = {}
+
+    // Reusable buffer that packets are encoded into
+    private writer: PacketWriter = new PacketWriter()
+    // Tracker for tracking read offset position
+    private readTracker: DataViewTracker = new DataViewTracker()
+    // The compression configuration (if compression is enabled)
+    private compression?: CompressionConfig
+    // The definition of the handshake packet (if the handshake is enabled)
+    private handshakePacket?: PacketDefinition<any>
+    // The fingerprint of the server protocol sent in the handshake
+    private fingerprint: number = 0
+    // The logger for debug messages (if debugging is enabled)
+    private logger?: DebugLogger
+
+    // The handlers given to each connection
+    private readonly connectionHandlers: ConnectionHandlers = {
+        open: (connection: Connection) => {
+            if (this.connections.indexOf(connection) !== -1 || this.handshaking.indexOf(connection) !== -1) return
+            if (this.handshakePacket) {
+                // The connection is added once its handshake has been received
+                this.handshaking.push(connection)
+            } else {
+                this.connect(connection)
+            }
+        },
+        close: (connection: Connection, info: CloseInfo) => {
+            this.handshaking = this.handshaking.filter(v => v !== connection)
+            const index = this.connections.indexOf(connection)
+            if (index === -1) return
+            this.connections.splice(index, 1)
+            this.event('disconnect', {connection, info})
+        },
+        decompress: (data: ArrayBuffer) => this.compression
+            ? decompressFrame(data, this.readTracker.limits.maxDecompressedSize, this.compression)
+            : data,
+        message: (connection: Connection, data: ArrayBuffer) => this.onMessage(connection, data),
+        error: (connection: Connection, error: DecodeError | TransportError) => this.event('error', {connection, error})
+    }
+
+    /**
+     * Creates a new packet server
+     *
+     * @param config The configuration settings
+     */
+    constructor(config?: ServerConfig) {
+        this.config = config ?? {};
+        this.registry = this.config.registry ?? new PacketRegistry()
+        this.readTracker.limits = {...DefaultLimits, ...this.config.limits}
+        const compression = this.config.compression
+        if (compression) this.compression = typeof compression === 'object' ? compression : {}
+        const handshake = this.config.handshake
+        if (handshake) {
+            this.handshakePacket = HandshakePacket(handshake.id)
+            this.fingerprint = handshake.fingerprint ?? fingerprint(handshake.packets ?? [])
+        }
+        this.logger = debugLogger(this.config.debug)
+    }
+
+    /**
+     * Accepts a new connection using the provided connector. The
+     * connect event is emitted once the connection is open
+     *
+     * @param connector The connector used to create the transport
+     * @return The created connection
+     */
+    accept(connector: Connector): Connection {
+        const connection = new Connection(this, connector, this.connectionHandlers)
+        if (connection.transport.open) this.connectionHandlers.open(connection)
+        return connection
+    }
+
+    /**
+     * Accepts a connection from a WebSocket (e.g. from the "ws"
+     * package WebSocketServer). The WebSocket can already be open
+     *
+     * @param ws The WebSocket of the connection
+     * @return The created connection
+     */
+    acceptWebSocket(ws: WebSocketLike): Connection {
+        return this.accept(handlers => wrapWebSocket(ws, handlers))
+    }
+
+    /**
+     * Registers a packet received from the clients as a serverbound
+     * packet in the registry of this server
+     *
+     * @param packet The definition of the packet
+     * @param phase The phase the packet is received in (defaults to the default phase)
+     * @throws SchemaError If another serverbound packet in the phase has the same id
+     */
+    definePacket(packet: PacketDefinition<any>, phase?: string) {
+        this.registry.phase(phase).serverbound(packet)
+    }
+
+    /**
+     * Registers packets received from the clients as serverbound
+     * packets in the default phase of the registry of this server
+     *
+     * @param packets The definitions of the packets
+     * @throws SchemaError If another serverbound packet has the same id as one of the packets
+     */
+    definePackets(...packets: PacketDefinition<any>[]) {
+        this.registry.serverbound(...packets)
+    }
+
+    /**
+     * Adds a handler for the provided packet. The packet is registered as a
+     * serverbound packet in the default phase if it isn't registered already
+     *
+     * @param definition The definition of the packet to handle
+     * @param handler The handler function
+     * @return A function which removes the handler
+     * @throws SchemaError If the packet isn't registered and another serverbound packet has the same id
+     */
+    on<T extends StructLayout>(definition: PacketDefinition<T>, handler: ServerPacketHandler<T>): () => void {
+        const id = definition.id
+        if (!this.registry.has(definition)) this.registry.serverbound(definition)
+        const handlers = this.handlers[id]
+        if (handlers) {
+            handlers.push({definition, handler})
+        } else {
+            this.handlers[id] = [{definition, handler}]
+        }
+        return () => {
+            const handlers = this.handlers[id]
+            if (handlers) this.handlers[id] = handlers.filter(v => v.handler !== handler)
+        }
+    }
+
+    /**
+     * Encodes the provided packet into a buffer
+     *
+     * @param definition The definition of the packet
+     * @param data The packet data
+     * @param requestId The request id when responding to a request
+     * @return The encoded packet
+     */
+    createBuffer<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number): ArrayBuffer {
+        const writer = this.writer
+        writer.reset()
+        writer.write(definition, data, this.config.requestIds ? requestId ?? 0 : undefined)
+        if (this.logger) this.logger(`Sending ${this.inspect(writer.bytes(), definition)}`)
+        return writer.toBuffer()
+    }
+
+    /**
+     * Creates the frame for an encoded packet or batch. When compression is
+     * enabled the frame is a promise while it's being compressed asynchronously
+     *
+     * @param buffer The encoded packet or batch
+     * @return The frame or a promise of the frame
+     */
+    createFrame(buffer: ArrayBuffer): ArrayBuffer | Promise<ArrayBuffer> {
+        return this.compression ? compressFrame(buffer, this.compression) : buffer
+    }
+
+    /**
+     * Sends the provided packet to all the open connections or only the
+     * connections in the provided group. The packet is only encoded once
+     *
+     * @param definition The definition of the packet
+     * @param data The packet data
+     * @param group The optional name of the group to send to
+     */
+    broadcast<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, group?: string) {
+        const targets = group === undefined ? this.connections : this.groups[group]
+        if (!targets || targets.length === 0) return
+        const buffer = this.createBuffer(definition, data)
+        // Each connection compresses its own batches, otherwise the frame is only compressed once
+        const frame = this.config.batch ? undefined : this.createFrame(buffer)
+        for (let connection of targets.slice()) {
+            if (!connection.transport.open) continue
+            if (frame) {
+                connection.sendFrame(frame)
+            } else {
+                connection.sendPacket(buffer)
+            }
+        }
+    }
+
+    /**
+     * @param group The name of the group
+     * @return The connections that are members of the group
+     */
+    members(group: string): Connection[] {
+        return (this.groups[group] ?? []).slice()
+    }
+
+    /**
+     * Adds the connection to the group members. Use
+     * {@see Connection.join} instead of calling this directly
+     *
+     * @param group The name of the group
+     * @param connection The connection to add
+     */
+    addToGroup(group: string, connection: Connection) {
+        const members = this.groups[group]
+        if (members) {
+            members.push(connection)
+        } else {
+            this.groups[group] = [connection]
+        }
+    }
+
+    /**
+     * Removes the connection from the group members. Use
+     * {@see Connection.leave} instead of calling this directly
+     *
+     * @param group The name of the group
+     * @param connection The connection to remove
+     */
+    removeFromGroup(group: string, connection: Connection) {
+        const members = this.groups[group]
+        if (!members) return
+        const remaining = members.filter(v => v !== connection)
+        if (remaining.length > 0) {
+            this.groups[group] = remaining
+        } else {
+            delete this.groups[group]
+        }
+    }
+
+    /**
+     * Closes all the open connections (including
+     * those which haven't completed the handshake)
+     *
+     * @param code The optional close code
+     * @param reason The optional close reason
+     */
+    close(code?: number, reason?: string) {
+        for (let connection of this.connections.concat(this.handshaking)) {
+            connection.close(code, reason)
+        }
+    }
+
+    /**
+     * Handles a message received from a connection. When batching is
+     * enabled the message is split into its packets which are handled in order
+     *
+     * @param connection The connection the message was received from
+     * @param data The received message
+     * @private Shouldn't be accessed outside this class
+     */
+    private onMessage(connection: Connection, data: ArrayBuffer) {
+        if (!this.config.batch) {
+            this.onPacket(connection, new DataView(data))
+            return
+        }
+        let packets: DataView[]
+        try {
+            packets = splitBatch(data, this.readTracker)
+        } catch (e) {
+            this.event('error', {connection, error: this.readTracker.unexpected(e)})
+            return
+        }
+        for (let packet of packets) {
+            this.onPacket(connection, packet)
+        }
+    }
+
+    /**
+     * Decodes a packet received from a connection and
+     * passes it on to its handlers
+     *
+     * @param connection The connection the packet was received from
+     * @param view The view of the packet data
+     * @private Shouldn't be accessed outside this class
+     */
+    private onPacket(connection: Connection, view: DataView) {
+        let id: number | undefined, requestId: number = 0, out: StructTyped<any> | undefined
+        let definition: PacketDefinition<any> | undefined
+        this.readTracker.bound(view)
+        try {
+            id = VarInt.decode(view, this.readTracker)
+            if (this.config.requestIds) requestId = VarInt.decode(view, this.readTracker)
+            definition = this.findDefinition(connection, id)
+            // The trace notes when there isn't a definition for the packet
+            if (this.logger) this.logger(`Received ${this.inspect(view, definition)}`)
+            if (definition) out = definition.decode(view, this.readTracker)
+        } catch (e) {
+            // Errors other than decode errors (e.g. from custom data types) are reported the same way
+            const error = this.readTracker.unexpected(e)
+            // Packets with a definition have already been traced
+            if (this.logger && !definition) this.logger(`Received malformed packet: ${error.message}\n${hexDump(view)}`)
+            error.packetId = id
+            this.event('error', {connection, error})
+            return
+        } finally {
+            this.readTracker.reset()
+        }
+        if (!definition || out === undefined) {
+            const handler = this.config.unknownPacket
+            if (handler) handler({id, requestId, phase: connection.phase, data: view}, connection)
+            return
+        }
+        if (definition === this.handshakePacket) {
+            this.completeHandshake(connection, out)
+            return
+        }
+        const handlers = this.handlers[id]
+        if (handlers) {
+            for (let {definition: handling, handler} of handlers) {
+                // Handlers for registered packets of other phases share the id but not the layout
+                if (handling === definition || !this.registry.has(handling)) handler(out, connection, requestId)
+            }
+        }
+    }
+
+    /**
+     * Finds the definition of a packet received from a connection. Only
+     * the handshake packet is accepted until the handshake has completed
+     *
+     * @param connection The connection the packet was received from
+     * @param id The id of the received packet
+     * @return The definition (if the packet is known)
+     * @throws DecodeError If the connection sent another packet before the handshake
+     * @private Shouldn't be accessed outside this class
+     */
+    private findDefinition(connection: Connection, id: number): PacketDefinition<any> | undefined {
+        if (this.handshakePacket && this.handshaking.indexOf(connection) !== -1) {
+            if (id === this.handshakePacket.id) return this.handshakePacket
+            throw this.readTracker.error('Expected the handshake packet')
+        }
+        return this.registry.find(id, 'serverbound', connection.phase)
+    }
+
+    /**
+     * Responds to the handshake received from a connection with the server
+     * protocol. If they don't match the mismatch event is emitted and the
+     * connection is closed unless the handshake is not strict. Otherwise
+     * the connect event is emitted
+     *
+     * @param connection The connection the handshake was received from
+     * @param remote The decoded handshake packet from the connection
+     * @private Shouldn't be accessed outside this class
+     */
+    private completeHandshake(connection: Connection, remote: StructTyped<any>) {
+        const handshake = this.config.handshake!
+        this.handshaking = this.handshaking.filter(v => v !== connection)
+        const data = {version: handshake.version, fingerprint: this.fingerprint}
+        const buffer = this.createBuffer(this.handshakePacket!, data)
+        // Sent straight away and uncompressed like the client handshake instead of waiting for the batch
+        const frame = this.config.batch ? frameBatch([buffer]) : buffer
+        connection.sendFrame(this.compression ? uncompressedFrame(frame) : frame)
+        if (remote.version !== handshake.version || remote.fingerprint !== this.fingerprint) {
+            this.event('mismatch', {
+                connection,
+                mismatch: {
+                    version: handshake.version,
+                    fingerprint: this.fingerprint,
+                    remoteVersion: remote.version,
+                    remoteFingerprint: remote.fingerprint
+                }
+            })
+            if (handshake.strict ?? true) {
+                connection.close(1002, 'Protocol mismatch')
+                return
+            }
+        }
+        this.connect(connection)
+    }
+
+    /**
+     * Adds the connection to the open connections and emits the connect
+     * event once it's open and the handshake (if enabled) has completed
+     *
+     * @param connection The connection which is ready
+     * @private Shouldn't be accessed outside this class
+     */
+    private connect(connection: Connection) {
+        this.connections.push(connection)
+        this.event('connect', connection)
+    }
+
+    /**
+     * Creates a formatted trace of the packet for debugging
+     *
+     * @param data The encoded packet
+     * @param definition The definition of the packet (if known)
+     * @return The formatted trace
+     * @private Shouldn't be accessed outside this class
+     */
+    private inspect(data: ArrayBufferView, definition?: PacketDefinition<any>): string {
+        const options = {requestIds: this.config.requestIds, limits: this.readTracker.limits}
+        return formatTrace(tracePacket(data, definition ? [definition] : [], options))
+    }
+
+    private event<K extends ServerEventNames>(name: K, data: ServerEvents[K]) {
+        const listeners: ServerEventFunction<K>[] | undefined = this.eventListeners[name];
+        if (listeners) {
+            for (let listener of listeners) {
+                listener(data)
+            }
+        }
+    }
+
+    addEventListener<K extends ServerEventNames>(event: K, listener: ServerEventFunction<K>) {
+        const listeners = this.eventListeners[event]
+        if (listeners) {
+            listeners.push(listener)
+        } else {
+            this.eventListeners[event] = [listener]
+        }
+    }
+
+    removeEventListener<K extends ServerEventNames>(event: K, listener?: ServerEventFunction<K>) {
+        const listeners = this.eventListeners[event]
+        if (listeners) {
+            if (listener) {
+                this.eventListeners[event] = listeners.filter(v => v !== listener)
+            } else {
+                this.eventListeners[event] = undefined
+            }
+        }
+    }
+}
@@ -1,135 +1,899 @@
 import { PacketDefinition } from "./packets";
-import { DataViewTracker, StructLayout, StructTyped, VarInt } from "./data";
+import { DataViewTracker, DecodeLimits, DefaultLimits, StructLayout, StructTyped, VarInt } from "./data";
+import { DecodeError, EncodeError, RequestError, TransportError } from "./errors";
+import { fixedDelay, ReconnectStrategy } from "./reconnect";
+import { InboundMiddleware, OutboundMiddleware, runMiddleware } from "./middleware";
+import { fingerprint, HandshakeConfig, HandshakeMismatch, HandshakePacket } from "./handshake";
+import { CloseInfo, Connector, Transport, webSocketTransport, WebSocketConstructor } from "./transport";
+import { PacketWriter } from "./writer";
+import { BatchConfig, Batcher, frameBatch, splitBatch } from "./batch";
+import { DebugLogger, debugLogger, formatTrace, hexDump, tracePacket } from "./inspect";
+import { compressFrame, CompressionConfig, decompressFrame, FrameSequence, uncompressedFrame } from "./compression";
+import { createJSONPacket, decodeText, encodeText, fromJSON, parseJSONPacket } from "./json";
+import { DefaultPhase, PacketRegistry, UnknownPacket } from "./registry";
 
 export interface Config {
+    // The WebSocket constructor used when connecting to a url (defaults to the browser WebSocket)
+    WebSocket?: WebSocketConstructor;
+    // The WebSocket sub protocols used when connecting to a url
+    protocols?: string | string[];
+    // Fixed delay in milliseconds before reconnecting (use reconnect for more control)
     reconnectTimeout?: number;
+    // The strategy used to decide when to reconnect (takes priority over reconnectTimeout)
+    reconnect?: ReconnectStrategy;
+    // Whether packets sent while the socket isn't open should be queued until it opens
+    queue?: boolean | QueueConfig;
+    // Whether packets are framed with a request id (required for requests)
+    requestIds?: boolean;
+    // The default timeout in milliseconds for requests
+    requestTimeout?: number;
+    // The packet the server responds with when a request fails
+    errorPacket?: PacketDefinition<any>;
+    // The maximum lengths allowed when decoding received packets
+    limits?: Partial<DecodeLimits>;
+    // Exchanges the protocol version and fingerprint with the server when the socket opens
+    handshake?: HandshakeConfig;
+    // Whether multiple packets are sent in each frame (the server must also use batches)
+    batch?: boolean | BatchConfig;
+    // Whether frames above the threshold size are compressed (the server must also use compression)
+    compression?: boolean | CompressionConfig;
+    // Whether packets are validated before they are encoded (defaults to true unless NODE_ENV is production)
+    validate?: boolean;
+    // Logs a trace of every sent and received packet along with connection messages (console.debug when true)
+    debug?: boolean | DebugLogger;
+    // Whether packets are encoded as binary (the default) or as JSON (for debugging against a JSON proxy)
+    codec?: 'binary' | 'json';
+    // The registry of the protocol packets (the clientbound packets are decoded, defaults to an empty registry)
+    registry?: PacketRegistry;
+    // The phase each connection starts in (defaults to the default phase)
+    phase?: string;
+    // Called with received packets that aren't registered in the active phase (they are ignored by default)
+    unknownPacket?: (packet: UnknownPacket) => void;
+}
+
+export interface QueueConfig {
+    // The maximum number of queued packets, the oldest packets are dropped first
+    maxSize?: number;
+    // The maximum time in milliseconds a packet can be queued before it is dropped
+    maxAge?: number;
+}
+
+export interface RequestOptions {
+    // The time in milliseconds before the request is rejected
+    timeout?: number;
+}
+
+export interface OnceOptions<V> {
+    // Packets that don't match the filter are ignored
+    filter?: (packet: V) => boolean;
+    // The time in milliseconds before waiting is given up
+    timeout?: number;
 }
 
-type EventFunction = (event: Event) => any
 type PacketListener<T extends StructLayout, K extends StructTyped<T>> = (packet: K) => any;
-type PacketListeners = { [key: number]: PacketListener<any, any>[] }
+// The listeners are stored with their definition so packets with the same id in other phases aren't passed to them
+type PacketListeners = { [key: number]: Array<{ definition: PacketDefinition<any>, listener: PacketListener<any, any> }> }
 type PacketInterceptor = (id: number, data: StructTyped<any>) => any
-type EventNames = 'open' | 'close'
 
-type EventListeners = Record<EventNames, EventFunction[] | undefined>;
+// The value passed to the listeners of each event
+interface SocketEvents {
+    // The open event from the transport (if it provides one)
+    open: Event | undefined;
+    close: CloseInfo;
+    // The number of the reconnect attempt that is about to be made
+    reconnect: number;
+    // The number of reconnect attempts made before giving up
+    giveup: number;
+    // A received packet that couldn't be decoded (or converted from JSON), an invalid packet passed to send or an error from the transport
+    error: DecodeError | EncodeError | TransportError;
+    // The server protocol didn't match during the handshake
+    mismatch: HandshakeMismatch;
+}
+
+type EventNames = keyof SocketEvents
+type EventFunction<K extends EventNames = EventNames> = (event: SocketEvents[K]) => any
+type EventListeners = Partial<Record<EventNames, EventFunction<any>[]>>
+
+// A packet waiting to be sent once the socket opens
+interface QueuedPacket {
+    buffer: ArrayBuffer;
+    // The time the packet was queued at
+    time: number;
+}
+
+// A request that is waiting for its response
+interface PendingRequest {
+    // The definition of the expected response packet
+    response: PacketDefinition<any>;
+    resolve: (data: StructTyped<any>) => void;
+    reject: (error: RequestError) => void;
+    // The timeout timer (if the request has a timeout)
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+// Declared here so the library doesn't depend on the Node.js types (it isn't defined in browsers)
+declare const process: { env: Record<string, string | undefined> }
+
+/**
+ * Checks whether this is a development build. Bundlers replace
+ * process.env.NODE_ENV so this also works in browser builds
+ *
+ * @return Whether NODE_ENV isn't production
+ */
+function isDevelopment(): boolean {
+    try {
+        return process.env.NODE_ENV !== 'production'
+    } catch (e) {
+        // The process isn't defined (e.g. in a browser without a bundler)
+        return false
+    }
+}
 
 /**
- * A wrapper around the websocket class to provide functionality
- * for encoding and decoding binary packets for GoWSPS
+ * A wrapper around a websocket (or any other transport) to provide
+ * functionality for encoding and decoding binary packets for GoWSPS
  */
 export class BinarySocket {
-    // The websocket connection
-    ws: WebSocket;
+    // The current transport connection
+    transport: Transport;
     // The configuration settings
     config: Config;
 
-    // The url that should be connected to
-    private readonly url: string | URL;
+    // The connector used to create new transport connections
+    private readonly connector: Connector;
 
-    // Open and close event listeners
-    private eventListeners: EventListeners = {
-        open: undefined,
-        close: undefined
-    }
+    // Listeners for the socket events
+    private eventListeners: EventListeners = {}
     private packetInterceptor?: PacketInterceptor;
 
+    // Middleware for received packets
+    private inbound: InboundMiddleware[] = []
+    // Middleware for sent packets
+    private outbound: OutboundMiddleware[] = []
+
     // Listeners for each packet types
     private packetListeners: PacketListeners = {};
 
-    // The definitions mapped to the id of the packet
-    private definitions: Record<number, PacketDefinition<any>> = {}
+    // The registry of the packets that can be received
+    readonly registry: PacketRegistry
+    // The name of the active connection phase
+    private activePhase: string
+
+    // Requests awaiting a response mapped to their request id
+    private requests: Record<number, PendingRequest> = {}
+    // The last request id that was used
+    private requestId: number = 0
+
+    // Packets waiting to be sent once the socket opens
+    private queue: QueuedPacket[] = []
+    // The number of reconnect attempts since the last successful connection
+    private attempts: number = 0
+    // The timer for the next reconnect attempt
+    private reconnectTimer?: ReturnType<typeof setTimeout>
+    // Whether the socket has been closed using close()
+    private closed: boolean = false
+    // Whether the socket has closed and won't reconnect
+    private ended: boolean = false
+    // Listeners called once the socket has closed and won't reconnect
+    private endListeners: (() => void)[] = []
+
+    // The definition of the handshake packet (if the handshake is enabled)
+    private handshakePacket?: PacketDefinition<any>
+    // The fingerprint of the local protocol sent in the handshake
+    private fingerprint: number = 0
+    // Whether the socket is waiting for the handshake from the server
+    private handshaking: boolean = false
+    // The open event that is emitted once the handshake completes
+    private openEvent?: Event
 
-    // Tracker for tracking write offset position
-    private writeTracker: DataViewTracker = new DataViewTracker()
+    // Reusable buffer that packets are encoded into
+    private writer: PacketWriter = new PacketWriter()
+    // Collects packets into batch frames (if batching is enabled)
+    private batcher?: Batcher
+    // The compression configuration (if compression is enabled)
+    private compression?: CompressionConfig
+    // Keeps sent and received frames in order while they are being compressed
+    private outgoing: FrameSequence = new FrameSequence()
+    private incoming: FrameSequence = new FrameSequence()
     // Tracker for tracking read offset position
     private readTracker: DataViewTracker = new DataViewTracker()
+    // Whether packets are validated before they are encoded
+    private validating: boolean
+    // Tracker for tracking the field path while validating
+    private validateTracker: DataViewTracker = new DataViewTracker()
+    // The logger for debug messages (if debugging is enabled)
+    private logger?: DebugLogger
 
     /**
      * Creates a new instance of the binary socket
      *
-     * @param url
-     * @param config
+     * @param url The url to connect to using a WebSocket or a connector for a custom transport
+     * @param config The configuration settings
      */
-    constructor(url: string | URL, config?: Config) {
-        this.url = url;
+    constructor(url: string | URL | Connector, config?: Config) {
         this.config = config ?? {};
-        this.ws = this.createConnection()
+        this.registry = this.config.registry ?? new PacketRegistry()
+        this.activePhase = this.config.phase ?? DefaultPhase
+        this.connector = typeof url === 'function' ? url : webSocketTransport(url, this.config.WebSocket, this.config.protocols)
+        this.readTracker.limits = {...DefaultLimits, ...this.config.limits}
+        this.validating = this.config.validate ?? isDevelopment()
+        this.logger = debugLogger(this.config.debug)
+        const batch = this.config.batch
+        if (batch) {
+            this.batcher = new Batcher(
+                typeof batch === 'object' ? batch : {},
+                frame => this.sendFrame(frame),
+                // Scheduled batches are sent after send has returned so errors (e.g. not open) are emitted instead
+                error => this.event('error', new TransportError(error))
+            )
+        }
+        const compression = this.config.compression
+        if (compression) this.compression = typeof compression === 'object' ? compression : {}
+        const handshake = this.config.handshake
+        if (handshake) {
+            this.handshakePacket = HandshakePacket(handshake.id)
+            this.fingerprint = handshake.fingerprint ?? fingerprint(handshake.packets ?? [])
+        }
+        this.transport = this.createConnection()
     }
 
     /**
-     * Creates a new connection to the websocket and adds
-     * all the listeners
+     * Creates a new transport connection using the
+     * connector and handles its events
      *
      * @private Shouldn't be accessed outside this class
      */
-    private createConnection(): WebSocket {
-        const ws = new WebSocket(this.url)
-        ws.binaryType = 'arraybuffer';
-        ws.onopen = (event: Event) => {
-            if (ws.readyState === WebSocket.OPEN) {
-                this.event('open', event)
+    private createConnection(): Transport {
+        // New connections always start in the initial phase
+        this.activePhase = this.config.phase ?? DefaultPhase
+        return this.connector({
+            open: (event?: Event) => {
+                this.attempts = 0
+                if (this.handshakePacket) {
+                    this.handshaking = true
+                    this.openEvent = event
+                    this.sendHandshake()
+                } else {
+                    this.ready(event)
+                }
+            },
+            close: (info: CloseInfo) => {
+                this.handshaking = false
+                this.openEvent = undefined
+                this.rejectRequests(new RequestError('Socket closed before receiving a response'))
+                this.event('close', info)
+                this.log(`Connection closed with code ${info.code} ${info.reason}`)
+                if (!this.closed) this.scheduleReconnect()
+                if (this.reconnectTimer === undefined) this.end()
+            },
+            message: (data: ArrayBuffer) => this.onMessage(data),
+            error: (error: unknown) => this.event('error', new TransportError(error))
+        })
+    }
+
+    /**
+     * Handles a received message. When compression is enabled the
+     * message is decompressed before it is handled
+     *
+     * @param data The received message
+     * @private Shouldn't be accessed outside this class
+     */
+    private onMessage(data: ArrayBuffer) {
+        if (!this.compression) {
+            this.onFrame(data)
+            return
+        }
+        const frame = decompressFrame(data, this.readTracker.limits.maxDecompressedSize, this.compression)
+        this.incoming.push(frame, frame => this.onFrame(frame), error => {
+            this.event('error', error instanceof DecodeError ? error : new TransportError(error))
+        })
+    }
+
+    /**
+     * Handles a received frame. When batching is enabled the
+     * frame is split into its packets which are handled in order
+     *
+     * @param data The received frame
+     * @private Shouldn't be accessed outside this class
+     */
+    private onFrame(data: ArrayBuffer) {
+        if (!this.config.batch) {
+            this.onPacket(new DataView(data))
+            return
+        }
+        let packets: DataView[]
+        try {
+            packets = splitBatch(data, this.readTracker)
+        } catch (e) {
+            this.event('error', this.readTracker.unexpected(e))
+            return
+        }
+        for (let packet of packets) {
+            this.onPacket(packet)
+        }
+    }
+
+    /**
+     * Decodes a received packet and passes it
+     * on to the listeners
+     *
+     * @param view The view of the packet data
+     * @private Shouldn't be accessed outside this class
+     */
+    private onPacket(view: DataView) {
+        if (this.config.codec === 'json') {
+            this.onJSONPacket(view)
+            return
+        }
+        let id: number | undefined, requestId: number = 0, out: StructTyped<any> | undefined
+        let definition: PacketDefinition<any> | undefined
+        this.readTracker.bound(view)
+        try {
+            id = VarInt.decode(view, this.readTracker)
+            if (this.config.requestIds) requestId = VarInt.decode(view, this.readTracker)
+            definition = this.findDefinition(id, requestId)
+            // The trace notes when there isn't a definition for the packet
+            if (this.logger) this.logger(`Received ${this.inspect(view, definition)}`)
+            if (definition) out = definition.decode(view, this.readTracker)
+        } catch (e) {
+            // Errors other than decode errors (e.g. from custom data types) are reported the same way
+            const error = this.readTracker.unexpected(e)
+            // Packets with a definition have already been traced
+            if (this.logger && !definition) this.logger(`Received malformed packet: ${error.message}\n${hexDump(view)}`)
+            error.packetId = id
+            this.event('error', error)
+            return
+        } finally {
+            this.readTracker.reset()
+        }
+        if (!definition || out === undefined) {
+            this.unknownPacket(id, requestId, view)
+            return
+        }
+        if (definition === this.handshakePacket) {
+            this.completeHandshake(out)
+            return
+        }
+        this.receive(id, requestId, out, definition)
+    }
+
+    /**
+     * Parses a received packet sent using the JSON codec and
+     * passes it on to the listeners
+     *
+     * @param view The view of the UTF-8 encoded JSON packet
+     * @private Shouldn't be accessed outside this class
+     */
+    private onJSONPacket(view: DataView) {
+        let id: number | undefined, requestId: number = 0, out: StructTyped<any> | undefined
+        let definition: PacketDefinition<any> | undefined
+        try {
+            const text = decodeText(view)
+            const packet = parseJSONPacket(text)
+            id = packet.id
+            requestId = packet.requestId ?? 0
+            definition = this.findDefinition(id, requestId)
+            this.log(`Received ${text}`)
+            if (definition) out = fromJSON(definition, packet.data)
+        } catch (e) {
+            if (e instanceof EncodeError) {
+                this.event('error', e)
+                return
             }
+            // Errors other than decode errors (e.g. from custom data types) are reported the same way
+            const error = this.readTracker.unexpected(e)
+            error.packetId = id
+            this.event('error', error)
+            return
+        }
+        if (!definition || out === undefined) {
+            this.unknownPacket(id, requestId, view)
+            return
         }
-        ws.onclose = (event: Event) => {
-            this.event('close', event)
-            console.log('Connection closed', event)
-            if (this.config.reconnectTimeout !== undefined) {
-                setTimeout(() => {
-                    this.ws = this.createConnection();
-                    console.debug('Reconnecting socket')
-                }, this.config.reconnectTimeout)
+        if (definition === this.handshakePacket) {
+            this.completeHandshake(out)
+            return
+        }
+        this.receive(id, requestId, out, definition)
+    }
+
+    /**
+     * Finds the definition of a received packet. The handshake packet is
+     * used while handshaking, then the clientbound packets registered in
+     * the active phase and then the packets expected by pending requests
+     *
+     * @param id The id of the received packet
+     * @param requestId The request id of the received packet
+     * @return The definition (if the packet is known)
+     * @private Shouldn't be accessed outside this class
+     */
+    private findDefinition(id: number, requestId: number): PacketDefinition<any> | undefined {
+        if (this.handshaking && id === this.handshakePacket?.id) return this.handshakePacket
+        return this.registry.find(id, 'clientbound', this.activePhase) ?? this.requestDefinition(id, requestId)
+    }
+
+    /**
+     * Passes a received packet that isn't known to the unknown packet handler
+     *
+     * @param id The id of the received packet
+     * @param requestId The request id of the received packet
+     * @param view The view of the whole packet
+     * @private Shouldn't be accessed outside this class
+     */
+    private unknownPacket(id: number, requestId: number, view: DataView) {
+        const handler = this.config.unknownPacket
+        if (handler) handler({id, requestId, phase: this.activePhase, data: view})
+    }
+
+    /**
+     * Sends the handshake packet containing the version
+     * and fingerprint of the local protocol
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private sendHandshake() {
+        const handshake = this.config.handshake!
+        const data = {version: handshake.version, fingerprint: this.fingerprint}
+        const packet = this.encode(this.handshakePacket!, data, this.config.requestIds ? 0 : undefined)
+        const frame = this.config.batch ? frameBatch([packet]) : packet
+        this.transport.send(this.compression ? uncompressedFrame(frame) : frame)
+    }
+
+    /**
+     * Compares the handshake received from the server with the local protocol.
+     * If they don't match the mismatch event is emitted and the socket is
+     * closed unless the handshake is not strict
+     *
+     * @param remote The decoded handshake packet from the server
+     * @private Shouldn't be accessed outside this class
+     */
+    private completeHandshake(remote: StructTyped<any>) {
+        const handshake = this.config.handshake!
+        if (remote.version !== handshake.version || remote.fingerprint !== this.fingerprint) {
+            this.event('mismatch', {
+                version: handshake.version,
+                fingerprint: this.fingerprint,
+                remoteVersion: remote.version,
+                remoteFingerprint: remote.fingerprint
+            })
+            if (handshake.strict ?? true) {
+                this.handshaking = false
+                this.close()
+                return
             }
         }
-        ws.onmessage = (event: MessageEvent) => {
-            const view: DataView = new DataView(event.data as ArrayBuffer)
-            const id: number = VarInt.decode(view, this.readTracker)
-            const definition: PacketDefinition<any> | undefined = this.definitions[id]
-            if (definition) {
-                const out = definition.decode(view, this.readTracker)
+        this.ready(this.openEvent)
+    }
+
+    /**
+     * Called once the socket is open and the handshake (if enabled) has
+     * completed. Sends any queued packets and emits the open event
+     *
+     * @param event The open event
+     * @private Shouldn't be accessed outside this class
+     */
+    private ready(event?: Event) {
+        this.handshaking = false
+        this.openEvent = undefined
+        this.flushQueue()
+        this.event('open', event)
+    }
+
+    /**
+     * Passes a decoded packet through the inbound middleware and then
+     * completes the matching request or calls the packet listeners
+     *
+     * @param id The id of the received packet
+     * @param requestId The request id of the packet (0 if not a request)
+     * @param out The decoded packet data
+     * @param definition The definition the packet was decoded with
+     * @private Shouldn't be accessed outside this class
+     */
+    private receive(id: number, requestId: number, out: StructTyped<any>, definition: PacketDefinition<any>) {
+        if (this.packetInterceptor) this.packetInterceptor(id, out)
+        runMiddleware(this.inbound, id, out, (data) => {
+            if (requestId === 0 || !this.completeRequest(requestId, id, data)) {
                 const listeners = this.packetListeners[id]
                 if (listeners) {
-                    for (let listener of listeners) {
-                        listener(out)
+                    for (let {definition: listening, listener} of listeners) {
+                        // Listeners for registered packets of other phases share the id but not the layout
+                        if (listening === definition || !this.registry.has(listening)) listener(data)
                     }
                 }
-            } else {
-                console.error(`No packet definition defined for ${id.toString(16)}`)
             }
-            this.readTracker.reset()
+        })
+    }
+
+    /**
+     * Schedules the next reconnect attempt using the reconnect strategy
+     * or emits the giveup event if the strategy has given up
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private scheduleReconnect() {
+        let strategy = this.config.reconnect
+        if (!strategy) {
+            if (this.config.reconnectTimeout === undefined) return
+            strategy = fixedDelay(this.config.reconnectTimeout)
+        }
+        const attempt = this.attempts + 1
+        const delay = strategy.delay(attempt)
+        if (delay === undefined) {
+            this.queue = []
+            this.event('giveup', this.attempts)
+            return
+        }
+        this.attempts = attempt
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined
+            this.event('reconnect', attempt)
+            this.transport = this.createConnection();
+            this.log(`Reconnecting socket (attempt ${attempt})`)
+        }, delay)
+    }
+
+    /**
+     * Closes the socket and stops it from reconnecting. Any queued
+     * packets are discarded, pending requests and calls to once
+     * are rejected and streams end
+     *
+     * @param code The optional close code
+     * @param reason The optional close reason
+     */
+    close(code?: number, reason?: string) {
+        this.closed = true
+        if (this.reconnectTimer !== undefined) {
+            clearTimeout(this.reconnectTimer)
+            this.reconnectTimer = undefined
+        }
+        this.queue = []
+        if (this.batcher) this.batcher.clear()
+        this.rejectRequests(new RequestError('Socket closed before receiving a response'))
+        this.transport.close(code, reason)
+        this.end()
+    }
+
+    /**
+     * Adds the encoded packet to the current batch when batching
+     * is enabled otherwise the packet is sent as its own frame
+     *
+     * @param buffer The encoded packet
+     * @private Shouldn't be accessed outside this class
+     */
+    private sendPacket(buffer: ArrayBuffer) {
+        if (this.batcher) {
+            this.batcher.add(buffer)
+        } else {
+            this.sendFrame(buffer)
         }
-        return ws
     }
 
+    /**
+     * Compresses the frame when compression is enabled and then
+     * transmits it. Frames are transmitted in the order they are sent
+     *
+     * @param frame The frame to send
+     * @private Shouldn't be accessed outside this class
+     */
+    private sendFrame(frame: ArrayBuffer) {
+        if (!this.compression) {
+            this.transmit(frame)
+            return
+        }
+        this.outgoing.push(compressFrame(frame, this.compression), frame => this.transmit(frame), error => {
+            this.event('error', new TransportError(error))
+        })
+    }
+
+    /**
+     * Sends the provided buffer if the socket is open. Otherwise, the buffer
+     * is queued if the queue is enabled. If the queue is full the oldest
+     * buffer is dropped
+     *
+     * @param buffer The buffer to send
+     * @private Shouldn't be accessed outside this class
+     */
+    private transmit(buffer: ArrayBuffer) {
+        const config = this.config.queue
+        if ((this.transport.open && !this.handshaking) || !config || this.closed) {
+            this.transport.send(buffer)
+            return
+        }
+        this.queue.push({buffer, time: Date.now()})
+        if (typeof config === 'object' && config.maxSize !== undefined && this.queue.length > config.maxSize) {
+            this.queue.shift()
+        }
+    }
+
+    /**
+     * Sends all the queued packets that haven't become stale
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private flushQueue() {
+        const config = this.config.queue
+        const queue = this.queue
+        this.queue = []
+        const maxAge = typeof config === 'object' ? config.maxAge : undefined
+        const now = Date.now()
+        for (let packet of queue) {
+            if (maxAge === undefined || now - packet.time <= maxAge) {
+                this.transport.send(packet.buffer)
+            }
+        }
+    }
+
+    /**
+     * Encodes and sends the provided packet. When validation is enabled
+     * invalid packets aren't sent and the {@see EncodeError} is emitted
+     * through the error event (or thrown if there are no error listeners)
+     *
+     * @param definition The definition of the packet to send
+     * @param data The packet data to send
+     */
     send<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>) {
-        const buffer = definition.create(this.writeTracker, data)
-        this.ws.send(buffer)
+        runMiddleware(this.outbound, definition, data, (data) => {
+            let buffer: ArrayBuffer
+            try {
+                buffer = this.createBuffer(definition, data)
+            } catch (e) {
+                const listeners = this.eventListeners.error
+                if (!(e instanceof EncodeError) || !listeners || listeners.length === 0) throw e
+                this.event('error', e)
+                return
+            }
+            this.sendPacket(buffer)
+        })
+    }
+
+    /**
+     * Sends the provided packet to the server along with a unique request
+     * id and waits for the server to respond with the response packet
+     * carrying the same request id. Requires the requestIds config option
+     *
+     * The returned promise is rejected with a {@see RequestError} if the
+     * socket has already closed and won't reconnect, the timeout expires,
+     * the socket closes or the server responds with the error packet from
+     * the config
+     *
+     * @param definition The definition of the packet to send
+     * @param data The packet data to send
+     * @param response The definition of the packet expected in response
+     * @param options Options for this request
+     * @return A promise resolved with the response packet data
+     */
+    request<T extends StructLayout, R extends StructLayout>(
+        definition: PacketDefinition<T>,
+        data: StructTyped<T>,
+        response: PacketDefinition<R>,
+        options?: RequestOptions
+    ): Promise<StructTyped<R>> {
+        return new Promise<StructTyped<R>>((resolve, reject) => {
+            if (!this.config.requestIds) {
+                reject(new RequestError('Requests require the requestIds config option to be enabled'))
+                return
+            }
+            // A socket that has closed and won't reconnect would never receive the response
+            if (this.ended) {
+                reject(new RequestError('Socket closed before receiving a response'))
+                return
+            }
+            const requestId = this.nextRequestId()
+            const request: PendingRequest = {response, resolve, reject}
+            const timeout = options?.timeout ?? this.config.requestTimeout
+            if (timeout !== undefined) {
+                request.timer = setTimeout(() => {
+                    delete this.requests[requestId]
+                    reject(new RequestError(`Request timed out after ${timeout}ms`))
+                }, timeout)
+            }
+            this.requests[requestId] = request
+            try {
+                runMiddleware(this.outbound, definition, data, (data) => {
+                    this.sendPacket(this.encode(definition, data, requestId))
+                })
+            } catch (e) {
+                if (request.timer !== undefined) clearTimeout(request.timer)
+                delete this.requests[requestId]
+                throw e
+            }
+        })
+    }
+
+    /**
+     * Finds the next free request id. Request ids wrap around
+     * after reaching the max VarInt value and 0 is reserved
+     * for packets that aren't part of a request
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private nextRequestId(): number {
+        do {
+            this.requestId = this.requestId >= 0xFFFFFFFF ? 1 : this.requestId + 1
+        } while (this.requests[this.requestId] !== undefined)
+        return this.requestId
+    }
+
+    /**
+     * Finds the definition for a packet that isn't defined on the socket
+     * but is expected as the response (or error) for a pending request
+     *
+     * @param id The id of the received packet
+     * @param requestId The request id of the received packet
+     * @private Shouldn't be accessed outside this class
+     */
+    private requestDefinition(id: number, requestId: number): PacketDefinition<any> | undefined {
+        const request = this.requests[requestId]
+        if (!request) return undefined
+        if (request.response.id === id) return request.response
+        const errorPacket = this.config.errorPacket
+        if (errorPacket && errorPacket.id === id) return errorPacket
+        return undefined
+    }
+
+    /**
+     * Completes the pending request with the provided request id if
+     * the received packet is its response or the error packet
+     *
+     * @param requestId The request id of the received packet
+     * @param id The id of the received packet
+     * @param data The decoded packet data
+     * @return Whether the packet completed a request
+     * @private Shouldn't be accessed outside this class
+     */
+    private completeRequest(requestId: number, id: number, data: StructTyped<any>): boolean {
+        const request = this.requests[requestId]
+        if (!request) return false
+        const errorPacket = this.config.errorPacket
+        if (request.response.id === id) {
+            request.resolve(data)
+        } else if (errorPacket && errorPacket.id === id) {
+            request.reject(new RequestError('Server responded with an error', data))
+        } else {
+            return false
+        }
+        if (request.timer !== undefined) clearTimeout(request.timer)
+        delete this.requests[requestId]
+        return true
+    }
+
+    /**
+     * Rejects all the pending requests with the provided error
+     *
+     * @param error The error to reject with
+     * @private Shouldn't be accessed outside this class
+     */
+    private rejectRequests(error: RequestError) {
+        const requests = this.requests
+        this.requests = {}
+        for (let key in requests) {
+            const request = requests[key]
+            if (request.timer !== undefined) clearTimeout(request.timer)
+            request.reject(error)
+        }
     }
 
     createBuffer<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>): ArrayBuffer {
-        return definition.create(this.writeTracker, data)
+        // Packets that aren't requests use the request id 0
+        return this.encode(definition, data, this.config.requestIds ? 0 : undefined)
+    }
+
+    /**
+     * Encodes the packet using the reusable writer and copies the
+     * encoded bytes into a new buffer (or encodes it as JSON when
+     * using the JSON codec). The packet is validated first when
+     * validation is enabled
+     *
+     * @param definition The definition of the packet
+     * @param data The packet data
+     * @param requestId The optional request id
+     * @throws EncodeError If validation is enabled and the packet is invalid
+     * @private Shouldn't be accessed outside this class
+     */
+    private encode<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number): ArrayBuffer {
+        if (this.validating) {
+            try {
+                definition.validate(this.validateTracker, data)
+            } finally {
+                this.validateTracker.reset()
+            }
+        }
+        if (this.config.codec === 'json') {
+            const text = createJSONPacket(definition, data, requestId)
+            this.log(`Sending ${text}`)
+            return encodeText(text)
+        }
+        const writer = this.writer
+        writer.reset()
+        writer.write(definition, data, requestId)
+        if (this.logger) this.logger(`Sending ${this.inspect(writer.bytes(), definition)}`)
+        return writer.toBuffer()
+    }
+
+    /**
+     * Creates a formatted trace of the packet for debugging
+     *
+     * @param data The encoded packet
+     * @param definition The definition of the packet (if known)
+     * @return The formatted trace
+     * @private Shouldn't be accessed outside this class
+     */
+    private inspect(data: ArrayBufferView, definition?: PacketDefinition<any>): string {
+        const options = {requestIds: this.config.requestIds, limits: this.readTracker.limits}
+        return formatTrace(tracePacket(data, definition ? [definition] : [], options))
+    }
+
+    /**
+     * Logs the message if debugging is enabled
+     *
+     * @param message The message to log
+     * @private Shouldn't be accessed outside this class
+     */
+    private log(message: string) {
+        if (this.logger) this.logger(message)
     }
 
     sendBuffer(data: ArrayBuffer) {
-        this.ws.send(data)
+        this.sendPacket(data)
     }
 
-    definePacket(packet: PacketDefinition<any>) {
-        this.definitions[packet.id] = packet
+    /**
+     * Registers a packet received from the server as a clientbound
+     * packet in the registry of this socket
+     *
+     * @param packet The definition of the packet
+     * @param phase The phase the packet is received in (defaults to the default phase)
+     * @throws SchemaError If another clientbound packet in the phase has the same id
+     */
+    definePacket(packet: PacketDefinition<any>, phase?: string) {
+        this.registry.phase(phase).clientbound(packet)
     }
 
+    /**
+     * Registers packets received from the server as clientbound
+     * packets in the default phase of the registry of this socket
+     *
+     * @param packets The definitions of the packets
+     * @throws SchemaError If another clientbound packet has the same id as one of the packets
+     */
     definePackets(...packets: PacketDefinition<any>[]) {
-        for (let packet of packets) {
-            this.definitions[packet.id] = packet
-        }
+        this.registry.clientbound(...packets)
     }
 
-    addListener<T extends StructLayout>(definition: PacketDefinition<T>, handler: PacketListener<T, StructTyped<T>>) {
+    /**
+     * @return The name of the active connection phase
+     */
+    get phase(): string {
+        return this.activePhase
+    }
+
+    /**
+     * Switches the active connection phase. Received packets are decoded
+     * using the clientbound packets registered in the active phase. The
+     * phase goes back to the initial phase when the socket reconnects
+     *
+     * @param phase The name of the phase
+     */
+    setPhase(phase: string) {
+        this.activePhase = phase
+        this.log(`Switched to phase ${phase}`)
+    }
+
+    /**
+     * Adds a listener for the provided packet
+     *
+     * @param definition The definition of the packet to listen for
+     * @param handler The listener function
+     * @return A function which removes the listener
+     */
+    addListener<T extends StructLayout>(definition: PacketDefinition<T>, handler: PacketListener<T, StructTyped<T>>): () => void {
         const listeners = this.packetListeners[definition.id]
         if (listeners) {
-            listeners.push(handler)
+            listeners.push({definition, listener: handler})
         } else {
-            this.packetListeners[definition.id] = [handler]
+            this.packetListeners[definition.id] = [{definition, listener: handler}]
         }
+        return () => this.removeListener(definition, handler)
     }
 
     removeListener<T extends StructLayout>(definition: PacketDefinition<T>, handler?: PacketListener<T, StructTyped<T>>) {
@@ -137,15 +901,139 @@ export class BinarySocket {
         const listeners = this.packetListeners[id]
         if (listeners) {
             if (handler) {
-                this.packetListeners[id] = listeners.filter(v => v !== handler)
+                this.packetListeners[id] = listeners.filter(v => v.listener !== handler)
             } else {
                 this.packetListeners[id] = []
             }
         }
     }
 
-    private event(name: EventNames, data: Event) {
-        const listeners = this.eventListeners[name];
+    /**
+     * Waits for the next packet of the provided type (that matches
+     * the filter if one is provided)
+     *
+     * The returned promise is rejected with a {@see RequestError} if the
+     * timeout expires or the socket closes and won't reconnect
+     *
+     * @param definition The definition of the packet to wait for
+     * @param options The optional filter and timeout
+     * @return A promise resolved with the packet data
+     */
+    once<T extends StructLayout>(definition: PacketDefinition<T>, options?: OnceOptions<StructTyped<T>>): Promise<StructTyped<T>> {
+        return new Promise<StructTyped<T>>((resolve, reject) => {
+            if (this.ended) {
+                reject(new RequestError('Socket closed before receiving the packet'))
+                return
+            }
+            let timer: ReturnType<typeof setTimeout> | undefined
+            const finish = () => {
+                removeListener()
+                removeEnd()
+                if (timer !== undefined) clearTimeout(timer)
+            }
+            const removeListener = this.addListener(definition, (packet: StructTyped<T>) => {
+                if (options?.filter && !options.filter(packet)) return
+                finish()
+                resolve(packet)
+            })
+            const removeEnd = this.onEnd(() => {
+                finish()
+                reject(new RequestError('Socket closed before receiving the packet'))
+            })
+            const timeout = options?.timeout
+            if (timeout !== undefined) {
+                timer = setTimeout(() => {
+                    finish()
+                    reject(new RequestError(`Timed out waiting for the packet after ${timeout}ms`))
+                }, timeout)
+            }
+        })
+    }
+
+    /**
+     * Creates an async iterable of the received packets of the provided
+     * type for use with for await. Packets received before they are
+     * iterated are buffered. The iteration ends once the buffered packets
+     * have been iterated after the socket closes and won't reconnect.
+     * Breaking out of the loop stops listening for the packet
+     *
+     * @param definition The definition of the packet to iterate
+     * @return The async iterable of the packet data
+     */
+    stream<T extends StructLayout>(definition: PacketDefinition<T>): AsyncIterableIterator<StructTyped<T>> {
+        const buffered: StructTyped<T>[] = []
+        let waiting: ((result: IteratorResult<StructTyped<T>>) => void) | undefined
+        let done = false
+        const finish = () => {
+            if (done) return
+            done = true
+            removeListener()
+            removeEnd()
+            if (waiting) {
+                waiting({done: true, value: undefined})
+                waiting = undefined
+            }
+        }
+        const removeListener = this.addListener(definition, (packet: StructTyped<T>) => {
+            if (waiting) {
+                const resolve = waiting
+                waiting = undefined
+                resolve({done: false, value: packet})
+            } else {
+                buffered.push(packet)
+            }
+        })
+        const removeEnd = this.onEnd(finish)
+        if (this.ended) finish()
+        const iterator: AsyncIterableIterator<StructTyped<T>> = {
+            next(): Promise<IteratorResult<StructTyped<T>>> {
+                if (buffered.length > 0) return Promise.resolve({done: false, value: buffered.shift()!})
+                if (done) return Promise.resolve({done: true, value: undefined})
+                return new Promise(resolve => waiting = resolve)
+            },
+            return(): Promise<IteratorResult<StructTyped<T>>> {
+                buffered.length = 0
+                finish()
+                return Promise.resolve({done: true, value: undefined})
+            },
+            [Symbol.asyncIterator]() {
+                return iterator
+            }
+        }
+        return iterator
+    }
+
+    /**
+     * Adds a listener called once the socket has closed and won't reconnect
+     *
+     * @param listener The listener function
+     * @return A function which removes the listener
+     * @private Shouldn't be accessed outside this class
+     */
+    private onEnd(listener: () => void): () => void {
+        this.endListeners.push(listener)
+        return () => {
+            this.endListeners = this.endListeners.filter(v => v !== listener)
+        }
+    }
+
+    /**
+     * Calls the end listeners (rejecting the promises from once
+     * and ending the streams)
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private end() {
+        this.ended = true
+        const listeners = this.endListeners
+        this.endListeners = []
+        for (let listener of listeners) {
+            listener()
+        }
+    }
+
+    private event<K extends EventNames>(name: K, data: SocketEvents[K]) {
+        const listeners: EventFunction<K>[] | undefined = this.eventListeners[name];
         if (listeners) {
             for (let listener of listeners) {
                 listener(data)
@@ -153,7 +1041,7 @@ export class BinarySocket {
         }
     }
 
-    addEventListener(event: EventNames, listener: EventFunction) {
+    addEventListener<K extends EventNames>(event: K, listener: EventFunction<K>) {
         const listeners = this.eventListeners[event]
         if (listeners) {
             listeners.push(listener)
@@ -162,7 +1050,7 @@ export class BinarySocket {
         }
     }
 
-    removeEventListener(event: EventNames, listener?: EventFunction) {
+    removeEventListener<K extends EventNames>(event: K, listener?: EventFunction<K>) {
         const listeners = this.eventListeners[event]
         if (listeners) {
             if (listener) {
@@ -173,7 +1061,44 @@ export class BinarySocket {
         }
     }
 
+    /**
+     * Sets a function that is called with every received packet before it
+     * is passed to the inbound middleware. Use {@see useInbound} if you
+     * need to modify or drop packets
+     *
+     * @param interceptor The interceptor function
+     */
     setInterceptor(interceptor: PacketInterceptor) {
         this.packetInterceptor = interceptor
     }
+
+    /**
+     * Adds a middleware that is run for every received packet before
+     * it is passed to the packet listeners. Middleware are run in the
+     * order they were added
+     *
+     * @param middleware The middleware to add
+     * @return A function which removes the middleware
+     */
+    useInbound(middleware: InboundMiddleware): () => void {
+        this.inbound.push(middleware)
+        return () => {
+            this.inbound = this.inbound.filter(v => v !== middleware)
+        }
+    }
+
+    /**
+     * Adds a middleware that is run for every packet sent using send or
+     * request before it is encoded. Packets sent using sendBuffer are
+     * already encoded so they don't pass through the middleware
+     *
+     * @param middleware The middleware to add
+     * @return A function which removes the middleware
+     */
+    useOutbound(middleware: OutboundMiddleware): () => void {
+        this.outbound.push(middleware)
+        return () => {
+            this.outbound = this.outbound.filter(v => v !== middleware)
+        }
+    }
 }
@@ -0,0 +1,176 @@
+/**
+ * The details of a closed transport. The browser CloseEvent
+ * matches this so it can be passed through directly
+ */
+export interface CloseInfo {
+    code: number;
+    reason: string;
+}
+
+/**
+ * The handlers a transport reports its events to
+ */
+export interface TransportHandlers {
+    // Called once the transport is open and able to send data
+    open(event?: Event): void;
+    // Called when the transport closes (including when it fails to open)
+    close(info: CloseInfo): void;
+    // Called with the binary data of each received message
+    message(data: ArrayBuffer): void;
+    // Called when the transport encounters an error
+    error(error: unknown): void;
+}
+
+/**
+ * A connection which is able to send and receive binary messages
+ */
+export interface Transport {
+    // Whether the transport is open and able to send data
+    readonly open: boolean;
+
+    /**
+     * Sends the provided binary message
+     *
+     * @param data The data to send
+     */
+    send(data: ArrayBuffer): void;
+
+    /**
+     * Closes the transport
+     *
+     * @param code The optional close code
+     * @param reason The optional close reason
+     */
+    close(code?: number, reason?: string): void;
+}
+
+// Creates a new transport connection that reports its events to the provided handlers
+export type Connector = (handlers: TransportHandlers) => Transport
+
+/**
+ * The parts of the WebSocket API that are used by the WebSocket transport.
+ * Both the browser WebSocket and the "ws" package match this
+ */
+export interface WebSocketLike {
+    binaryType: string;
+    readonly readyState: number;
+    onopen: ((event: any) => any) | null;
+    onclose: ((event: any) => any) | null;
+    onmessage: ((event: any) => any) | null;
+    onerror: ((event: any) => any) | null;
+
+    send(data: ArrayBuffer): void;
+
+    close(code?: number, reason?: string): void;
+}
+
+// A WebSocket constructor such as the browser WebSocket or WebSocket from the "ws" package
+export type WebSocketConstructor = new (url: string | URL, protocols?: string | string[]) => WebSocketLike
+
+// The readyState of an open WebSocket
+const OPEN = 1
+
+/**
+ * Creates a transport from an existing WebSocket. The WebSocket
+ * can either still be connecting or already be open
+ *
+ * @param ws The WebSocket to use
+ * @param handlers The handlers to report events to
+ * @return The created transport
+ */
+export function wrapWebSocket(ws: WebSocketLike, handlers: TransportHandlers): Transport {
+    ws.binaryType = 'arraybuffer';
+    ws.onopen = (event: Event) => {
+        if (ws.readyState === OPEN) handlers.open(event)
+    }
+    ws.onclose = (event: CloseInfo) => handlers.close(event)
+    ws.onmessage = (event: MessageEvent) => handlers.message(event.data as ArrayBuffer)
+    ws.onerror = (event: Event) => handlers.error(event)
+    return {
+        get open(): boolean {
+            return ws.readyState === OPEN
+        },
+        send: (data: ArrayBuffer) => ws.send(data),
+        close: (code?: number, reason?: string) => ws.close(code, reason)
+    }
+}
+
+/**
+ * Creates a connector which connects to the provided url using a
+ * WebSocket. The browser WebSocket is used unless another WebSocket
+ * constructor is provided (e.g. from the "ws" package in Node.js)
+ *
+ * @param url The url to connect to
+ * @param constructor The WebSocket constructor to use
+ * @param protocols The optional sub protocols
+ * @return The created connector
+ */
+export function webSocketTransport(url: string | URL, constructor?: WebSocketConstructor, protocols?: string | string[]): Connector {
+    return (handlers: TransportHandlers): Transport => {
+        const Constructor: WebSocketConstructor = constructor ?? WebSocket
+        return wrapWebSocket(new Constructor(url, protocols), handlers)
+    }
+}
+
+/**
+ * Creates a pair of connectors whose transports are connected to each
+ * other in memory. Data sent from one side is received by the other side
+ * asynchronously (in a microtask) to match the behavior of a real
+ * connection. Both transports open once both sides have connected and
+ * closing either side closes both.
+ *
+ * Each side can only be connected once, so reconnecting isn't supported
+ *
+ * @return The connectors for both sides of the loopback
+ */
+export function loopbackPair(): [Connector, Connector] {
+    type Side = { handlers: TransportHandlers, open: boolean, closed: boolean }
+    const sides: Array<Side | undefined> = [undefined, undefined];
+
+    const later = (task: () => void) => Promise.resolve().then(task)
+
+    const connector = (index: number): Connector => (handlers: TransportHandlers): Transport => {
+        if (sides[index] !== undefined) {
+            throw new Error('Loopback side is already connected')
+        }
+        const side: Side = {handlers, open: false, closed: false}
+        sides[index] = side
+        const other = sides[1 - index]
+        if (other !== undefined && !other.closed) {
+            later(() => {
+                if (side.closed || other.closed) return
+                side.open = other.open = true
+                other.handlers.open()
+                side.handlers.open()
+            })
+        }
+        const closeBoth = (code: number, reason: string) => {
+            for (let value of sides) {
+                if (value && !value.closed) {
+                    value.open = false
+                    value.closed = true
+                    const handlers = value.handlers
+                    later(() => handlers.close({code, reason}))
+                }
+            }
+        }
+        return {
+            get open(): boolean {
+                return side.open
+            },
+            send(data: ArrayBuffer) {
+                if (!side.open) throw new Error('Loopback transport is not open')
+                // Copy the data so later changes to the buffer aren't received
+                const copy = data.slice(0)
+                const target = sides[1 - index]!
+                later(() => {
+                    if (target.open) target.handlers.message(copy)
+                })
+            },
+            close(code?: number, reason?: string) {
+                closeBoth(code ?? 1000, reason ?? '')
+            }
+        }
+    }
+    return [connector(0), connector(1)]
+}
@@ -0,0 +1,134 @@
+import { PacketDefinition } from "./packets";
+import { DataViewTracker, StructLayout, StructTyped, VarInt } from "./data";
+import { DecodeError } from "./errors";
+
+/**
+ * A reusable buffer that packets are encoded into. Packets are encoded in
+ * a single pass without calculating their size first. If a packet doesn't
+ * fit the buffer grows (doubling in size) and the packet is encoded again.
+ *
+ * Multiple packets can be written one after another into the same buffer.
+ * The buffer is reused after calling reset so no new buffers are allocated
+ * once the buffer has grown to fit the packets being written
+ */
+export class PacketWriter {
+    // The underlying buffer that is reused between packets
+    private buffer: ArrayBuffer;
+    // The number of bytes that have been written
+    private length: number = 0;
+    // The largest size the buffer is allowed to grow to
+    private readonly maxSize: number;
+    // Tracker for tracking write offset position
+    private readonly tracker: DataViewTracker = new DataViewTracker();
+
+    /**
+     * Creates a new packet writer
+     *
+     * @param initialSize The initial size of the buffer in bytes
+     * @param maxSize The largest size the buffer is allowed to grow to
+     */
+    constructor(initialSize: number = 1024, maxSize: number = 64 * 1024 * 1024) {
+        this.buffer = new ArrayBuffer(initialSize)
+        this.maxSize = maxSize
+    }
+
+    /**
+     * Encodes the packet after any previously written packets
+     *
+     * Encoding:
+     * ID         VarInt
+     * RequestID  VarInt (Only present when a request id is provided)
+     * Data       StructTyped<T>
+     *
+     * @param definition The definition of the packet
+     * @param data The packet data
+     * @param requestId The optional request id used to correlate responses
+     * @return The number of bytes written for this packet
+     * @throws Error If the packet doesn't fit within the max size
+     */
+    write<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number): number {
+        return this.encode((view, tracker) => {
+            VarInt.encode(view, tracker, definition.id)
+            if (requestId !== undefined) VarInt.encode(view, tracker, requestId)
+            definition.encode(view, tracker, data)
+        })
+    }
+
+    /**
+     * Encodes using the provided function after any previously written
+     * data. The function is called again if the buffer had to grow
+     *
+     * @param encoder The function which encodes the data
+     * @return The number of bytes written
+     * @throws Error If the data doesn't fit within the max size
+     */
+    encode(encoder: (view: DataView, tracker: DataViewTracker) => void): number {
+        const tracker = this.tracker
+        while (true) {
+            const view = new DataView(this.buffer, this.length)
+            tracker.reset()
+            tracker.bound(view)
+            try {
+                encoder(view, tracker)
+            } catch (e) {
+                // Running out of space is reported by the tracker (DecodeError) or the view (RangeError)
+                if (!(e instanceof DecodeError || e instanceof RangeError)) throw e
+                if (this.buffer.byteLength >= this.maxSize) {
+                    throw new Error(`Packet exceeds the max writer size of ${this.maxSize} bytes`)
+                }
+                this.grow()
+                continue
+            }
+            const written = tracker.current()
+            tracker.reset()
+            this.length += written
+            return written
+        }
+    }
+
+    /**
+     * Doubles the size of the buffer (up to the max size)
+     * copying over any bytes already written
+     *
+     * @private Shouldn't be accessed outside this class
+     */
+    private grow() {
+        const size = Math.min(this.maxSize, Math.max(1, this.buffer.byteLength * 2))
+        const buffer = new ArrayBuffer(size)
+        new Uint8Array(buffer).set(new Uint8Array(this.buffer, 0, this.length))
+        this.buffer = buffer
+    }
+
+    /**
+     * @return The number of bytes that have been written
+     */
+    size(): number {
+        return this.length
+    }
+
+    /**
+     * Creates a view of the written bytes without copying them. The
+     * view is only valid until the writer is reset or grows
+     *
+     * @return A view of the written bytes
+     */
+    bytes(): Uint8Array {
+        return new Uint8Array(this.buffer, 0, this.length)
+    }
+
+    /**
+     * Copies the written bytes into a new array buffer
+     *
+     * @return The written bytes
+     */
+    toBuffer(): ArrayBuffer {
+        return this.buffer.slice(0, this.length)
+    }
+
+    /**
+     * Resets the writer so the buffer can be reused
+     */
+    reset() {
+        this.length = 0
+    }
+}
@@ -0,0 +1,189 @@
+import assert from "assert";
+import {
+    Batcher, BinarySocket, DecodeError, frameBatch, loopbackPair, PacketDefinition, PacketServer, splitBatch, Str,
+    TransportError, VarInt
+} from "../src";
+import { DataViewTracker } from "../src/data";
+import { FakeWebSocket } from "./websocket";
+
+// Creates a buffer containing the provided bytes
+const bytes = (...values: number[]) => new Uint8Array(values).buffer
+
+// Converts the views of the packets in a batch to arrays of bytes
+const contents = (views: DataView[]) => views.map(view => Array.from(new Uint8Array(view.buffer, view.byteOffset, view.byteLength)))
+
+// Waits for the pending microtasks
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// Waits for the provided number of milliseconds
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('frameBatch', () => {
+    it('prefixes each packet with its length', () => {
+        const frame = frameBatch([bytes(1, 2), bytes(), bytes(3)])
+        assert.deepStrictEqual(Array.from(new Uint8Array(frame)), [2, 1, 2, 0, 1, 3])
+    })
+
+    it('round trips through splitBatch', () => {
+        const large = new Uint8Array(300).map((_, i) => i & 0xFF)
+        const packets = [bytes(1), large.buffer, bytes(), bytes(4, 5, 6)]
+        const tracker = new DataViewTracker()
+        const views = splitBatch(frameBatch(packets), tracker)
+        assert.deepStrictEqual(contents(views), packets.map(packet => Array.from(new Uint8Array(packet))))
+        assert.strictEqual(tracker.current(), 0)
+    })
+
+    it('splits an empty frame into no packets', () => {
+        assert.deepStrictEqual(splitBatch(frameBatch([]), new DataViewTracker()), [])
+    })
+
+    it('rejects truncated frames', () => {
+        const frame = frameBatch([bytes(1, 2, 3)]).slice(0, 3)
+        assert.throws(() => splitBatch(frame, new DataViewTracker()), DecodeError)
+    })
+})
+
+describe('Batcher', () => {
+    let frames: number[][][]
+    const send = (frame: ArrayBuffer) => frames.push(contents(splitBatch(frame, new DataViewTracker())))
+
+    beforeEach(() => {
+        frames = []
+    })
+
+    it('merges the packets added in the same task into one frame', async () => {
+        const batcher = new Batcher({}, send)
+        batcher.add(bytes(1))
+        batcher.add(bytes(2, 3))
+        assert.deepStrictEqual(frames, [])
+        await settle()
+        assert.deepStrictEqual(frames, [[[1], [2, 3]]])
+        batcher.add(bytes(4))
+        await settle()
+        assert.deepStrictEqual(frames, [[[1], [2, 3]], [[4]]])
+    })
+
+    it('waits for the flush delay', async () => {
+        const batcher = new Batcher({flush: 30}, send)
+        batcher.add(bytes(1))
+        await settle()
+        batcher.add(bytes(2))
+        assert.deepStrictEqual(frames, [])
+        await sleep(50)
+        assert.deepStrictEqual(frames, [[[1], [2]]])
+    })
+
+    it('sends straight away once the max size is reached', () => {
+        const batcher = new Batcher({flush: 1000, maxSize: 6}, send)
+        batcher.add(bytes(1, 2))
+        batcher.add(bytes(3, 4))
+        assert.deepStrictEqual(frames, [[[1, 2], [3, 4]]])
+        batcher.add(bytes(5))
+        batcher.flush()
+        assert.deepStrictEqual(frames, [[[1, 2], [3, 4]], [[5]]])
+    })
+
+    it("doesn't send empty frames", async () => {
+        const batcher = new Batcher({}, send)
+        batcher.flush()
+        batcher.add(bytes(1))
+        batcher.flush()
+        await settle()
+        assert.deepStrictEqual(frames, [[[1]]])
+    })
+
+    it('gives errors from scheduled flushes to the error function', async () => {
+        const errors: unknown[] = []
+        const failure = new Error('Not open')
+        const batcher = new Batcher({}, () => {
+            throw failure
+        }, error => errors.push(error))
+        batcher.add(bytes(1))
+        await settle()
+        assert.deepStrictEqual(errors, [failure])
+        assert.throws(() => {
+            batcher.add(bytes(2))
+            batcher.flush()
+        }, /Not open/)
+    })
+
+    it('discards the batch when cleared', async () => {
+        const batcher = new Batcher({flush: 10}, send)
+        batcher.add(bytes(1))
+        batcher.clear()
+        await sleep(20)
+        assert.deepStrictEqual(frames, [])
+    })
+})
+
+describe('BinarySocket batching', () => {
+    const MessagePacket = new PacketDefinition(0x01, {index: VarInt, text: Str}, ['index', 'text'])
+
+    it('receives batched packets in order', async () => {
+        const [clientConnector, serverConnector] = loopbackPair()
+        const server = new PacketServer({batch: true})
+        const received: number[] = []
+        server.on(MessagePacket, packet => received.push(packet.index))
+        server.accept(serverConnector)
+        const socket = new BinarySocket(clientConnector, {batch: true})
+        await new Promise(resolve => socket.addEventListener('open', resolve))
+        for (let i = 0; i < 5; i++) socket.send(MessagePacket, {index: i, text: 'x'.repeat(i)})
+        await settle()
+        assert.deepStrictEqual(received, [0, 1, 2, 3, 4])
+        socket.close()
+    })
+
+    it('emits an error when a batch is flushed before the socket opens', async () => {
+        FakeWebSocket.reset()
+        const socket = new BinarySocket('ws://localhost', {batch: true})
+        const errors: unknown[] = []
+        socket.addEventListener('error', error => errors.push(error))
+        socket.send(MessagePacket, {index: 0, text: 'early'})
+        await settle()
+        assert.strictEqual(errors.length, 1)
+        assert.ok(errors[0] instanceof TransportError)
+        assert.strictEqual((errors[0] as TransportError).message, 'WebSocket is still connecting')
+        assert.deepStrictEqual(FakeWebSocket.last.sent, [])
+        socket.close()
+    })
+})
+
+describe('PacketServer batching', () => {
+    const MessagePacket = new PacketDefinition(0x01, {index: VarInt, text: Str}, ['index', 'text'])
+
+    // Accepts an open fake websocket on the server
+    function accept(server: PacketServer) {
+        const ws = new FakeWebSocket('ws://localhost')
+        ws.readyState = FakeWebSocket.OPEN
+        return {ws, connection: server.acceptWebSocket(ws)}
+    }
+
+    // Decodes the index of each packet in each frame sent to the websocket
+    const indexes = (ws: FakeWebSocket) => ws.sent.map(frame => splitBatch(frame, new DataViewTracker()).map(view => {
+        return MessagePacket.decode(new DataView(view.buffer, view.byteOffset + 1, view.byteLength - 1), new DataViewTracker()).index
+    }))
+
+    it('batches the packets sent to each connection', async () => {
+        const server = new PacketServer({batch: true})
+        const first = accept(server), second = accept(server)
+        first.connection.send(MessagePacket, {index: 0, text: ''})
+        server.broadcast(MessagePacket, {index: 1, text: ''})
+        second.connection.send(MessagePacket, {index: 2, text: ''})
+        assert.deepStrictEqual(first.ws.sent, [])
+        await settle()
+        assert.deepStrictEqual(indexes(first.ws), [[0, 1]])
+        assert.deepStrictEqual(indexes(second.ws), [[1, 2]])
+    })
+
+    it('discards the batch when the connection closes', async () => {
+        const server = new PacketServer({batch: {flush: 10}})
+        const {ws, connection} = accept(server)
+        const errors: unknown[] = []
+        server.addEventListener('error', ({error}) => errors.push(error))
+        connection.send(MessagePacket, {index: 0, text: ''})
+        connection.close()
+        await sleep(20)
+        assert.deepStrictEqual(ws.sent, [])
+        assert.deepStrictEqual(errors, [])
+    })
+})
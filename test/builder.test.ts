@@ -0,0 +1,49 @@
+import assert from "assert";
+import { packet, PacketDefinition, Str, struct, Struct, u8, Vec } from "../src";
+import { DataViewTracker } from "../src/data";
+
+// The bytes of the encoded packet
+const bytes = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer))
+
+describe('packet', () => {
+    it('encodes the fields in the order they are added', () => {
+        const Built = packet(0x02).field('name', Str).field('user', u8)
+        const Defined = new PacketDefinition(0x02, {name: Str, user: u8}, ['name', 'user'])
+        const data = {name: 'a', user: 3}
+        assert.deepStrictEqual(bytes(Built.create(new DataViewTracker(), data)), bytes(Defined.create(new DataViewTracker(), data)))
+        const view = new DataView(Built.create(new DataViewTracker(), data), 1)
+        assert.deepStrictEqual(Built.decode(view, new DataViewTracker()), data)
+    })
+
+    it('returns a new definition for each field', () => {
+        const Base = packet(0x03).field('name', Str)
+        const Extended = Base.field('user', u8)
+        assert.deepStrictEqual(bytes(Base.create(new DataViewTracker(), {name: 'a'})), [0x03, 1, 0x61])
+        assert.deepStrictEqual(bytes(Extended.create(new DataViewTracker(), {name: 'a', user: 4})), [0x03, 1, 0x61, 4])
+    })
+
+    it('rejects field names that are already used at compile time', () => {
+        const Base = packet(0x04).field('name', Str)
+        // @ts-expect-error The name is already used
+        assert.throws(() => Base.field('name', u8), /Duplicate key name/)
+    })
+})
+
+describe('struct', () => {
+    it('can be nested like other data types', () => {
+        const User = struct().field('name', Str).field('level', u8)
+        const UsersPacket = packet(0x05).field('users', Vec(User))
+        const buffer = UsersPacket.create(new DataViewTracker(), {users: [{name: 'a', level: 2}]})
+        assert.deepStrictEqual(bytes(buffer), [0x05, 1, 1, 0x61, 2])
+        assert.strictEqual(User.name, Struct({name: Str, level: u8}, ['name', 'level']).name)
+    })
+})
+
+describe('Struct keys', () => {
+    it('rejects missing and duplicate keys at compile time and runtime', () => {
+        // @ts-expect-error The level key is missing
+        assert.throws(() => new PacketDefinition(0x06, {name: Str, level: u8}, ['name']), /Field level is missing from the keys/)
+        // @ts-expect-error The name key is used twice
+        assert.throws(() => Struct({name: Str}, ['name', 'name']), /Duplicate key name/)
+    })
+})
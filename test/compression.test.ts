@@ -0,0 +1,304 @@
+import assert from "assert";
+import zlib from "zlib";
+import {
+    BinarySocket, compressFrame, Compressed, decompressFrame, DecodeError, deflateSync, inflateSync, loopbackPair,
+    PacketDefinition, PacketServer, Str, Struct, TransportError, u8, Vec
+} from "../src";
+import { DataType, DataViewTracker, DefaultLimits } from "../src/data";
+import { FrameSequence } from "../src/compression";
+
+// Creates random bytes which don't compress well (using xorshift so they're the same every run)
+function randomBytes(length: number, seed: number): Uint8Array {
+    let state = seed
+    return new Uint8Array(length).map(() => {
+        state ^= state << 13
+        state ^= state >>> 17
+        state ^= state << 5
+        return state & 0xFF
+    })
+}
+
+// Creates text with lots of repetition (and some variety so dynamic blocks are used)
+function repetitiveText(length: number): Uint8Array {
+    const words = ['packet', 'socket', 'binary', 'struct', 'varint', 'compress']
+    let text = ''
+    for (let i = 0; text.length < length; i++) text += words[(i * 7) % words.length] + (i % 13 === 0 ? '\n' : ' ')
+    return new TextEncoder().encode(text.substring(0, length))
+}
+
+// Inputs covering empty data, short data, long runs, long matches and incompressible data
+const Inputs: Record<string, Uint8Array> = {
+    'empty data': new Uint8Array(0),
+    'a single byte': new Uint8Array([42]),
+    'text': repetitiveText(5000),
+    'a long run of one byte': new Uint8Array(100000).fill(7),
+    'repeats further apart than the window': (() => {
+        const block = randomBytes(40000, 3)
+        const out = new Uint8Array(block.length * 3)
+        for (let i = 0; i < 3; i++) out.set(block, i * block.length)
+        return out
+    })(),
+    'random bytes': randomBytes(70000, 1),
+    'mixed data': (() => {
+        const out = new Uint8Array(60000)
+        out.set(repetitiveText(20000))
+        out.set(randomBytes(20000, 2), 20000)
+        return out
+    })()
+}
+
+// The bytes of the frame as an array
+const frameBytes = (frame: ArrayBuffer) => Array.from(new Uint8Array(frame))
+
+// Waits for the provided number of milliseconds
+const settle = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('deflateSync', () => {
+    for (let name of Object.keys(Inputs)) {
+        it(`compresses ${name} so that zlib can decompress it`, () => {
+            const input = Inputs[name]
+            const compressed = deflateSync(input)
+            assert(Buffer.from(zlib.inflateSync(compressed)).equals(Buffer.from(input)))
+        })
+    }
+
+    it('compresses repetitive data', () => {
+        assert(deflateSync(Inputs['a long run of one byte']).length < 1000)
+        assert(deflateSync(Inputs['text']).length < 2500)
+    })
+})
+
+describe('inflateSync', () => {
+    const options: Record<string, zlib.ZlibOptions> = {
+        'stored blocks': {level: 0},
+        'the fastest level': {level: 1},
+        'the best level': {level: 9},
+        'fixed Huffman codes': {strategy: zlib.constants.Z_FIXED},
+        'only Huffman codes': {strategy: zlib.constants.Z_HUFFMAN_ONLY},
+        'run length encoding': {strategy: zlib.constants.Z_RLE}
+    }
+
+    for (let name of Object.keys(Inputs)) {
+        for (let option of Object.keys(options)) {
+            it(`decompresses ${name} compressed by zlib using ${option}`, () => {
+                const input = Inputs[name]
+                const compressed = new Uint8Array(zlib.deflateSync(input, options[option]))
+                assert(Buffer.from(inflateSync(compressed)).equals(Buffer.from(input)))
+            })
+        }
+    }
+
+    it('rejects data which decompresses to more than the max size', () => {
+        const compressed = new Uint8Array(zlib.deflateSync(new Uint8Array(1000000)))
+        assert.throws(() => inflateSync(compressed, 1000), (e: unknown) => {
+            assert(e instanceof DecodeError)
+            assert.match(e.message, /maxDecompressedSize of 1000/)
+            return true
+        })
+        assert.strictEqual(inflateSync(compressed, 1000000).length, 1000000)
+    })
+
+    it('rejects corrupt data', () => {
+        const compressed = new Uint8Array(zlib.deflateSync(Inputs['text']))
+        assert.throws(() => inflateSync(compressed.subarray(0, compressed.length / 2)), DecodeError)
+        assert.throws(() => inflateSync(new Uint8Array([0x78, 0x9C, 0xFF, 0xFF])), DecodeError)
+        assert.throws(() => inflateSync(new Uint8Array([1, 2, 3])), DecodeError)
+    })
+})
+
+describe('compressFrame', () => {
+    for (let native of [false, true]) {
+        describe(native ? 'using CompressionStream' : 'using deflateSync', () => {
+            const config = {threshold: 100, native}
+
+            it('sends frames below the threshold uncompressed', async () => {
+                const frame = await compressFrame(new Uint8Array([1, 2, 3]).buffer, config)
+                assert.deepStrictEqual(frameBytes(frame), [0, 1, 2, 3])
+            })
+
+            it('compresses frames above the threshold', async () => {
+                const input = Inputs['text']
+                const frame = await compressFrame(input.slice().buffer, config)
+                const bytes = new Uint8Array(frame)
+                assert.strictEqual(bytes[0], 1)
+                assert(bytes.length < input.length)
+                assert(Buffer.from(zlib.inflateSync(bytes.subarray(1))).equals(Buffer.from(input)))
+            })
+
+            it("sends frames uncompressed when compressing doesn't make them smaller", async () => {
+                const input = randomBytes(500, 4)
+                const frame = await compressFrame(input.slice().buffer, config)
+                assert.deepStrictEqual(frameBytes(frame), [0, ...Array.from(input)])
+            })
+        })
+    }
+})
+
+describe('decompressFrame', () => {
+    for (let native of [false, true]) {
+        describe(native ? 'using DecompressionStream' : 'using inflateSync', () => {
+            const config = {native}
+
+            it('removes the flag from uncompressed frames', async () => {
+                const frame = await decompressFrame(new Uint8Array([0, 5, 6]).buffer, 100, config)
+                assert.deepStrictEqual(frameBytes(frame), [5, 6])
+            })
+
+            it('decompresses compressed frames', async () => {
+                const input = Inputs['mixed data']
+                const compressed = await compressFrame(input.slice().buffer, {native})
+                const frame = await decompressFrame(compressed, DefaultLimits.maxDecompressedSize, config)
+                assert(Buffer.from(frame).equals(Buffer.from(input)))
+            })
+
+            it('rejects frames which decompress to more than the max size', async () => {
+                const compressed = zlib.deflateSync(new Uint8Array(1000000))
+                const frame = new Uint8Array(compressed.length + 1)
+                frame[0] = 1
+                frame.set(compressed, 1)
+                await assert.rejects(Promise.resolve(decompressFrame(frame.buffer, 1000, config)), DecodeError)
+            })
+
+            it('rejects frames with corrupt data', async () => {
+                await assert.rejects(Promise.resolve(decompressFrame(new Uint8Array([1, 1, 2, 3]).buffer, 100, config)), DecodeError)
+            })
+
+            it('rejects frames with an unknown flag', async () => {
+                await assert.rejects(Promise.resolve(decompressFrame(new Uint8Array([2, 1]).buffer, 100, config)), /Unknown compression flag 2/)
+            })
+
+            it('rejects empty frames', async () => {
+                await assert.rejects(Promise.resolve(decompressFrame(new ArrayBuffer(0), 100, config)), /missing the compression flag/)
+            })
+        })
+    }
+})
+
+describe('Compressed', () => {
+    const Messages = Compressed(Vec(Str))
+
+    it('limits the decompressed size', () => {
+        const messages = new Array(200).fill('a message which repeats')
+        const size = Messages.size
+        const buffer = new ArrayBuffer(typeof size === 'number' ? size : size(messages))
+        Messages.encode(new DataView(buffer), new DataViewTracker(), messages)
+        const tracker = new DataViewTracker()
+        assert.deepStrictEqual(Messages.decode(new DataView(buffer), tracker), messages)
+        tracker.reset()
+        tracker.limits = {...DefaultLimits, maxDecompressedSize: 100}
+        assert.throws(() => Messages.decode(new DataView(buffer), tracker), DecodeError)
+    })
+
+    it('only compresses the value once when sizing and encoding it', () => {
+        let encodes = 0
+        const Counted: DataType<number> = {...u8, encode: (d, t, v) => {
+            encodes++
+            u8.encode(d, t, v)
+        }}
+        const CountedPacket = new PacketDefinition(0x01, {value: Compressed(Counted)}, ['value'])
+        const buffer = CountedPacket.create(new DataViewTracker(), {value: 7})
+        assert.strictEqual(encodes, 1)
+        assert.deepStrictEqual(CountedPacket.decode(new DataView(buffer, 1), new DataViewTracker()), {value: 7})
+        CountedPacket.create(new DataViewTracker(), {value: 7})
+        assert.strictEqual(encodes, 2)
+    })
+
+    it('reports errors in the compressed value at the path of the field', () => {
+        const Profile = Struct({data: Compressed(Struct({name: Str}, ['name']))}, ['data'])
+        // The name claims to be 5 bytes long but only 1 byte follows
+        const compressed = deflateSync(new Uint8Array([5, 0x61]))
+        const view = new DataView(new Uint8Array([compressed.length, ...compressed]).buffer)
+        const tracker = new DataViewTracker()
+        tracker.bound(view)
+        assert.throws(() => Profile.decode(view, tracker), (error: DecodeError) => {
+            assert.strictEqual(error.message, 'Unexpected end of buffer reading 5 byte(s) at data.name (offset 1)')
+            return true
+        })
+    })
+})
+
+describe('FrameSequence', () => {
+    // Creates a frame with the provided bytes which resolves after the provided delay
+    const delayed = (ms: number, ...values: number[]) => new Promise<ArrayBuffer>(resolve => {
+        setTimeout(() => resolve(new Uint8Array(values).buffer), ms)
+    })
+    it('handles frames in the order they were pushed', async () => {
+        const sequence = new FrameSequence()
+        const handled: number[][] = []
+        const handle = (frame: ArrayBuffer) => handled.push(frameBytes(frame))
+        sequence.push(new Uint8Array([1]).buffer, handle, assert.ifError)
+        assert.deepStrictEqual(handled, [[1]])
+        sequence.push(delayed(20, 2), handle, assert.ifError)
+        sequence.push(new Uint8Array([3]).buffer, handle, assert.ifError)
+        sequence.push(delayed(5, 4), handle, assert.ifError)
+        assert.deepStrictEqual(handled, [[1]])
+        await settle(40)
+        assert.deepStrictEqual(handled, [[1], [2], [3], [4]])
+        sequence.push(new Uint8Array([5]).buffer, handle, assert.ifError)
+        assert.deepStrictEqual(handled, [[1], [2], [3], [4], [5]])
+    })
+
+    it('passes rejected frames to the error function in order', async () => {
+        const sequence = new FrameSequence()
+        const events: unknown[] = []
+        sequence.push(delayed(10, 1), frame => events.push(frameBytes(frame)), e => events.push(e))
+        sequence.push(Promise.reject('failed'), frame => events.push(frameBytes(frame)), e => events.push(e))
+        sequence.push(new Uint8Array([3]).buffer, frame => events.push(frameBytes(frame)), e => events.push(e))
+        await settle(20)
+        assert.deepStrictEqual(events, [[1], 'failed', [3]])
+    })
+
+    it('passes errors thrown when handling waiting frames to the error function', async () => {
+        const sequence = new FrameSequence()
+        const errors: unknown[] = []
+        const handled: number[][] = []
+        const error = new Error('Handler failed')
+        sequence.push(delayed(5, 1), () => {
+            throw error
+        }, e => errors.push(e))
+        sequence.push(delayed(0, 2), frame => handled.push(frameBytes(frame)), e => errors.push(e))
+        await settle(20)
+        assert.deepStrictEqual(errors, [error])
+        assert.deepStrictEqual(handled, [[2]])
+    })
+
+    it('throws errors from frames handled straight away', () => {
+        const sequence = new FrameSequence()
+        assert.throws(() => sequence.push(new ArrayBuffer(1), () => {
+            throw new Error('Handler failed')
+        }, assert.ifError), /Handler failed/)
+    })
+})
+
+describe('BinarySocket compression', () => {
+    const TextPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+
+    it('sends compressed packets to the server in order', async () => {
+        const [clientConnector, serverConnector] = loopbackPair()
+        const server = new PacketServer({compression: {threshold: 64}})
+        const received: string[] = []
+        server.on(TextPacket, packet => received.push(packet.text))
+        server.accept(serverConnector)
+        const socket = new BinarySocket(clientConnector, {compression: {threshold: 64}})
+        await new Promise(resolve => socket.addEventListener('open', resolve))
+        const texts = ['short', 'long '.repeat(100), 'x', new TextDecoder().decode(Inputs['text'])]
+        for (let text of texts) socket.send(TextPacket, {text})
+        await settle(50)
+        assert.deepStrictEqual(received, texts)
+        socket.close()
+    })
+
+    it('reports sending before open as an error event', async () => {
+        // The server side never connects so the socket doesn't open
+        const [clientConnector] = loopbackPair()
+        const socket = new BinarySocket(clientConnector, {compression: {threshold: 0}})
+        const errors: unknown[] = []
+        socket.addEventListener('error', error => errors.push(error))
+        socket.send(TextPacket, {text: 'too early'})
+        await settle(20)
+        assert.strictEqual(errors.length, 1)
+        assert(errors[0] instanceof TransportError)
+        assert.match((errors[0] as TransportError).message, /not open/)
+        socket.close()
+    })
+})
@@ -0,0 +1,269 @@
+import assert from "assert";
+import {
+    BigInt64Vec, DecodeError, Default, EncodeError, Enum, FixedArray, Float64Vec, i64, Int16Vec, Latin1Str, MapType,
+    Nullable, Optional, PacketDefinition, Str, Struct, StructVec, Tuple, u16, u32, u64, u8, Uint32Vec, Union,
+    utf8Length, VarI32, VarI64, VarInt, VarLong, Vec
+} from "../src";
+import { DataType, DataViewTracker, DecodeLimits, DefaultLimits } from "../src/data";
+
+/**
+ * Encodes the value using the data type into a buffer of its size
+ *
+ * @param type The data type to encode with
+ * @param value The value to encode
+ * @return The encoded bytes
+ */
+function encode<T>(type: DataType<T>, value: T): number[] {
+    const size = typeof type.size === 'number' ? type.size : type.size(value)
+    const view = new DataView(new ArrayBuffer(size))
+    type.encode(view, new DataViewTracker(), value)
+    return Array.from(new Uint8Array(view.buffer))
+}
+
+/**
+ * Decodes the bytes using the data type with a tracker bound to the bytes
+ *
+ * @param type The data type to decode with
+ * @param bytes The bytes to decode
+ * @param limits The decode limits to use
+ * @return The decoded value
+ */
+function decode<T>(type: DataType<T>, bytes: number[], limits?: Partial<DecodeLimits>): T {
+    const view = new DataView(new Uint8Array(bytes).buffer), tracker = new DataViewTracker()
+    tracker.bound(view)
+    tracker.limits = {...DefaultLimits, ...limits}
+    return type.decode(view, tracker)
+}
+
+/**
+ * Checks that decoding the bytes throws a decode error
+ *
+ * @param type The data type to decode with
+ * @param bytes The bytes to decode
+ * @param message The expected error message
+ * @param limits The decode limits to use
+ */
+function rejects<T>(type: DataType<T>, bytes: number[], message: string, limits?: Partial<DecodeLimits>) {
+    assert.throws(() => decode(type, bytes, limits), (error: DecodeError) => {
+        assert.ok(error instanceof DecodeError)
+        assert.strictEqual(error.message, message)
+        return true
+    })
+}
+
+describe('Decode bounds', () => {
+    const User = Struct({name: Str, age: u8}, ['name', 'age'])
+
+    it('rejects reads past the end of the buffer with the field path', () => {
+        rejects(u32, [1, 2], 'Unexpected end of buffer reading 4 byte(s) (offset 0)')
+        rejects(Str, [5, 0x61], 'Unexpected end of buffer reading 5 byte(s) (offset 1)')
+        rejects(Vec(User), [2, 1, 0x61, 20, 1], 'Unexpected end of buffer reading 1 byte(s) at [1].name (offset 5)')
+        const Groups = StructVec({users: Vec(Str)}, ['users'])
+        rejects(Groups, [1, 2, 0, 3], 'Unexpected end of buffer reading 3 byte(s) at [0].users[1] (offset 4)')
+    })
+
+    it('rejects lengths over the limits', () => {
+        assert.strictEqual(decode(Str, [2, 0x61, 0x62], {maxStringLength: 2}), 'ab')
+        rejects(Str, [3, 0x61, 0x62, 0x63], 'Length 3 exceeds maxStringLength of 2 (offset 1)', {maxStringLength: 2})
+        rejects(Vec(u8), [3, 1, 2, 3], 'Length 3 exceeds maxArrayLength of 2 (offset 1)', {maxArrayLength: 2})
+        const Scores = MapType(Str, u8)
+        rejects(Scores, [2, 1, 0x61, 1, 1, 0x62, 2], 'Length 2 exceeds maxMapSize of 1 (offset 1)', {maxMapSize: 1})
+    })
+
+    it('rejects counts larger than the remaining bytes', () => {
+        const Empty = Struct({}, [])
+        assert.deepStrictEqual(decode(Vec(Empty), [2, 0, 0]), [{}, {}])
+        rejects(Vec(Empty), [0xFF, 0xFF, 0xFF, 0xFF, 0x0F], 'Count 4294967295 exceeds the 0 byte(s) remaining (offset 5)')
+        rejects(StructVec({}, []), [0x80, 0x01], 'Count 128 exceeds the 0 byte(s) remaining (offset 2)')
+        rejects(MapType(Str, Empty), [0x80, 0x01, 0], 'Count 128 exceeds the 1 byte(s) remaining (offset 2)')
+        rejects(Vec(u32), [3, 0, 0, 0, 1, 0, 0, 0, 2], 'Count 3 exceeds the 8 byte(s) remaining (offset 1)')
+    })
+})
+
+describe('64-bit and zig-zag types', () => {
+    it('round trips the full range of the 64-bit types', () => {
+        for (let value of [0n, 1n, -1n, 9223372036854775807n, -9223372036854775808n]) {
+            assert.strictEqual(decode(i64, encode(i64, value)), value)
+            assert.strictEqual(decode(VarI64, encode(VarI64, value)), value)
+        }
+        for (let value of [0n, 127n, 128n, 4294967296n, 18446744073709551615n]) {
+            assert.strictEqual(decode(u64, encode(u64, value)), value)
+            assert.strictEqual(decode(VarLong, encode(VarLong, value)), value)
+        }
+    })
+
+    it('encodes VarLong in 7 bit groups', () => {
+        assert.deepStrictEqual(encode(VarLong, 300n), [0xAC, 0x02])
+        assert.deepStrictEqual(encode(VarLong, 18446744073709551615n), [...Array(9).fill(0xFF), 0x01])
+        assert.deepStrictEqual(encode(VarLong, 4294967296n), encode(VarLong, 4294967296n + 18446744073709551616n))
+    })
+
+    it('zig-zag encodes small negative numbers in a single byte', () => {
+        assert.deepStrictEqual([0, -1, 1, -2, 2].map(value => encode(VarI32, value)), [[0], [1], [2], [3], [4]])
+        assert.deepStrictEqual(encode(VarI64, -64n), [127])
+        for (let value of [-2147483648, -1, 0, 2147483647]) {
+            assert.strictEqual(decode(VarI32, encode(VarI32, value)), value)
+        }
+        assert.deepStrictEqual(encode(VarI32, -2147483648), encode(VarInt, 4294967295))
+    })
+})
+
+describe('Str', () => {
+    it('encodes as UTF-8 prefixed with the byte length', () => {
+        assert.deepStrictEqual(encode(Str, 'hi'), [2, 0x68, 0x69])
+        assert.deepStrictEqual(encode(Str, 'é'), [2, 0xC3, 0xA9])
+        assert.deepStrictEqual(encode(Str, '€'), [3, 0xE2, 0x82, 0xAC])
+        assert.deepStrictEqual(encode(Str, '😀'), [4, 0xF0, 0x9F, 0x98, 0x80])
+    })
+
+    it('round trips text outside of Latin-1', () => {
+        for (let value of ['', 'plain', 'naïve café', '日本語', 'emoji 😀🎉', 'a'.repeat(10000) + '€']) {
+            assert.strictEqual(decode(Str, encode(Str, value)), value)
+        }
+    })
+
+    it('replaces unpaired surrogates with U+FFFD', () => {
+        assert.strictEqual(utf8Length('\uD800'), 3)
+        assert.deepStrictEqual(encode(Str, '\uD800'), [3, 0xEF, 0xBF, 0xBD])
+        assert.strictEqual(decode(Str, encode(Str, 'a\uDC00b')), 'a�b')
+    })
+
+    it('rejects malformed UTF-8', () => {
+        assert.throws(() => decode(Str, [1, 0x80]), /Invalid UTF-8 lead byte/)
+        assert.throws(() => decode(Str, [2, 0xC3, 0x28]), /Invalid UTF-8 continuation byte/)
+        assert.throws(() => decode(Str, [3, 0xE0, 0x80, 0x80]), /Invalid UTF-8 code point/)
+        assert.throws(() => decode(Str, [3, 0xED, 0xA0, 0x80]), /Invalid UTF-8 code point/)
+        assert.throws(() => decode(Str, [1, 0xE2]), /Truncated UTF-8 sequence/)
+    })
+})
+
+describe('Latin1Str', () => {
+    it('encodes a single byte per character', () => {
+        assert.deepStrictEqual(encode(Latin1Str, 'café'), [4, 0x63, 0x61, 0x66, 0xE9])
+    })
+
+    it('round trips long strings', () => {
+        const value = 'ÿ'.repeat(100000)
+        assert.strictEqual(decode(Latin1Str, encode(Latin1Str, value)), value)
+    })
+})
+
+describe('Optional, Nullable and Default', () => {
+    it('prefixes optional values with a presence byte', () => {
+        assert.deepStrictEqual(encode(Optional(u8), 5), [1, 5])
+        assert.deepStrictEqual(encode(Optional(u8), undefined), [0])
+        assert.strictEqual(decode(Optional(Str), [1, 1, 0x61]), 'a')
+        assert.strictEqual(decode(Optional(Str), [0]), undefined)
+    })
+
+    it('decodes missing nullable values as null', () => {
+        assert.deepStrictEqual(encode(Nullable(u8), null), [0])
+        assert.deepStrictEqual(encode(Nullable(u8), 7), [1, 7])
+        assert.strictEqual(decode(Nullable(u8), [0]), null)
+        assert.strictEqual(decode(Nullable(u8), [1, 7]), 7)
+    })
+
+    it('encodes the default value in place of missing values', () => {
+        const Level = Default(VarInt, 300)
+        assert.deepStrictEqual(encode(Level, undefined as any), [0xAC, 0x02])
+        assert.deepStrictEqual(encode(Level, 1), [1])
+        assert.strictEqual(decode(Level, [0xAC, 0x02]), 300)
+    })
+
+    it('allows optional fields to be left out of packets', () => {
+        const ProfilePacket = new PacketDefinition(0x03, {
+            name: Str,
+            age: Optional(u8),
+            nickname: Nullable(Str),
+            level: Default(u8, 1)
+        }, ['name', 'age', 'nickname', 'level'])
+        const buffer = ProfilePacket.create(new DataViewTracker(), {name: 'a', nickname: null})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [0x03, 1, 0x61, 0, 0, 1])
+        const view = new DataView(buffer, 1)
+        assert.deepStrictEqual(ProfilePacket.decode(view, new DataViewTracker()), {
+            name: 'a', age: undefined, nickname: null, level: 1
+        })
+    })
+})
+
+describe('Enum and Union', () => {
+    const Color = Enum(Str, ['red', 'green', 'blue'] as const)
+    const Shape = Union({
+        0: Struct({radius: u8}, ['radius']),
+        1: Struct({width: u8, height: u8}, ['width', 'height'])
+    })
+
+    it('round trips enum values', () => {
+        assert.deepStrictEqual(encode(Color, 'green'), [5, 0x67, 0x72, 0x65, 0x65, 0x6E])
+        assert.strictEqual(decode(Color, encode(Color, 'blue')), 'blue')
+        assert.strictEqual(decode(Enum(u8, [1, 2] as const), [2]), 2)
+    })
+
+    it('rejects values that are not in the enum', () => {
+        assert.throws(() => encode(Color, 'pink' as any), EncodeError)
+        rejects(Enum(u8, [1, 2] as const), [3], '3 is not a valid enum value (offset 0)')
+    })
+
+    it('encodes the tag before the variant', () => {
+        assert.deepStrictEqual(encode(Shape, {type: 0, value: {radius: 3}}), [0, 3])
+        assert.deepStrictEqual(encode(Shape, {type: 1, value: {width: 4, height: 5}}), [1, 4, 5])
+        assert.deepStrictEqual(decode(Shape, [1, 4, 5]), {type: 1, value: {width: 4, height: 5}})
+    })
+
+    it('rejects unknown union tags', () => {
+        assert.throws(() => encode(Shape, {type: 2, value: {}} as any), EncodeError)
+        rejects(Shape, [2, 0], '2 is not a valid union tag (offset 0)')
+        rejects(Shape, [1, 4], 'Unexpected end of buffer reading 1 byte(s) at value.height (offset 2)')
+    })
+
+    it('resets the write tracker when a packet fails to encode', () => {
+        const ColorPacket = new PacketDefinition(0x05, {color: Color}, ['color'])
+        const tracker = new DataViewTracker()
+        assert.throws(() => ColorPacket.create(tracker, {color: 'pink' as any}), /Not a valid enum value at color/)
+        const buffer = ColorPacket.create(tracker, {color: 'red'})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [0x05, 3, 0x72, 0x65, 0x64])
+    })
+})
+
+describe('FixedArray and Tuple', () => {
+    it('encodes the elements without a length prefix', () => {
+        const Position = FixedArray(u16, 3)
+        assert.deepStrictEqual(encode(Position, [1, 2, 3]), [0, 1, 0, 2, 0, 3])
+        assert.deepStrictEqual(decode(Position, [0, 1, 0, 2, 0, 3]), [1, 2, 3])
+        rejects(Position, [0, 1, 0, 2], 'Unexpected end of buffer reading 2 byte(s) at [2] (offset 4)')
+    })
+
+    it('encodes each value using the data type at its index', () => {
+        const Entry = Tuple(Str, u8, i64)
+        const entry: [string, number, bigint] = ['a', 2, -1n]
+        assert.deepStrictEqual(encode(Entry, entry), [1, 0x61, 2, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF])
+        assert.deepStrictEqual(decode(Entry, [1, 0x62, 3, 0, 0, 0, 0, 0, 0, 0, 4]), ['b', 3, 4n])
+    })
+
+    it('rejects the wrong number of elements', () => {
+        assert.throws(() => encode(FixedArray(u8, 2), [1]), EncodeError)
+        assert.throws(() => encode(Tuple(u8, u8), [1] as any), EncodeError)
+    })
+})
+
+describe('Typed arrays', () => {
+    it('encodes the elements in the provided byte order', () => {
+        const values = new Int16Array([1, -2])
+        assert.deepStrictEqual(encode(Int16Vec(), values), [2, 0, 1, 0xFF, 0xFE])
+        assert.deepStrictEqual(encode(Int16Vec('little'), values), [2, 1, 0, 0xFE, 0xFF])
+        assert.strictEqual(Int16Vec('little').name, 'Int16Vec<LE>')
+    })
+
+    it('decodes unaligned elements into a new array', () => {
+        const decoded = decode(Uint32Vec('little'), [2, 1, 0, 0, 0, 0xFF, 0xFF, 0xFF, 0xFF])
+        assert.ok(decoded instanceof Uint32Array)
+        assert.deepStrictEqual(Array.from(decoded), [1, 0xFFFFFFFF])
+        assert.deepStrictEqual(Array.from(decode(Float64Vec(), encode(Float64Vec(), new Float64Array([0.1, -2.5])))), [0.1, -2.5])
+        assert.deepStrictEqual(Array.from(decode(BigInt64Vec(), encode(BigInt64Vec(), new BigInt64Array([-3n])))), [-3n])
+    })
+
+    it('rejects lengths over the limits', () => {
+        rejects(Int16Vec(), [3, 0, 0, 0, 0, 0, 0], 'Length 3 exceeds maxArrayLength of 2 (offset 1)', {maxArrayLength: 2})
+        rejects(Int16Vec(), [2, 0, 1], 'Unexpected end of buffer reading 4 byte(s) (offset 1)')
+    })
+})
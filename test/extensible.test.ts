@@ -0,0 +1,79 @@
+import assert from "assert";
+import { DecodeError, EncodeError, fingerprint, Optional, PacketDefinition, Since, Str, Struct, u8 } from "../src";
+import { DataViewTracker } from "../src/data";
+
+const ProfileV1 = new PacketDefinition(0x07, {name: Str, level: u8}, ['name', 'level'], {extensible: true})
+const ProfileV2Layout = {name: Str, level: u8, color: Since(2, u8, 0), status: Since(2, Optional(Str), undefined)}
+const ProfileV2Keys: (keyof typeof ProfileV2Layout)[] = ['name', 'level', 'color', 'status']
+const ProfileV2 = new PacketDefinition(0x07, ProfileV2Layout, ProfileV2Keys, {extensible: true})
+
+/**
+ * Encodes the packet and decodes it with the other definition
+ *
+ * @param from The definition used to encode the packet
+ * @param to The definition used to decode the packet
+ * @param data The packet data
+ * @return The decoded packet data
+ */
+function convert(from: PacketDefinition<any>, to: PacketDefinition<any>, data: any): any {
+    const buffer = from.create(new DataViewTracker(), data)
+    const view = new DataView(buffer), tracker = new DataViewTracker()
+    tracker.bound(view)
+    tracker.many(1)
+    return to.decode(view, tracker)
+}
+
+describe('Extensible structs', () => {
+    it('prefixes the fields with the length and field count', () => {
+        const buffer = ProfileV1.create(new DataViewTracker(), {name: 'a', level: 3})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [0x07, 4, 2, 1, 0x61, 3])
+    })
+
+    it('skips the fields added in later versions', () => {
+        const data = {name: 'a', level: 3, color: 5, status: 'busy'}
+        assert.deepStrictEqual(convert(ProfileV2, ProfileV1, data), {name: 'a', level: 3})
+    })
+
+    it('fills in the fields missing from earlier versions with their fallback', () => {
+        assert.deepStrictEqual(convert(ProfileV1, ProfileV2, {name: 'a', level: 3}),
+            {name: 'a', level: 3, color: 0, status: undefined})
+    })
+
+    it('encodes fields left out of the struct as their fallback', () => {
+        assert.deepStrictEqual(convert(ProfileV2, ProfileV2, {name: 'a', level: 3}),
+            {name: 'a', level: 3, color: 0, status: undefined})
+    })
+
+    it('only encodes the fields up to the provided version', () => {
+        const Old = new PacketDefinition(0x07, ProfileV2Layout, ProfileV2Keys, {extensible: true, version: 1})
+        const buffer = Old.create(new DataViewTracker(), {name: 'a', level: 3, color: 5, status: 'busy'})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [0x07, 4, 2, 1, 0x61, 3])
+    })
+
+    it('rejects structs with fewer than the required fields', () => {
+        const view = new DataView(new Uint8Array([2, 1, 0]).buffer), tracker = new DataViewTracker()
+        tracker.bound(view)
+        assert.throws(() => ProfileV1.decode(view, tracker), (error: DecodeError) => {
+            assert.ok(error instanceof DecodeError)
+            assert.strictEqual(error.message, 'Expected at least 2 field(s) but got 1 (offset 1)')
+            return true
+        })
+    })
+
+    it('rejects missing values without a fallback', () => {
+        const Packet = new PacketDefinition(0x08, {name: Str, nick: Since(2, Str, undefined as any)}, ['name', 'nick'],
+            {extensible: true})
+        assert.throws(() => Packet.create(new DataViewTracker(), {name: 'a'} as any), EncodeError)
+        assert.throws(() => Packet.validate(new DataViewTracker(), {name: 'a'} as any), /Missing value at nick in packet 8/)
+    })
+
+    it('requires versioned fields to be extensible and in order', () => {
+        assert.throws(() => Struct({a: Since(2, u8, 0)}, ['a']), /Versioned field a requires an extensible struct/)
+        assert.throws(() => Struct({a: Since(3, u8, 0), b: Since(2, u8, 0)}, ['a', 'b'], {extensible: true}),
+            /Field b must come after the fields added in version 3/)
+    })
+
+    it('only fingerprints the fields that aren\'t versioned', () => {
+        assert.strictEqual(fingerprint([ProfileV1]), fingerprint([ProfileV2]))
+    })
+})
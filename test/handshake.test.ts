@@ -0,0 +1,82 @@
+import assert from "assert";
+import { BinarySocket, fingerprint, HandshakeMismatch, HandshakePacket, PacketDefinition, Str, u8, VarInt } from "../src";
+import { DataViewTracker } from "../src/data";
+import { FakeWebSocket, header, packet } from "./websocket";
+
+const TextPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+const CountPacket = new PacketDefinition(0x02, {count: VarInt}, ['count'])
+
+describe('fingerprint', () => {
+    it("doesn't depend on the order of the packets", () => {
+        assert.strictEqual(fingerprint([TextPacket, CountPacket]), fingerprint([CountPacket, TextPacket]))
+    })
+
+    it('changes when the layout of a packet changes', () => {
+        const original = fingerprint([TextPacket, CountPacket])
+        const changes = [
+            [TextPacket, new PacketDefinition(0x02, {count: u8}, ['count'])],
+            [TextPacket, new PacketDefinition(0x02, {total: VarInt}, ['total'])],
+            [TextPacket, new PacketDefinition(0x03, {count: VarInt}, ['count'])],
+            [TextPacket]
+        ]
+        for (let packets of changes) {
+            assert.notStrictEqual(fingerprint(packets), original)
+        }
+    })
+
+    it('is an unsigned 32-bit integer', () => {
+        const value = fingerprint([TextPacket])
+        assert.ok(Number.isInteger(value) && value >= 0 && value <= 0xFFFFFFFF)
+    })
+})
+
+describe('BinarySocket handshake', () => {
+    const handshake = {version: 2, packets: [TextPacket, CountPacket]}
+    const Handshake = HandshakePacket()
+
+    beforeEach(() => FakeWebSocket.reset())
+
+    // Decodes the handshake sent through the websocket
+    const sentHandshake = (ws: FakeWebSocket) => Handshake.decode(new DataView(ws.sent[0], 1), new DataViewTracker())
+
+    it('waits for the server handshake before opening', () => {
+        const socket = new BinarySocket('ws://localhost', {handshake, queue: true})
+        const ws = FakeWebSocket.last
+        let opened = false
+        socket.addEventListener('open', () => opened = true)
+        socket.send(TextPacket, {text: 'queued'})
+        ws.open()
+        assert.deepStrictEqual(sentHandshake(ws), {version: 2, fingerprint: fingerprint(handshake.packets)})
+        assert.strictEqual(ws.sent.length, 1)
+        assert.strictEqual(opened, false)
+        ws.receive(packet(Handshake, {version: 2, fingerprint: fingerprint(handshake.packets)}))
+        assert.strictEqual(opened, true)
+        assert.deepStrictEqual(ws.sent.map(header).map(([id]) => id), [0x00, 0x01])
+    })
+
+    it('closes when the server protocol is different', () => {
+        const socket = new BinarySocket('ws://localhost', {handshake})
+        const ws = FakeWebSocket.last
+        const mismatches: HandshakeMismatch[] = []
+        socket.addEventListener('mismatch', mismatch => mismatches.push(mismatch))
+        ws.open()
+        ws.receive(packet(Handshake, {version: 3, fingerprint: 1}))
+        assert.deepStrictEqual(mismatches, [{
+            version: 2, fingerprint: fingerprint(handshake.packets), remoteVersion: 3, remoteFingerprint: 1
+        }])
+        assert.strictEqual(ws.readyState, FakeWebSocket.CLOSED)
+    })
+
+    it('continues after a mismatch when not strict', () => {
+        const socket = new BinarySocket('ws://localhost', {handshake: {version: 1, fingerprint: 5, id: 0x7F, strict: false}})
+        const ws = FakeWebSocket.last
+        const events: string[] = []
+        socket.addEventListener('mismatch', () => events.push('mismatch'))
+        socket.addEventListener('open', () => events.push('open'))
+        ws.open()
+        assert.strictEqual(header(ws.sent[0])[0], 0x7F)
+        ws.receive(packet(HandshakePacket(0x7F), {version: 1, fingerprint: 6}))
+        assert.deepStrictEqual(events, ['mismatch', 'open'])
+        assert.strictEqual(ws.readyState, FakeWebSocket.OPEN)
+    })
+})
@@ -0,0 +1,105 @@
+import assert from "assert";
+import {
+    BinarySocket, formatTrace, hexDump, inspectPacket, PacketDefinition, Str, tracePacket, u8, Vec
+} from "../src";
+import { DataType, DataViewTracker } from "../src/data";
+import { FakeWebSocket, packet } from "./websocket";
+
+const TestPacket = new PacketDefinition(0x02, {name: Str, user: u8, tags: Vec(Str)}, ['name', 'user', 'tags'])
+
+describe('tracePacket', () => {
+    const buffer = TestPacket.create(new DataViewTracker(), {name: 'Test User', user: 2, tags: ['a']}, 0)
+
+    it('records every field with its offset and length', () => {
+        const trace = tracePacket(buffer, [TestPacket], {requestIds: true})
+        assert.strictEqual(trace.definition, TestPacket)
+        assert.strictEqual(trace.requestId, 0)
+        const fields = trace.entries.map(({path, depth, offset, length, type}) => [path, depth, offset, length, type])
+        assert.deepStrictEqual(fields, [
+            ['id', 1, 0, 1, 'VarInt'],
+            ['requestId', 1, 1, 1, 'VarInt'],
+            ['name', 1, 2, 10, 'Str'],
+            ['user', 1, 12, 1, 'u8'],
+            ['tags', 1, 13, 3, 'Vec<Str>'],
+            ['tags[0]', 2, 14, 2, 'Str']
+        ])
+    })
+
+    it('records the fields decoded before an error', () => {
+        const trace = tracePacket(buffer.slice(0, 13), [TestPacket], {requestIds: true})
+        assert.deepStrictEqual(trace.entries.map(entry => entry.path), ['id', 'requestId', 'name', 'user'])
+        assert.strictEqual(trace.error?.message, 'Unexpected end of buffer reading 1 byte(s) at tags (offset 13)')
+        assert.strictEqual(trace.error?.packetId, 0x02)
+    })
+
+    it('records errors thrown by custom data types', () => {
+        const Broken: DataType<number> = {...u8, decode: () => {
+            throw new Error('Broken')
+        }}
+        const BrokenPacket = new PacketDefinition(0x02, {value: Broken}, ['value'])
+        const trace = tracePacket(buffer, [BrokenPacket])
+        assert.strictEqual(trace.error?.message, 'Unexpected error: Broken at value (offset 1)')
+    })
+})
+
+describe('formatTrace', () => {
+    it('formats a line for each field', () => {
+        const buffer = TestPacket.create(new DataViewTracker(), {name: 'Test User', user: 2, tags: ['a']}, 0)
+        assert.strictEqual(formatTrace(tracePacket(buffer, [TestPacket], {requestIds: true})), [
+            'Packet 0x2 (16 bytes)',
+            '0x0000  02                          id         VarInt    2',
+            '0x0001  00                          requestId  VarInt    0',
+            '0x0002  09 54 65 73 74 20 55 73 ..  name       Str       "Test User"',
+            '0x000c  02                          user       u8        2',
+            '0x000d  01 01 61                    tags       Vec<Str>  [1 item(s)]',
+            '0x000e  01 61                         tags[0]  Str       "a"'
+        ].join('\n'))
+    })
+
+    it('notes unknown packets and unread bytes', () => {
+        assert.match(formatTrace(tracePacket(new Uint8Array([0x05, 1]), [TestPacket])), /No packet definition defined/)
+        const extra = new Uint8Array([0x02, 0, 0, 0, 7])
+        assert.match(formatTrace(tracePacket(extra, [TestPacket])), /1 unread byte\(s\) after the packet/)
+    })
+})
+
+describe('hexDump', () => {
+    it('shows 16 bytes per line with the printable characters', () => {
+        const bytes = new Uint8Array(18).map((_, i) => 0x41 + i)
+        bytes[1] = 0
+        assert.strictEqual(hexDump(bytes), [
+            '0x0000  41 00 43 44 45 46 47 48 49 4a 4b 4c 4d 4e 4f 50  A.CDEFGHIJKLMNOP',
+            '0x0010  51 52                                            QR'
+        ].join('\n'))
+    })
+
+    it('is appended to the trace by inspectPacket', () => {
+        const output = inspectPacket(new Uint8Array([0x05]), [])
+        assert.strictEqual(output, [
+            'Packet 0x5 (1 bytes)',
+            'No packet definition defined for this id',
+            '0x0000  05  id  VarInt  5',
+            '0x0000  05' + ' '.repeat(45) + '  .'
+        ].join('\n'))
+    })
+})
+
+describe('BinarySocket debug', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('logs the sent and received packets', () => {
+        const messages: string[] = []
+        const socket = new BinarySocket('ws://localhost', {debug: message => messages.push(message)})
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.definePackets(TestPacket)
+        socket.send(TestPacket, {name: 'a', user: 1, tags: []})
+        ws.receive(packet(TestPacket, {name: 'b', user: 2, tags: []}))
+        ws.receive(new Uint8Array([0x02, 5]).buffer)
+        const traces = messages.filter(message => /^(Sending|Received)/.test(message))
+        assert.strictEqual(traces.length, 3)
+        assert.match(traces[0], /^Sending Packet 0x2 \(5 bytes\)\n.*\n0x0001  01 61  name  Str       "a"\n/)
+        assert.match(traces[1], /^Received Packet 0x2/)
+        assert.match(traces[2], /Error: Unexpected end of buffer reading 5 byte\(s\) at name \(offset 2\)$/)
+    })
+})
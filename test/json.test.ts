@@ -0,0 +1,154 @@
+import assert from "assert";
+import {
+    BinarySocket, ByteArray, DecodeError, EncodeError, f64, fromJSON, jsonSchema, MapType, Optional, PacketDefinition,
+    parseJSONPacket, Str, Struct, toJSON, u64, u8, Union, Vec
+} from "../src";
+import { DataType } from "../src/data";
+import { FakeWebSocket } from "./websocket";
+
+const Shape = Union({0: Struct({radius: u8}, ['radius']), 1: Str})
+const ItemPacket = new PacketDefinition(0x04, {
+    name: Str,
+    icon: ByteArray,
+    price: u64,
+    weight: f64,
+    note: Optional(Str),
+    counts: MapType(u8, u8),
+    shapes: Vec(Shape)
+}, ['name', 'icon', 'price', 'weight', 'note', 'counts', 'shapes'])
+
+const item = {
+    name: 'Box',
+    icon: new Uint8Array([1, 2, 3]),
+    price: 18446744073709551615n,
+    weight: Infinity,
+    note: undefined,
+    counts: {3: 4},
+    shapes: [{type: 0 as const, value: {radius: 2}}, {type: 1 as const, value: 'star'}]
+}
+
+const itemJSON = {
+    name: 'Box',
+    icon: 'AQID',
+    price: '18446744073709551615',
+    weight: 'Infinity',
+    counts: {3: 4},
+    shapes: [{type: 0, value: {radius: 2}}, {type: 1, value: 'star'}]
+}
+
+describe('toJSON and fromJSON', () => {
+    it('converts values without a JSON equivalent', () => {
+        assert.deepStrictEqual(toJSON(ItemPacket, item), itemJSON)
+        assert.strictEqual(toJSON(f64, NaN), 'NaN')
+        assert.strictEqual(toJSON(Optional(u8), undefined), null)
+    })
+
+    it('round trips through JSON text', () => {
+        assert.deepStrictEqual(fromJSON(ItemPacket, JSON.parse(JSON.stringify(itemJSON))), item)
+    })
+
+    it('rejects JSON with the wrong shape naming the field', () => {
+        assert.throws(() => fromJSON(ItemPacket, {...itemJSON, price: 5}), (error: EncodeError) => {
+            assert.ok(error instanceof EncodeError)
+            assert.strictEqual(error.message, 'Expected a string of digits at price in packet 4 (value 5)')
+            return true
+        })
+        assert.throws(() => fromJSON(ItemPacket, {...itemJSON, name: undefined} as any), /Missing value at name in packet 4/)
+        assert.throws(() => fromJSON(u8, 300), /Expected an integer from 0 to 255/)
+    })
+
+    it('validates values before converting them', () => {
+        assert.throws(() => toJSON(ItemPacket, {...item, price: -1n}), EncodeError)
+    })
+})
+
+describe('jsonSchema', () => {
+    it('describes the JSON representation', () => {
+        const schema = jsonSchema(Struct({name: Str, level: Optional(u8)}, ['name', 'level']))
+        assert.deepStrictEqual(schema, {
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            properties: {
+                name: {type: 'string'},
+                level: {anyOf: [{type: 'integer', minimum: 0, maximum: 255}, {type: 'null'}]}
+            },
+            required: ['name'],
+            additionalProperties: false
+        })
+    })
+})
+
+describe('parseJSONPacket', () => {
+    it('parses the id, request id and data', () => {
+        assert.deepStrictEqual(parseJSONPacket('{"id": 2, "requestId": 1, "data": {"a": 1}}'), {id: 2, requestId: 1, data: {a: 1}})
+        assert.deepStrictEqual(parseJSONPacket('{"id": 2}'), {id: 2, requestId: undefined, data: null})
+    })
+
+    it('rejects invalid packets', () => {
+        const invalid = (text: string, message: RegExp) => assert.throws(() => parseJSONPacket(text), (error: DecodeError) => {
+            assert.ok(error instanceof DecodeError)
+            assert.match(error.message, message)
+            return true
+        })
+        invalid('{', /^Invalid JSON packet: /)
+        invalid('{"id": -1}', /JSON packet is missing its id/)
+        invalid('{"id": 1, "requestId": "a"}', /JSON packet has an invalid request id/)
+    })
+})
+
+describe('BinarySocket JSON codec', () => {
+    const NamePacket = new PacketDefinition(0x02, {name: Str, count: u64}, ['name', 'count'])
+
+    beforeEach(() => FakeWebSocket.reset())
+
+    // Encodes the text as a UTF-8 message
+    const message = (text: string) => new TextEncoder().encode(text).buffer
+
+    it('sends packets as JSON text', () => {
+        const socket = new BinarySocket('ws://localhost', {codec: 'json'})
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.send(NamePacket, {name: 'a', count: 2n})
+        assert.strictEqual(new TextDecoder().decode(ws.sent[0]), '{"id":2,"data":{"name":"a","count":"2"}}')
+    })
+
+    it('converts received JSON packets and reports invalid ones', () => {
+        const socket = new BinarySocket('ws://localhost', {codec: 'json'})
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.definePackets(NamePacket)
+        const received: any[] = [], errors: unknown[] = []
+        socket.addListener(NamePacket, data => received.push(data))
+        socket.addEventListener('error', error => errors.push(error))
+        ws.receive(message('{"id": 2, "data": {"name": "b", "count": "3"}}'))
+        ws.receive(message('{"id": 2, "data": {"name": "b"}}'))
+        ws.receive(message('not json'))
+        assert.deepStrictEqual(received, [{name: 'b', count: 3n}])
+        assert.strictEqual(errors.length, 2)
+        assert.ok(errors[0] instanceof EncodeError)
+        assert.ok(errors[1] instanceof DecodeError)
+    })
+
+    it('wraps errors thrown by custom data types', () => {
+        const Failing: DataType<number> = {
+            size: 1,
+            encode: (d, t, v) => d.setUint8(t.one(), v),
+            decode: (d, t) => d.getUint8(t.one()),
+            decodeJSON: () => {
+                throw new Error('Not supported')
+            }
+        }
+        const FailingPacket = new PacketDefinition(0x05, {value: Failing}, ['value'])
+        const socket = new BinarySocket('ws://localhost', {codec: 'json'})
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.definePackets(FailingPacket)
+        const errors: DecodeError[] = []
+        socket.addEventListener('error', error => errors.push(error as DecodeError))
+        ws.receive(message('{"id": 5, "data": {"value": 1}}'))
+        assert.strictEqual(errors.length, 1)
+        assert.ok(errors[0] instanceof DecodeError)
+        assert.match(errors[0].message, /^Unexpected error: Not supported/)
+        assert.strictEqual(errors[0].packetId, 0x05)
+    })
+})
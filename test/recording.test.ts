@@ -0,0 +1,112 @@
+import assert from "assert";
+import {
+    BinarySocket, compressFrame, frameBatch, PacketDefinition, Recorder, RecordedEvent, replayConnector, Str,
+    TransportHandlers, u8
+} from "../src";
+import { DataViewTracker } from "../src/data";
+import { packet } from "./websocket";
+
+const ChatPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+const ScorePacket = new PacketDefinition(0x02, {score: u8}, ['score'])
+
+// Waits for the pending microtasks
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+/**
+ * Creates a connector whose transport is controlled by the test
+ * through the handlers it was given
+ */
+function fakeConnector() {
+    const fake = {handlers: undefined as TransportHandlers | undefined, open: false, sent: [] as ArrayBuffer[]}
+    const connector = (handlers: TransportHandlers) => {
+        fake.handlers = handlers
+        return {
+            get open() {
+                return fake.open
+            },
+            send: (data: ArrayBuffer) => fake.sent.push(data),
+            close: () => undefined
+        }
+    }
+    return {fake, connector}
+}
+
+// Removes the time from the recorded events so they can be compared
+const withoutTime = (events: RecordedEvent[]) => events.map(({time, ...event}) => event)
+
+describe('Recorder', () => {
+    it('records the connection events and frames', () => {
+        const {fake, connector} = fakeConnector()
+        const recorder = new Recorder()
+        const transport = recorder.wrap(connector)({open() {}, close() {}, message() {}, error() {}})
+        fake.open = true
+        fake.handlers!.open()
+        transport.send(new Uint8Array([1, 2, 3]).buffer)
+        fake.handlers!.message(new Uint8Array([0xFF]).buffer)
+        fake.handlers!.error(new Error('Failed'))
+        fake.handlers!.close({code: 1006, reason: 'Lost'})
+        const recording = recorder.recording()
+        assert.strictEqual(recording.version, 1)
+        assert.deepStrictEqual(withoutTime(recording.events), [
+            {type: 'connect'},
+            {type: 'open'},
+            {type: 'out', data: 'AQID', trace: undefined},
+            {type: 'in', data: '/w==', trace: undefined},
+            {type: 'error', message: 'Failed'},
+            {type: 'close', code: 1006, reason: 'Lost'}
+        ])
+        recorder.clear()
+        assert.deepStrictEqual(recorder.recording().events, [])
+    })
+
+    it('traces each packet within compressed batches', () => {
+        const {fake, connector} = fakeConnector()
+        const recorder = new Recorder({packets: [ChatPacket, ScorePacket], batch: true, compression: true})
+        recorder.wrap(connector)({open() {}, close() {}, message() {}, error() {}})
+        const batch = frameBatch([packet(ChatPacket, {text: 'hello '.repeat(20)}), packet(ScorePacket, {score: 7})])
+        fake.handlers!.message(compressFrame(batch, {threshold: 0, native: false}) as ArrayBuffer)
+        const {trace} = recorder.recording().events[1] as any
+        assert.match(trace, /^Packet 0x1 \(122 bytes\)\n/)
+        assert.match(trace, /\nPacket 0x2 \(2 bytes\)\n0x0000  02  id     VarInt  2\n0x0001  07  score  u8      7$/)
+    })
+
+    it('still records and delivers frames that can\'t be traced', () => {
+        const {fake, connector} = fakeConnector()
+        const received: ArrayBuffer[] = []
+        const recorder = new Recorder({packets: [ChatPacket], compression: true})
+        recorder.wrap(connector)({open() {}, close() {}, message: data => received.push(data), error() {}})
+        fake.handlers!.message(new Uint8Array([9, 1]).buffer)
+        assert.strictEqual(received.length, 1)
+        const event = recorder.recording().events[1] as any
+        assert.strictEqual(event.data, 'CQE=')
+        assert.strictEqual(event.trace, 'Failed to trace the frame: Unknown compression flag 9 (offset 0)')
+    })
+})
+
+describe('replayConnector', () => {
+    it('replays the received packets to a socket', async () => {
+        const {fake, connector} = fakeConnector()
+        const recorder = new Recorder({packets: [ChatPacket]})
+        const recorded = new BinarySocket(recorder.wrap(connector))
+        fake.open = true
+        fake.handlers!.open()
+        fake.handlers!.message(ChatPacket.create(new DataViewTracker(), {text: 'a'}))
+        fake.handlers!.message(ChatPacket.create(new DataViewTracker(), {text: 'b'}))
+        fake.handlers!.close({code: 1000, reason: ''})
+        recorded.close()
+
+        const recording = JSON.parse(JSON.stringify(recorder.recording()))
+        const socket = new BinarySocket(replayConnector(recording, {speed: Infinity}))
+        const texts: string[] = []
+        const closed = new Promise(resolve => socket.addEventListener('close', resolve))
+        socket.definePackets(ChatPacket)
+        socket.addListener(ChatPacket, data => texts.push(data.text))
+        await closed
+        await settle()
+        assert.deepStrictEqual(texts, ['a', 'b'])
+    })
+
+    it('rejects unsupported recording versions', () => {
+        assert.throws(() => replayConnector({version: 2, started: 0, events: []}), /Unsupported recording version 2/)
+    })
+})
@@ -0,0 +1,132 @@
+import assert from "assert";
+import {
+    BinarySocket, Connection, DecodeError, loopbackPair, PacketDefinition, PacketRegistry, PacketServer, SchemaError,
+    Str, u8, UnknownPacket
+} from "../src";
+import { FakeWebSocket, packet } from "./websocket";
+
+const LoginPacket = new PacketDefinition(0x01, {name: Str}, ['name'])
+const LoginSuccessPacket = new PacketDefinition(0x01, {user: u8}, ['user'])
+const MovePacket = new PacketDefinition(0x01, {x: u8, y: u8}, ['x', 'y'])
+const ChatPacket = new PacketDefinition(0x02, {text: Str}, ['text'])
+
+// Waits for the pending microtasks (the loopback delivers everything in microtasks)
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+/**
+ * Creates the registry used by the tests. The login and move packets
+ * share an id in different phases and directions
+ */
+function createRegistry(): PacketRegistry {
+    const registry = new PacketRegistry()
+    registry.phase('login').serverbound(LoginPacket).clientbound(LoginSuccessPacket)
+    registry.phase('play').serverbound(MovePacket).clientbound(MovePacket).both(ChatPacket)
+    return registry
+}
+
+describe('PacketRegistry', () => {
+    it('finds packets by their phase and direction', () => {
+        const registry = createRegistry()
+        assert.strictEqual(registry.find(0x01, 'serverbound', 'login'), LoginPacket)
+        assert.strictEqual(registry.find(0x01, 'clientbound', 'login'), LoginSuccessPacket)
+        assert.strictEqual(registry.find(0x01, 'serverbound', 'play'), MovePacket)
+        assert.strictEqual(registry.find(0x02, 'clientbound', 'play'), ChatPacket)
+        assert.strictEqual(registry.find(0x02, 'clientbound', 'login'), undefined)
+        assert.strictEqual(registry.find(0x01, 'clientbound'), undefined)
+        assert.deepStrictEqual(registry.phaseNames(), ['login', 'play'])
+        assert.strictEqual(registry.phase('play').directionOf(ChatPacket), 'both')
+        assert.ok(registry.has(MovePacket))
+        assert.ok(!registry.has(new PacketDefinition(0x01, {}, [])))
+    })
+
+    it('rejects packets with an id that is already used in the same phase and direction', () => {
+        const registry = createRegistry()
+        const OtherPacket = new PacketDefinition(0x02, {}, [])
+        assert.throws(() => registry.phase('play').clientbound(OtherPacket), (error: SchemaError) => {
+            assert.ok(error instanceof SchemaError)
+            assert.match(error.message, /^Packet id 0x2 is already used by another clientbound packet in phase "play"$/)
+            return true
+        })
+        // Registering the same packet again isn't a collision
+        registry.phase('play').clientbound(ChatPacket)
+    })
+})
+
+describe('BinarySocket phases', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('decodes packets using the clientbound packets of the active phase', () => {
+        const socket = new BinarySocket('ws://localhost', {registry: createRegistry(), phase: 'login'})
+        const ws = FakeWebSocket.last
+        ws.open()
+        const logins: number[] = [], moves: number[] = []
+        socket.addListener(LoginSuccessPacket, data => logins.push(data.user))
+        socket.addListener(MovePacket, data => moves.push(data.x))
+        ws.receive(packet(LoginSuccessPacket, {user: 7}))
+        socket.setPhase('play')
+        assert.strictEqual(socket.phase, 'play')
+        ws.receive(packet(MovePacket, {x: 3, y: 4}))
+        assert.deepStrictEqual(logins, [7])
+        assert.deepStrictEqual(moves, [3])
+    })
+
+    it('passes unknown packets to the handler instead of reporting errors', () => {
+        const unknown: UnknownPacket[] = [], errors: unknown[] = []
+        const socket = new BinarySocket('ws://localhost', {
+            registry: createRegistry(),
+            phase: 'login',
+            unknownPacket: packet => unknown.push(packet)
+        })
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.addEventListener('error', error => errors.push(error))
+        ws.receive(packet(ChatPacket, {text: 'a'}))
+        assert.strictEqual(unknown.length, 1)
+        assert.strictEqual(unknown[0].id, 0x02)
+        assert.strictEqual(unknown[0].phase, 'login')
+        assert.strictEqual(unknown[0].data.byteLength, 3)
+        assert.deepStrictEqual(errors, [])
+    })
+
+    it('doesn\'t report errors thrown by the unknown packet handler as decode errors', () => {
+        const socket = new BinarySocket('ws://localhost', {
+            unknownPacket: () => {
+                throw new Error('Handler failed')
+            }
+        })
+        const ws = FakeWebSocket.last
+        ws.open()
+        const errors: unknown[] = []
+        socket.addEventListener('error', error => errors.push(error))
+        assert.throws(() => ws.receive(packet(ChatPacket, {text: 'a'})), /Handler failed/)
+        assert.ok(!errors.some(error => error instanceof DecodeError))
+    })
+})
+
+describe('PacketServer phases', () => {
+    it('decodes packets using the serverbound packets of the phase of each connection', async () => {
+        const unknown: [number, string][] = []
+        const server = new PacketServer({
+            registry: createRegistry(),
+            phase: 'login',
+            unknownPacket: (packet, connection: Connection) => unknown.push([packet.id, connection.phase])
+        })
+        const received: string[] = []
+        server.on(LoginPacket, (data, connection) => {
+            received.push(`login ${data.name}`)
+            connection.setPhase('play')
+        })
+        server.on(MovePacket, data => received.push(`move ${data.x},${data.y}`))
+        const [clientConnector, serverConnector] = loopbackPair()
+        server.accept(serverConnector)
+        const socket = new BinarySocket(clientConnector)
+        await settle()
+        socket.send(LoginPacket, {name: 'a'})
+        await settle()
+        socket.send(MovePacket, {x: 1, y: 2})
+        socket.send(new PacketDefinition(0x09, {}, []), {})
+        await settle()
+        assert.deepStrictEqual(received, ['login a', 'move 1,2'])
+        assert.deepStrictEqual(unknown, [[0x09, 'play']])
+    })
+})
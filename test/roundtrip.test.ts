@@ -0,0 +1,137 @@
+import assert from "assert";
+import {
+    bool, BigInt64Vec, BigUint64Vec, ByteArray, checkGoldenVectors, checkRoundTrip, Compressed, Default, Enum, f32, f64,
+    FixedArray, Float32Vec, Float64Vec, GoldenVectors, i16, i32, i64, i8, Int16Vec, Int32Vec, Latin1Str, MapType,
+    Nullable, Optional, PacketDefinition, Random, RoundTripError, Since, Str, Struct, StructVec, Tuple, u16, u32, u64,
+    u8, Uint16Vec, Uint32Vec, Union, VarI32, VarI64, VarInt, VarLong, Vec
+} from "../src";
+import { DataType } from "../src/data";
+import golden from "./golden.json";
+
+// The number of random values checked for each data type
+const Runs = 200
+
+// The built-in data types which don't wrap other types
+const Primitives: Record<string, DataType<any>> = {
+    i8, i16, i32, i64, u8, u16, u32, u64,
+    VarInt, VarLong, VarI32, VarI64, f32, f64,
+    Str, Latin1Str, bool, ByteArray
+}
+
+// A struct containing each of the primitives
+const Primitive = Struct(Primitives, Object.keys(Primitives))
+
+// The built-in data types which wrap other types
+const Wrapped: Record<string, DataType<any>> = {
+    'Vec': Vec(Str),
+    'FixedArray': FixedArray(u16, 3),
+    'FixedArray of variable size': FixedArray(Str, 2),
+    'Tuple': Tuple(u8, Str, f64),
+    'MapType with string keys': MapType(Str, VarInt),
+    'MapType with number keys': MapType(u16, bool),
+    'Optional': Optional(Str),
+    'Nullable': Nullable(u32),
+    'Default': Default(Str, 'default'),
+    'Enum': Enum(u8, [1, 2, 3]),
+    'string Enum': Enum(Str, ['a', 'b']),
+    'Union': Union({0: u8, 1: Str, 5: Vec(bool)}),
+    'Compressed': Compressed(Vec(Str)),
+    'Int16Vec': Int16Vec(),
+    'Uint16Vec': Uint16Vec('little'),
+    'Int32Vec': Int32Vec(),
+    'Uint32Vec': Uint32Vec('little'),
+    'Float32Vec': Float32Vec(),
+    'Float64Vec': Float64Vec('little'),
+    'BigInt64Vec': BigInt64Vec(),
+    'BigUint64Vec': BigUint64Vec('little')
+}
+
+describe('Random', () => {
+    it('generates the same values for the same seed', () => {
+        const generate = (random: Random) => [random.int(0, 1000), random.bigint(true), random.float(), random.length()]
+        assert.deepStrictEqual(generate(new Random(5)), generate(new Random(5)))
+        assert.notDeepStrictEqual(generate(new Random(5)), generate(new Random(6)))
+    })
+
+    it('generates integers within the range', () => {
+        const random = new Random(1)
+        for (let i = 0; i < 1000; i++) {
+            const value = random.int(-3, 3)
+            assert.ok(Number.isInteger(value) && value >= -3 && value <= 3)
+        }
+    })
+})
+
+describe('checkRoundTrip', () => {
+    for (let name of Object.keys(Primitives)) {
+        it(`round trips ${name}`, () => checkRoundTrip(Primitives[name], {runs: Runs, seed: 1}))
+    }
+
+    for (let name of Object.keys(Wrapped)) {
+        it(`round trips ${name}`, () => checkRoundTrip(Wrapped[name], {runs: Runs, seed: 1}))
+    }
+
+    it('round trips nested Struct, Vec, MapType and StructVec', () => {
+        const Nested = Struct({
+            id: VarInt,
+            primitive: Primitive,
+            items: StructVec({name: Str, tags: Vec(Latin1Str)}, ['name', 'tags']),
+            lookup: MapType(Str, Vec(Optional(Primitive))),
+            grid: Vec(Vec(i16)),
+            pair: Tuple(Struct({x: f32, y: f32}, ['x', 'y']), Nullable(Str))
+        }, ['id', 'primitive', 'items', 'lookup', 'grid', 'pair'])
+        checkRoundTrip(Nested, {runs: Runs, seed: 1})
+        checkRoundTrip(Vec(Nested), {runs: 50, seed: 2})
+    })
+
+    it('round trips extensible structs with versioned fields', () => {
+        const layout = {
+            name: Str,
+            level: u8,
+            color: Since(2, u8, 0),
+            status: Since(3, Optional(Str), undefined)
+        }
+        const keys: ['name', 'level', 'color', 'status'] = ['name', 'level', 'color', 'status']
+        checkRoundTrip(Struct(layout, keys, {extensible: true}), {runs: Runs, seed: 1})
+        checkRoundTrip(Struct(layout, keys, {extensible: true, version: 2}), {runs: Runs, seed: 1})
+        checkRoundTrip(StructVec(layout, keys, {extensible: true}), {runs: Runs, seed: 1})
+    })
+
+    it('round trips packet definitions', () => {
+        const Packet = new PacketDefinition(0x05, {
+            name: Str,
+            values: Vec(VarI64),
+            scores: MapType(Str, f32)
+        }, ['name', 'values', 'scores'])
+        checkRoundTrip(Packet, {runs: Runs, seed: 1})
+    })
+
+    it('reports values encoded with the wrong size', () => {
+        // Encodes one byte less than the size of each value
+        const Broken: DataType<number> = {
+            name: 'Broken',
+            size: 2,
+            encode: (d, t, v) => u8.encode(d, t, v),
+            decode: (d, t) => u8.decode(d, t),
+            arbitrary: random => random.int(0, 255)
+        }
+        assert.throws(() => checkRoundTrip(Broken, {seed: 7}), (e: unknown) => {
+            assert(e instanceof RoundTripError)
+            assert.strictEqual(e.seed, 7)
+            assert.match(e.reason, /Encoded 1 byte\(s\) but the size is 2/)
+            return true
+        })
+    })
+})
+
+describe('checkGoldenVectors', () => {
+    it('encodes the golden vectors', () => checkGoldenVectors())
+
+    it('matches the golden vectors shared with the other implementations', () => {
+        assert.deepStrictEqual(golden, GoldenVectors)
+    })
+
+    it('reports vectors with different bytes', () => {
+        assert.throws(() => checkGoldenVectors([{type: 'u16', value: 1, hex: '0100'}]), RoundTripError)
+    })
+})
@@ -0,0 +1,116 @@
+import assert from "assert";
+import { generateGo, generateRust, generateTypeScript, loadSchema, parseType, Schema, SchemaError } from "../src";
+import { DataViewTracker } from "../src/data";
+
+const schema: Schema = {
+    structs: [
+        {
+            name: 'User',
+            fields: [
+                {name: 'name', type: 'Str'},
+                {name: 'level', type: 'VarInt'}
+            ]
+        }
+    ],
+    packets: [
+        {
+            name: 'TestPacket',
+            id: 2,
+            fields: [
+                {name: 'users', type: 'Vec<User>'},
+                {name: 'scores', type: 'Map<Str, u32>'},
+                {name: 'note', type: 'Optional<Str>'},
+                {name: 'totalScore', type: 'VarLong'}
+            ]
+        }
+    ]
+}
+
+describe('Schemas', () => {
+    it('parses nested type expressions', () => {
+        assert.deepStrictEqual(parseType('Map<Str, Vec<Optional<User>>>', ['User']), {
+            kind: 'map',
+            key: {kind: 'primitive', name: 'Str'},
+            value: {kind: 'vec', of: {kind: 'optional', of: {kind: 'struct', name: 'User'}}}
+        })
+    })
+
+    it('parses fixed arrays and tuples', () => {
+        assert.deepStrictEqual(parseType('Array<Tuple<Str, u8>, 4>', []), {
+            kind: 'array',
+            of: {kind: 'tuple', of: [{kind: 'primitive', name: 'Str'}, {kind: 'primitive', name: 'u8'}]},
+            length: 4
+        })
+        const {packets} = loadSchema({packets: [{name: 'MovePacket', id: 1, fields: [{name: 'to', type: 'Array<u16, 3>'}]}]})
+        const buffer = packets.MovePacket.create(new DataViewTracker(), {to: [1, 2, 3]})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [1, 0, 1, 0, 2, 0, 3])
+        const code = generateRust({packets: [{name: 'MovePacket', id: 1, fields: [{name: 'to', type: 'Tuple<u8, Str>'}]}]})
+        assert.ok(code.includes('    pub to: (u8, String), // Tuple<u8, Str>\n'))
+    })
+
+    it('rejects invalid schemas', () => {
+        const invalid = (schema: Schema, message: string) => {
+            assert.throws(() => loadSchema(schema), (error: SchemaError) => {
+                assert.ok(error instanceof SchemaError)
+                assert.strictEqual(error.message, message)
+                return true
+            })
+        }
+        const packet = (id: number, type: string) => ({name: `Packet${id}`, id, fields: [{name: 'value', type}]})
+        invalid({packets: [packet(1, 'User')]}, 'Unknown type "User" in "User"')
+        invalid({packets: [packet(1, 'Vec<u8')]}, 'Expected ">" in type "Vec<u8"')
+        invalid({packets: [packet(1, 'Map<f32, u8>')]}, 'Map keys must be a string or integer type in "Map<f32, u8>"')
+        invalid({packets: [packet(1, 'Array<u8, n>')]}, 'Expected the array length in "Array<u8, n>"')
+        invalid({packets: [packet(1, 'u8'), {...packet(1, 'u8'), name: 'Other'}]},
+            'Packet Other has the same id as Packet1 (0x1)')
+        invalid({packets: [{name: 'Packet', id: 1, fields: [{name: 'a', type: 'u8'}, {name: 'a', type: 'u8'}]}]},
+            'Duplicate field "a" in Packet')
+    })
+
+    it('loads the packet definitions at runtime', () => {
+        const {packets, structs} = loadSchema(schema)
+        assert.ok(structs.User)
+        const data = {users: [{name: 'a', level: 3}], scores: {a: 1}, note: undefined, totalScore: 5n}
+        const buffer = packets.TestPacket.create(new DataViewTracker(), data)
+        assert.strictEqual(new Uint8Array(buffer)[0], 2)
+        assert.deepStrictEqual(packets.TestPacket.decode(new DataView(buffer, 1), new DataViewTracker()), data)
+    })
+
+    it('generates TypeScript', () => {
+        assert.strictEqual(generateTypeScript(schema, {module: './lib'}), [
+            '// Code generated from schema. DO NOT EDIT.',
+            'import { Struct, Str, VarInt, PacketDefinition, Vec, MapType, u32, Optional, VarLong } from "./lib";',
+            '',
+            'export const User = Struct({',
+            '    name: Str,',
+            '    level: VarInt,',
+            "}, ['name', 'level'])",
+            '',
+            'export const TestPacket = new PacketDefinition(0x2, {',
+            '    users: Vec(User),',
+            '    scores: MapType(Str, u32),',
+            '    note: Optional(Str),',
+            '    totalScore: VarLong,',
+            "}, ['users', 'scores', 'note', 'totalScore'])",
+            ''
+        ].join('\n'))
+    })
+
+    it('generates Go', () => {
+        const code = generateGo(schema)
+        assert.ok(code.includes('package packets'))
+        assert.ok(code.includes('\tTestPacketID = 0x2\n'))
+        assert.ok(code.includes('\tLevel uint32 // VarInt\n'))
+        assert.ok(code.includes('\tScores map[string]uint32 // Map<Str, u32>\n'))
+        assert.ok(code.includes('\tTotalScore uint64 // VarLong\n'))
+    })
+
+    it('generates Rust using the native integer types for varints', () => {
+        const code = generateRust(schema)
+        assert.ok(code.includes('use std::collections::HashMap;'))
+        assert.ok(code.includes('pub const TEST_PACKET_ID: u32 = 0x2;'))
+        assert.ok(code.includes('    pub level: u32, // VarInt\n'))
+        assert.ok(code.includes('    pub total_score: u64, // VarLong\n'))
+        assert.ok(code.includes('    pub note: Option<String>, // Optional<Str>\n'))
+    })
+})
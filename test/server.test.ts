@@ -0,0 +1,210 @@
+import assert from "assert";
+import {
+    BinarySocket, CloseInfo, Config, Connection, HandshakeMismatch, loopbackPair, PacketDefinition, PacketServer,
+    ServerConfig, Str, VarInt
+} from "../src";
+
+const TextPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+const CountPacket = new PacketDefinition(0x02, {count: VarInt}, ['count'])
+
+// Waits for the pending microtasks (the loopback delivers everything in microtasks)
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// A client connected to the server over a loopback along with the text packets it received
+interface Client {
+    socket: BinarySocket;
+    connection: Connection;
+    received: string[];
+}
+
+/**
+ * Connects a new client to the server over a loopback
+ *
+ * @param server The server to connect to
+ * @param config The configuration of the client socket
+ */
+function connect(server: PacketServer, config?: Config): Client {
+    const [clientConnector, serverConnector] = loopbackPair()
+    const connection = server.accept(serverConnector)
+    const socket = new BinarySocket(clientConnector, config)
+    const received: string[] = []
+    socket.definePackets(TextPacket)
+    socket.addListener(TextPacket, packet => received.push(packet.text))
+    return {socket, connection, received}
+}
+
+describe('PacketServer handshake', () => {
+    const handshake = {version: 2, packets: [TextPacket, CountPacket]}
+
+    // Creates a server using the handshake which records its events
+    function server(config: ServerConfig) {
+        const events: string[] = []
+        const mismatches: HandshakeMismatch[] = []
+        const server = new PacketServer(config)
+        server.addEventListener('connect', () => events.push('connect'))
+        server.addEventListener('mismatch', ({mismatch}) => mismatches.push(mismatch))
+        server.addEventListener('error', ({error}) => events.push(`error: ${error.message}`))
+        return {server, events, mismatches}
+    }
+
+    it('responds to the handshake so the socket opens', async () => {
+        const {server: packetServer, events} = server({handshake})
+        const counts: number[] = []
+        packetServer.on(CountPacket, packet => counts.push(packet.count))
+        const client = connect(packetServer, {handshake, queue: true})
+        client.socket.send(CountPacket, {count: 1})
+        let opened = false
+        client.socket.addEventListener('open', () => opened = true)
+        await settle()
+        assert.strictEqual(opened, true)
+        assert.deepStrictEqual(events, ['connect'])
+        assert.deepStrictEqual(packetServer.connections, [client.connection])
+        assert.deepStrictEqual(counts, [1])
+        client.connection.send(TextPacket, {text: 'hello'})
+        await settle()
+        assert.deepStrictEqual(client.received, ['hello'])
+        client.socket.close()
+    })
+
+    it("doesn't emit connect until the handshake is received", async () => {
+        const {server: packetServer, events} = server({handshake})
+        const [, serverConnector] = loopbackPair()
+        const connection = packetServer.accept(serverConnector)
+        await settle()
+        assert.deepStrictEqual(events, [])
+        assert.deepStrictEqual(packetServer.connections, [])
+        packetServer.broadcast(TextPacket, {text: 'ignored'})
+        connection.close()
+    })
+
+    it('responds with compression and batching enabled', async () => {
+        const {server: packetServer} = server({handshake, compression: {threshold: 0}, batch: true})
+        const client = connect(packetServer, {handshake, compression: {threshold: 0}, batch: true})
+        await new Promise(resolve => client.socket.addEventListener('open', resolve))
+        packetServer.broadcast(TextPacket, {text: 'compressed'})
+        await new Promise(resolve => setTimeout(resolve, 20))
+        assert.deepStrictEqual(client.received, ['compressed'])
+        client.socket.close()
+    })
+
+    it('closes connections whose protocol is different', async () => {
+        const {server: packetServer, events, mismatches} = server({handshake})
+        const client = connect(packetServer, {handshake: {version: 1, packets: [TextPacket]}})
+        const closes: CloseInfo[] = []
+        client.socket.addEventListener('close', info => closes.push(info))
+        await settle()
+        assert.strictEqual(mismatches.length, 1)
+        assert.strictEqual(mismatches[0].version, 2)
+        assert.strictEqual(mismatches[0].remoteVersion, 1)
+        assert.notStrictEqual(mismatches[0].fingerprint, mismatches[0].remoteFingerprint)
+        assert.deepStrictEqual(events, [])
+        assert.deepStrictEqual(closes.map(info => info.code), [1002])
+        client.socket.close()
+    })
+
+    it('accepts connections whose protocol is different when not strict', async () => {
+        const {server: packetServer, events, mismatches} = server({handshake: {...handshake, strict: false}})
+        const client = connect(packetServer, {handshake: {version: 3, fingerprint: 1, strict: false}})
+        const clientMismatches: HandshakeMismatch[] = []
+        client.socket.addEventListener('mismatch', mismatch => clientMismatches.push(mismatch))
+        await settle()
+        assert.strictEqual(mismatches.length, 1)
+        assert.deepStrictEqual(events, ['connect'])
+        assert.strictEqual(clientMismatches.length, 1)
+        assert.strictEqual(clientMismatches[0].remoteVersion, 2)
+        client.socket.close()
+    })
+
+    it('reports packets received before the handshake', async () => {
+        const {server: packetServer, events} = server({handshake})
+        const client = connect(packetServer)
+        await settle()
+        client.socket.send(TextPacket, {text: 'too early'})
+        await settle()
+        assert.deepStrictEqual(events, ['error: Expected the handshake packet (offset 1)'])
+        assert.deepStrictEqual(packetServer.connections, [])
+        client.socket.close()
+    })
+})
+
+describe('PacketServer groups', () => {
+    let server: PacketServer
+
+    beforeEach(() => {
+        server = new PacketServer()
+    })
+
+    it('adds and removes members', async () => {
+        const first = connect(server), second = connect(server)
+        await settle()
+        first.connection.join('lobby')
+        first.connection.join('lobby')
+        second.connection.join('lobby')
+        first.connection.join('game')
+        assert.deepStrictEqual(server.members('lobby'), [first.connection, second.connection])
+        assert.deepStrictEqual(server.members('game'), [first.connection])
+        assert.strictEqual(first.connection.inGroup('game'), true)
+        first.connection.leave('lobby')
+        first.connection.leave('missing')
+        assert.deepStrictEqual(server.members('lobby'), [second.connection])
+        assert.strictEqual(first.connection.inGroup('lobby'), false)
+        second.connection.leave('lobby')
+        assert.deepStrictEqual(server.members('lobby'), [])
+        server.close()
+    })
+
+    it('removes connections from their groups when they close', async () => {
+        const first = connect(server), second = connect(server)
+        const disconnects: Connection[] = []
+        server.addEventListener('disconnect', ({connection}) => disconnects.push(connection))
+        await settle()
+        first.connection.join('lobby')
+        first.connection.join('game')
+        second.connection.join('lobby')
+        first.socket.close()
+        await settle()
+        assert.deepStrictEqual(disconnects, [first.connection])
+        assert.deepStrictEqual(server.connections, [second.connection])
+        assert.deepStrictEqual(server.members('lobby'), [second.connection])
+        assert.deepStrictEqual(server.members('game'), [])
+        assert.strictEqual(first.connection.inGroup('lobby'), false)
+        server.close()
+    })
+})
+
+describe('PacketServer broadcast', () => {
+    let server: PacketServer
+    let clients: Client[]
+
+    beforeEach(async () => {
+        server = new PacketServer()
+        clients = [connect(server), connect(server), connect(server)]
+        await settle()
+    })
+
+    afterEach(() => server.close())
+
+    it('sends to all the open connections', async () => {
+        server.broadcast(TextPacket, {text: 'everyone'})
+        await settle()
+        assert.deepStrictEqual(clients.map(client => client.received), [['everyone'], ['everyone'], ['everyone']])
+    })
+
+    it('only sends to the members of the group', async () => {
+        clients[0].connection.join('lobby')
+        clients[2].connection.join('lobby')
+        server.broadcast(TextPacket, {text: 'lobby'}, 'lobby')
+        server.broadcast(TextPacket, {text: 'nobody'}, 'empty')
+        await settle()
+        assert.deepStrictEqual(clients.map(client => client.received), [['lobby'], [], ['lobby']])
+    })
+
+    it('skips connections which have closed', async () => {
+        clients[1].socket.close()
+        server.broadcast(TextPacket, {text: 'first'})
+        await settle()
+        server.broadcast(TextPacket, {text: 'second'})
+        await settle()
+        assert.deepStrictEqual(clients.map(client => client.received), [['first', 'second'], [], ['first', 'second']])
+    })
+})
@@ -0,0 +1,386 @@
+import assert from "assert";
+import {
+    BinarySocket, Config, DecodeError, exponentialBackoff, fixedDelay, PacketDefinition, RequestError, Str, VarInt
+} from "../src";
+import { DataType, DataViewTracker } from "../src/data";
+import { FakeWebSocket, header, packet } from "./websocket";
+
+const LoginPacket = new PacketDefinition(0x01, {name: Str}, ['name'])
+const LoginResponsePacket = new PacketDefinition(0x02, {id: VarInt}, ['id'])
+const ErrorPacket = new PacketDefinition(0x03, {reason: Str}, ['reason'])
+
+// Waits for the provided number of milliseconds
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Creates a socket connected to a new fake websocket
+ *
+ * @param config The configuration of the socket
+ * @param open Whether to open the fake websocket
+ */
+function connect(config?: Config, open: boolean = true): { socket: BinarySocket, ws: FakeWebSocket } {
+    const socket = new BinarySocket('ws://localhost', config)
+    const ws = FakeWebSocket.last
+    if (open) ws.open()
+    return {socket, ws}
+}
+
+describe('BinarySocket requests', () => {
+    const config: Config = {requestIds: true, errorPacket: ErrorPacket}
+
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('resolves requests with the response carrying the same request id', async () => {
+        const {socket, ws} = connect(config)
+        const listened: number[] = []
+        socket.definePackets(LoginResponsePacket)
+        socket.addListener(LoginResponsePacket, packet => listened.push(packet.id))
+        const first = socket.request(LoginPacket, {name: 'first'}, LoginResponsePacket)
+        const second = socket.request(LoginPacket, {name: 'second'}, LoginResponsePacket)
+        assert.deepStrictEqual(ws.sent.map(header), [[0x01, 1], [0x01, 2]])
+        ws.receive(packet(LoginResponsePacket, {id: 20}, 2))
+        ws.receive(packet(LoginResponsePacket, {id: 10}, 1))
+        ws.receive(packet(LoginResponsePacket, {id: 30}, 0))
+        assert.deepStrictEqual(await first, {id: 10})
+        assert.deepStrictEqual(await second, {id: 20})
+        assert.deepStrictEqual(listened, [30])
+    })
+
+    it('rejects with the error packet', async () => {
+        const {socket, ws} = connect(config)
+        const response = socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket)
+        ws.receive(packet(ErrorPacket, {reason: 'Name taken'}, 1))
+        await assert.rejects(response, (error: RequestError) => {
+            assert.ok(error instanceof RequestError)
+            assert.deepStrictEqual(error.data, {reason: 'Name taken'})
+            return true
+        })
+    })
+
+    it('rejects when the timeout expires', async () => {
+        const {socket} = connect({...config, requestTimeout: 10000})
+        const response = socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket, {timeout: 5})
+        await assert.rejects(response, /Request timed out after 5ms/)
+    })
+
+    it('rejects pending requests when the socket closes', async () => {
+        const {socket, ws} = connect(config)
+        const response = socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket)
+        ws.close()
+        await assert.rejects(response, /Socket closed before receiving a response/)
+    })
+
+    it('rejects pending requests when the socket is closed', async () => {
+        const {socket} = connect(config)
+        const response = socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket)
+        socket.close()
+        await assert.rejects(response, /Socket closed before receiving a response/)
+    })
+
+    it('rejects requests made after the socket has closed', async () => {
+        const {socket, ws} = connect(config)
+        socket.close()
+        await assert.rejects(socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket), /Socket closed/)
+        assert.deepStrictEqual(ws.sent, [])
+    })
+
+    it("rejects requests made after the connection closed and won't reconnect", async () => {
+        const {socket, ws} = connect(config)
+        ws.close()
+        await assert.rejects(socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket), /Socket closed/)
+    })
+
+    it('requires the requestIds config option', async () => {
+        const {socket} = connect()
+        await assert.rejects(socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket), /requestIds/)
+    })
+})
+
+describe('BinarySocket queue', () => {
+    // Decodes the ids of the login responses sent through the websocket
+    const responseIds = (ws: FakeWebSocket) => ws.sent.map(data => {
+        return LoginResponsePacket.decode(new DataView(data, 1), new DataViewTracker()).id
+    })
+
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('throws when sending before the socket opens without the queue', () => {
+        const {socket} = connect({}, false)
+        assert.throws(() => socket.send(LoginPacket, {name: 'test'}))
+    })
+
+    it('sends the queued packets in order once the socket opens', () => {
+        const {socket, ws} = connect({queue: true}, false)
+        socket.send(LoginPacket, {name: 'first'})
+        socket.send(LoginResponsePacket, {id: 1})
+        assert.deepStrictEqual(ws.sent, [])
+        ws.open()
+        assert.deepStrictEqual(ws.sent.map(header).map(([id]) => id), [0x01, 0x02])
+    })
+
+    it('drops the oldest packets once the queue is full', () => {
+        const {socket, ws} = connect({queue: {maxSize: 2}}, false)
+        socket.send(LoginResponsePacket, {id: 1})
+        socket.send(LoginResponsePacket, {id: 2})
+        socket.send(LoginResponsePacket, {id: 3})
+        ws.open()
+        assert.deepStrictEqual(responseIds(ws), [2, 3])
+    })
+
+    it('drops packets which have been queued for longer than the max age', async () => {
+        const {socket, ws} = connect({queue: {maxAge: 10}}, false)
+        socket.send(LoginResponsePacket, {id: 1})
+        await wait(30)
+        socket.send(LoginResponsePacket, {id: 2})
+        ws.open()
+        assert.deepStrictEqual(responseIds(ws), [2])
+    })
+
+    it('discards the queue when the socket is closed', () => {
+        const {socket, ws} = connect({queue: true}, false)
+        socket.send(LoginPacket, {name: 'test'})
+        socket.close()
+        ws.open()
+        assert.deepStrictEqual(ws.sent, [])
+    })
+})
+
+describe('BinarySocket once and stream', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    /**
+     * Creates an open socket which receives the login response packet
+     */
+    function responses() {
+        const connection = connect()
+        connection.socket.definePackets(LoginResponsePacket)
+        return connection
+    }
+
+    it('returns a function which removes the listener from addListener', () => {
+        const {socket, ws} = responses()
+        const ids: number[] = []
+        const remove = socket.addListener(LoginResponsePacket, packet => ids.push(packet.id))
+        ws.receive(packet(LoginResponsePacket, {id: 1}))
+        remove()
+        ws.receive(packet(LoginResponsePacket, {id: 2}))
+        assert.deepStrictEqual(ids, [1])
+    })
+
+    it('resolves once with the next packet that matches the filter', async () => {
+        const {socket, ws} = responses()
+        const response = socket.once(LoginResponsePacket, {filter: packet => packet.id > 1})
+        ws.receive(packet(LoginResponsePacket, {id: 1}))
+        ws.receive(packet(LoginResponsePacket, {id: 2}))
+        ws.receive(packet(LoginResponsePacket, {id: 3}))
+        assert.deepStrictEqual(await response, {id: 2})
+    })
+
+    it('rejects once when the timeout expires', async () => {
+        const {socket} = responses()
+        await assert.rejects(socket.once(LoginResponsePacket, {timeout: 5}), /Timed out waiting for the packet after 5ms/)
+    })
+
+    it('rejects once when the socket closes', async () => {
+        const {socket} = responses()
+        const response = socket.once(LoginResponsePacket)
+        socket.close()
+        await assert.rejects(response, /Socket closed before receiving the packet/)
+        await assert.rejects(socket.once(LoginResponsePacket), /Socket closed before receiving the packet/)
+    })
+
+    it('keeps waiting while the socket reconnects', async () => {
+        const {socket, ws} = connect({reconnectTimeout: 1})
+        socket.definePackets(LoginResponsePacket)
+        const response = socket.once(LoginResponsePacket)
+        ws.close()
+        await wait(10)
+        FakeWebSocket.last.open()
+        FakeWebSocket.last.receive(packet(LoginResponsePacket, {id: 4}))
+        assert.deepStrictEqual(await response, {id: 4})
+        socket.close()
+    })
+
+    it('streams the buffered packets until the socket closes', async () => {
+        const {socket, ws} = responses()
+        const stream = socket.stream(LoginResponsePacket)
+        ws.receive(packet(LoginResponsePacket, {id: 1}))
+        ws.receive(packet(LoginResponsePacket, {id: 2}))
+        const ids: number[] = []
+        const iterated = (async () => {
+            for await (let response of stream) ids.push(response.id)
+        })()
+        await wait(0)
+        ws.receive(packet(LoginResponsePacket, {id: 3}))
+        socket.close()
+        await iterated
+        assert.deepStrictEqual(ids, [1, 2, 3])
+    })
+
+    it('stops listening when breaking out of the stream', async () => {
+        const {socket, ws} = responses()
+        const ids: number[] = []
+        socket.addListener(LoginResponsePacket, packet => ids.push(packet.id))
+        setTimeout(() => {
+            ws.receive(packet(LoginResponsePacket, {id: 1}))
+            ws.receive(packet(LoginResponsePacket, {id: 2}))
+        }, 0)
+        const stream = socket.stream(LoginResponsePacket)
+        for await (let response of stream) {
+            assert.strictEqual(response.id, 1)
+            break
+        }
+        ws.receive(packet(LoginResponsePacket, {id: 3}))
+        assert.deepStrictEqual(ids, [1, 2, 3])
+        assert.deepStrictEqual(await stream.next(), {done: true, value: undefined})
+    })
+})
+
+describe('BinarySocket reconnect', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('reconnects until the strategy gives up', async () => {
+        const {socket, ws} = connect({reconnect: fixedDelay(1, 2)})
+        const events: string[] = []
+        socket.addEventListener('reconnect', attempt => events.push(`reconnect ${attempt}`))
+        socket.addEventListener('giveup', attempts => events.push(`giveup ${attempts}`))
+        ws.close()
+        await wait(10)
+        assert.strictEqual(FakeWebSocket.instances.length, 2)
+        FakeWebSocket.last.close()
+        await wait(10)
+        FakeWebSocket.last.close()
+        await wait(10)
+        assert.strictEqual(FakeWebSocket.instances.length, 3)
+        assert.deepStrictEqual(events, ['reconnect 1', 'reconnect 2', 'giveup 2'])
+    })
+
+    it('resets the attempts after connecting', async () => {
+        const {socket, ws} = connect({reconnect: fixedDelay(1, 1)})
+        const attempts: number[] = []
+        socket.addEventListener('reconnect', attempt => attempts.push(attempt))
+        ws.close()
+        await wait(10)
+        FakeWebSocket.last.open()
+        FakeWebSocket.last.close()
+        await wait(10)
+        assert.deepStrictEqual(attempts, [1, 1])
+        socket.close()
+    })
+
+    it('stops reconnecting once closed', async () => {
+        const {socket} = connect({reconnectTimeout: 1})
+        socket.close()
+        await wait(10)
+        assert.strictEqual(FakeWebSocket.instances.length, 1)
+    })
+
+    it('increases the backoff delay up to the max', () => {
+        const strategy = exponentialBackoff({initial: 100, max: 500, jitter: 0, maxAttempts: 5})
+        assert.deepStrictEqual([1, 2, 3, 4, 5, 6].map(attempt => strategy.delay(attempt)), [100, 200, 400, 500, 500, undefined])
+        const jittered = exponentialBackoff({initial: 100, jitter: 0.5}).delay(1)!
+        assert.ok(jittered > 50 && jittered <= 100)
+    })
+})
+
+describe('BinarySocket middleware', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('runs the inbound middleware in order before the listeners', () => {
+        const {socket, ws} = connect()
+        const calls: string[] = []
+        socket.definePackets(LoginPacket)
+        socket.setInterceptor((id, data) => calls.push(`interceptor ${id} ${data.name}`))
+        socket.useInbound((id, data, next) => {
+            calls.push(`first ${data.name}`)
+            next({name: String(data.name).toUpperCase()})
+        })
+        socket.useInbound((id, data, next) => {
+            calls.push(`second ${data.name}`)
+            if (data.name !== 'DROPPED') next(data)
+        })
+        socket.addListener(LoginPacket, packet => calls.push(`listener ${packet.name}`))
+        ws.receive(packet(LoginPacket, {name: 'test'}))
+        ws.receive(packet(LoginPacket, {name: 'dropped'}))
+        assert.deepStrictEqual(calls, [
+            'interceptor 1 test', 'first test', 'second TEST', 'listener TEST',
+            'interceptor 1 dropped', 'first dropped', 'second DROPPED'
+        ])
+    })
+
+    it('runs the outbound middleware before encoding', async () => {
+        const {socket, ws} = connect()
+        const remove = socket.useOutbound((definition, data, next) => {
+            if (definition === LoginPacket) next({name: `${data.name}!`})
+            else setTimeout(() => next(data), 1)
+        })
+        socket.send(LoginPacket, {name: 'test'})
+        socket.send(LoginResponsePacket, {id: 1})
+        assert.strictEqual(ws.sent.length, 1)
+        assert.deepStrictEqual(LoginPacket.decode(new DataView(ws.sent[0], 1), new DataViewTracker()), {name: 'test!'})
+        await wait(10)
+        assert.strictEqual(ws.sent.length, 2)
+        remove()
+        socket.send(LoginPacket, {name: 'test'})
+        assert.deepStrictEqual(LoginPacket.decode(new DataView(ws.sent[2], 1), new DataViewTracker()), {name: 'test'})
+    })
+
+    it('runs the outbound middleware for requests', async () => {
+        const {socket, ws} = connect({requestIds: true})
+        socket.useOutbound((definition, data, next) => next({name: 'changed'}))
+        socket.useInbound((id, data, next) => next({id: Number(data.id) + 1}))
+        const response = socket.request(LoginPacket, {name: 'test'}, LoginResponsePacket)
+        assert.deepStrictEqual(header(ws.sent[0]), [0x01, 1])
+        assert.deepStrictEqual(LoginPacket.decode(new DataView(ws.sent[0], 2), new DataViewTracker()), {name: 'changed'})
+        ws.receive(packet(LoginResponsePacket, {id: 1}, 1))
+        assert.deepStrictEqual(await response, {id: 2})
+    })
+})
+
+describe('BinarySocket decode errors', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('emits decode errors and continues with the next packet', () => {
+        const {socket, ws} = connect()
+        const errors: DecodeError[] = [], names: string[] = []
+        socket.definePackets(LoginPacket)
+        socket.addEventListener('error', error => errors.push(error as DecodeError))
+        socket.addListener(LoginPacket, packet => names.push(packet.name))
+        ws.receive(new Uint8Array([0x01, 5, 0x61]).buffer)
+        ws.receive(packet(LoginPacket, {name: 'next'}))
+        assert.strictEqual(errors.length, 1)
+        assert.ok(errors[0] instanceof DecodeError)
+        assert.strictEqual(errors[0].packetId, 0x01)
+        assert.strictEqual(errors[0].offset, 2)
+        assert.deepStrictEqual(names, ['next'])
+    })
+
+    it('wraps errors thrown by custom data types', () => {
+        const Failing: DataType<number> = {
+            size: 1,
+            encode: (d, t, v) => d.setUint8(t.one(), v),
+            decode: () => {
+                throw new Error('Not supported')
+            }
+        }
+        const FailingPacket = new PacketDefinition(0x04, {value: Failing}, ['value'])
+        const {socket, ws} = connect()
+        const errors: DecodeError[] = []
+        socket.definePackets(FailingPacket)
+        socket.addEventListener('error', error => errors.push(error as DecodeError))
+        ws.receive(packet(FailingPacket, {value: 1}))
+        assert.strictEqual(errors.length, 1)
+        assert.strictEqual(errors[0].message, 'Unexpected error: Not supported at value (offset 1)')
+        assert.strictEqual(errors[0].packetId, 0x04)
+        assert.ok(errors[0].source instanceof Error)
+    })
+
+    it('applies the decode limits from the config', () => {
+        const {socket, ws} = connect({limits: {maxStringLength: 2}})
+        const errors: DecodeError[] = []
+        socket.definePackets(LoginPacket)
+        socket.addEventListener('error', error => errors.push(error as DecodeError))
+        ws.receive(packet(LoginPacket, {name: 'long'}))
+        assert.deepStrictEqual(errors.map(error => error.message), ['Length 4 exceeds maxStringLength of 2 at name (offset 2)'])
+    })
+})
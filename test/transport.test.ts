@@ -0,0 +1,184 @@
+import assert from "assert";
+import {
+    BinarySocket, CloseInfo, loopbackPair, PacketDefinition, Str, Transport, TransportHandlers, webSocketTransport
+} from "../src";
+import { FakeWebSocket, packet } from "./websocket";
+
+// The events reported to the handlers of a transport
+type TransportEvent = 'open' | ['close', number, string] | ['message', number[]] | ['error', unknown]
+
+/**
+ * Creates handlers which record each of the events they receive
+ *
+ * @param events The array the events are added to
+ */
+function recorder(events: TransportEvent[]): TransportHandlers {
+    return {
+        open: () => events.push('open'),
+        close: (info: CloseInfo) => events.push(['close', info.code, info.reason]),
+        message: (data: ArrayBuffer) => events.push(['message', Array.from(new Uint8Array(data))]),
+        error: (error: unknown) => events.push(['error', error])
+    }
+}
+
+// Waits for the pending microtasks (the loopback delivers everything in microtasks)
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// Creates a buffer containing the provided bytes
+const bytes = (...values: number[]) => new Uint8Array(values).buffer
+
+describe('loopbackPair', () => {
+    let clientEvents: TransportEvent[], serverEvents: TransportEvent[]
+    let client: Transport, server: Transport
+
+    beforeEach(() => {
+        clientEvents = []
+        serverEvents = []
+        const [clientConnector, serverConnector] = loopbackPair()
+        client = clientConnector(recorder(clientEvents))
+        server = serverConnector(recorder(serverEvents))
+    })
+
+    it('opens both sides once both have connected', async () => {
+        assert.strictEqual(client.open, false)
+        assert.strictEqual(server.open, false)
+        await settle()
+        assert.strictEqual(client.open, true)
+        assert.strictEqual(server.open, true)
+        assert.deepStrictEqual(clientEvents, ['open'])
+        assert.deepStrictEqual(serverEvents, ['open'])
+    })
+
+    it('only opens once the second side connects', async () => {
+        const events: TransportEvent[] = []
+        const [first, second] = loopbackPair()
+        const transport = first(recorder(events))
+        await settle()
+        assert.strictEqual(transport.open, false)
+        assert.deepStrictEqual(events, [])
+        second(recorder([]))
+        await settle()
+        assert.strictEqual(transport.open, true)
+        assert.deepStrictEqual(events, ['open'])
+    })
+
+    it('delivers messages asynchronously in the order they were sent', async () => {
+        await settle()
+        client.send(bytes(1))
+        client.send(bytes(2, 3))
+        server.send(bytes(4))
+        client.send(bytes(5))
+        assert.deepStrictEqual(serverEvents, ['open'])
+        await settle()
+        assert.deepStrictEqual(serverEvents, ['open', ['message', [1]], ['message', [2, 3]], ['message', [5]]])
+        assert.deepStrictEqual(clientEvents, ['open', ['message', [4]]])
+    })
+
+    it('copies sent data', async () => {
+        await settle()
+        const data = new Uint8Array([1, 2])
+        client.send(data.buffer)
+        data[0] = 9
+        await settle()
+        assert.deepStrictEqual(serverEvents[1], ['message', [1, 2]])
+    })
+
+    it('throws when sending before open', () => {
+        assert.throws(() => client.send(bytes(1)), /not open/)
+    })
+
+    it('closes both sides with the close code and reason', async () => {
+        await settle()
+        server.close(4000, 'Kicked')
+        assert.strictEqual(client.open, false)
+        assert.strictEqual(server.open, false)
+        await settle()
+        assert.deepStrictEqual(clientEvents, ['open', ['close', 4000, 'Kicked']])
+        assert.deepStrictEqual(serverEvents, ['open', ['close', 4000, 'Kicked']])
+        assert.throws(() => client.send(bytes(1)), /not open/)
+    })
+
+    it('defaults to a normal close', async () => {
+        await settle()
+        client.close()
+        client.close()
+        await settle()
+        assert.deepStrictEqual(serverEvents, ['open', ['close', 1000, '']])
+        assert.deepStrictEqual(clientEvents, ['open', ['close', 1000, '']])
+    })
+
+    it("doesn't deliver messages sent before the other side closed", async () => {
+        await settle()
+        client.send(bytes(1))
+        server.close()
+        await settle()
+        assert.deepStrictEqual(serverEvents, ['open', ['close', 1000, '']])
+    })
+
+    it("doesn't open when closed before both sides have connected", async () => {
+        const events: TransportEvent[] = []
+        const [first, second] = loopbackPair()
+        first(recorder(events)).close()
+        second(recorder([]))
+        await settle()
+        assert.deepStrictEqual(events, [['close', 1000, '']])
+    })
+
+    it('only allows each side to connect once', () => {
+        const [first] = loopbackPair()
+        first(recorder([]))
+        assert.throws(() => first(recorder([])), /already connected/)
+    })
+})
+
+describe('webSocketTransport', () => {
+    beforeEach(() => FakeWebSocket.reset())
+
+    it('reports the events of the WebSocket', () => {
+        const events: TransportEvent[] = []
+        const transport = webSocketTransport('ws://localhost', FakeWebSocket, 'binary')(recorder(events))
+        const ws = FakeWebSocket.last
+        assert.strictEqual(ws.protocols, 'binary')
+        assert.strictEqual(ws.binaryType, 'arraybuffer')
+        assert.strictEqual(transport.open, false)
+        ws.open()
+        assert.strictEqual(transport.open, true)
+        transport.send(bytes(1, 2))
+        assert.deepStrictEqual(ws.sent.map(data => Array.from(new Uint8Array(data))), [[1, 2]])
+        ws.receive(bytes(3))
+        transport.close(4000, 'Done')
+        assert.deepStrictEqual(events, ['open', ['message', [3]], ['close', 4000, 'Done']])
+    })
+})
+
+describe('BinarySocket transports', () => {
+    const TextPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+
+    it('connects using the WebSocket from the config', () => {
+        FakeWebSocket.reset()
+        const socket = new BinarySocket('ws://localhost', {WebSocket: FakeWebSocket, protocols: ['binary']})
+        const received: string[] = []
+        socket.definePackets(TextPacket)
+        socket.addListener(TextPacket, packet => received.push(packet.text))
+        assert.deepStrictEqual(FakeWebSocket.last.protocols, ['binary'])
+        FakeWebSocket.last.receive(packet(TextPacket, {text: 'hello'}))
+        assert.deepStrictEqual(received, ['hello'])
+    })
+
+    it('connects using a connector', async () => {
+        const [clientConnector, serverConnector] = loopbackPair()
+        const events: TransportEvent[] = []
+        const server = serverConnector(recorder(events))
+        const socket = new BinarySocket(clientConnector)
+        let opened = false
+        socket.addEventListener('open', () => opened = true)
+        await settle()
+        assert.strictEqual(opened, true)
+        socket.send(TextPacket, {text: 'hi'})
+        await settle()
+        assert.deepStrictEqual(events, ['open', ['message', [0x01, 2, 0x68, 0x69]]])
+        server.close()
+        await settle()
+        socket.close()
+    })
+})
@@ -0,0 +1,117 @@
+import assert from "assert";
+import {
+    BinarySocket, EncodeError, Enum, i64, Latin1Str, Optional, PacketDefinition, Str, Struct, u8, Union, Vec
+} from "../src";
+import { DataViewTracker } from "../src/data";
+import { FakeWebSocket } from "./websocket";
+
+const UserPacket = new PacketDefinition(0x02, {
+    name: Str,
+    age: u8,
+    nickname: Optional(Latin1Str),
+    friends: Vec(Struct({name: Str, score: i64}, ['name', 'score']))
+}, ['name', 'age', 'nickname', 'friends'])
+
+/**
+ * Checks that validating the packet data throws an encode error
+ *
+ * @param data The invalid packet data
+ * @param message The expected error message
+ */
+function invalid(data: any, message: string) {
+    assert.throws(() => UserPacket.validate(new DataViewTracker(), data), (error: EncodeError) => {
+        assert.ok(error instanceof EncodeError)
+        assert.strictEqual(error.packetId, 0x02)
+        assert.strictEqual(error.message, message)
+        return true
+    })
+}
+
+describe('Validation', () => {
+    const valid = {name: 'a', age: 20, friends: [{name: 'b', score: 1n}]}
+
+    it('accepts valid packets', () => {
+        UserPacket.validate(new DataViewTracker(), valid)
+        UserPacket.validate(new DataViewTracker(), {...valid, nickname: 'café'})
+    })
+
+    it('rejects values outside of the range of the data type', () => {
+        invalid({...valid, age: 300}, 'Expected an integer from 0 to 255 at age in packet 2 (value 300)')
+        invalid({...valid, age: 1.5}, 'Expected an integer from 0 to 255 at age in packet 2 (value 1.5)')
+    })
+
+    it('includes the path to nested fields', () => {
+        const friends = [{name: 'b', score: 1n}, {name: 'c', score: 2}]
+        invalid({...valid, friends},
+            'Expected a bigint that fits a 64-bit signed integer at friends[1].score in packet 2 (value 2)')
+        invalid({...valid, nickname: '€'}, 'Contains characters outside of Latin-1 at nickname in packet 2 (value "€")')
+    })
+
+    it('rejects missing fields unless they are optional', () => {
+        invalid({age: 20, friends: []}, 'Missing value at name in packet 2 (value undefined)')
+    })
+})
+
+describe('Encode errors', () => {
+    const Color = Enum(Str, ['red', 'green'] as const)
+    const Shape = Union({0: Struct({radius: u8}, ['radius'])})
+    const DrawPacket = new PacketDefinition(0x03, {shapes: Vec(Shape), color: Color}, ['shapes', 'color'])
+
+    it('include the field path even when validation is disabled', () => {
+        const tracker = new DataViewTracker()
+        assert.throws(() => DrawPacket.create(tracker, {shapes: [], color: 'blue' as any}), (error: EncodeError) => {
+            assert.ok(error instanceof EncodeError)
+            assert.strictEqual(error.path, 'color')
+            return true
+        })
+        assert.throws(() => DrawPacket.create(tracker, {shapes: [{type: 1, value: {}} as any], color: 'red'}), EncodeError)
+        const buffer = DrawPacket.create(tracker, {shapes: [], color: 'red'})
+        assert.deepStrictEqual(Array.from(new Uint8Array(buffer)), [0x03, 0, 3, 0x72, 0x65, 0x64])
+    })
+})
+
+describe('BinarySocket validation', () => {
+    const invalidUser = {name: 'a', age: 300, friends: []}
+
+    beforeEach(() => FakeWebSocket.reset())
+
+    /**
+     * Creates an open socket with validation enabled
+     */
+    function connect() {
+        const socket = new BinarySocket('ws://localhost', {validate: true, requestIds: true})
+        const ws = FakeWebSocket.last
+        ws.open()
+        return {socket, ws}
+    }
+
+    it('emits invalid packets as errors without sending them', () => {
+        const {socket, ws} = connect()
+        const errors: unknown[] = []
+        socket.addEventListener('error', error => errors.push(error))
+        socket.send(UserPacket, invalidUser)
+        assert.strictEqual(errors.length, 1)
+        assert.ok(errors[0] instanceof EncodeError)
+        assert.deepStrictEqual(ws.sent, [])
+    })
+
+    it('throws invalid packets when there are no error listeners', () => {
+        const {socket} = connect()
+        assert.throws(() => socket.send(UserPacket, invalidUser), EncodeError)
+        assert.throws(() => socket.createBuffer(UserPacket, invalidUser), EncodeError)
+    })
+
+    it('rejects requests with invalid packets', async () => {
+        const {socket, ws} = connect()
+        await assert.rejects(socket.request(UserPacket, invalidUser, UserPacket), EncodeError)
+        assert.deepStrictEqual(ws.sent, [])
+    })
+
+    it('sends invalid packets when validation is disabled', () => {
+        const socket = new BinarySocket('ws://localhost', {validate: false})
+        const ws = FakeWebSocket.last
+        ws.open()
+        socket.send(UserPacket, invalidUser)
+        assert.deepStrictEqual(Array.from(new Uint8Array(ws.sent[0])), [0x02, 1, 0x61, 44, 0, 0])
+    })
+})
@@ -0,0 +1,103 @@
+import { PacketDefinition, VarInt } from "../src";
+import { DataViewTracker, StructLayout, StructTyped } from "../src/data";
+
+/**
+ * A WebSocket that doesn't connect anywhere. The tests open, close and
+ * send messages to it by hand and read the messages it was sent. It is
+ * installed as the global WebSocket so sockets connecting to any url
+ * create one
+ */
+export class FakeWebSocket {
+    static readonly CONNECTING = 0
+    static readonly OPEN = 1
+    static readonly CLOSING = 2
+    static readonly CLOSED = 3
+
+    // The fake websockets created since the last reset
+    static instances: FakeWebSocket[] = []
+
+    readonly url: string | URL
+    readonly protocols?: string | string[]
+    readyState: number = FakeWebSocket.CONNECTING
+    binaryType: string = 'blob'
+    // The messages sent through the websocket
+    sent: ArrayBuffer[] = []
+
+    onopen: ((event: any) => any) | null = null
+    onclose: ((event: any) => any) | null = null
+    onmessage: ((event: any) => any) | null = null
+    onerror: ((event: any) => any) | null = null
+
+    constructor(url: string | URL, protocols?: string | string[]) {
+        this.url = url
+        this.protocols = protocols
+        FakeWebSocket.instances.push(this)
+    }
+
+    /**
+     * The most recently created fake websocket
+     */
+    static get last(): FakeWebSocket {
+        return FakeWebSocket.instances[FakeWebSocket.instances.length - 1]
+    }
+
+    /**
+     * Forgets the fake websockets that have been created
+     */
+    static reset() {
+        FakeWebSocket.instances = []
+    }
+
+    send(data: ArrayBuffer) {
+        if (this.readyState === FakeWebSocket.CONNECTING) throw new Error('WebSocket is still connecting')
+        this.sent.push(data)
+    }
+
+    close(code: number = 1000, reason: string = '') {
+        if (this.readyState === FakeWebSocket.CLOSED) return
+        this.readyState = FakeWebSocket.CLOSED
+        if (this.onclose) this.onclose({code, reason})
+    }
+
+    /**
+     * Opens the websocket as if the connection was established
+     */
+    open() {
+        this.readyState = FakeWebSocket.OPEN
+        if (this.onopen) this.onopen({})
+    }
+
+    /**
+     * Delivers a message to the websocket as if it was sent by the server
+     *
+     * @param data The message contents
+     */
+    receive(data: ArrayBuffer) {
+        if (this.onmessage) this.onmessage({data})
+    }
+}
+
+(globalThis as any).WebSocket = FakeWebSocket
+
+/**
+ * Encodes a packet the same way as a server would
+ *
+ * @param definition The definition of the packet
+ * @param data The packet data
+ * @param requestId The request id to include (if the packets have request ids)
+ * @return The encoded packet
+ */
+export function packet<T extends StructLayout>(definition: PacketDefinition<T>, data: StructTyped<T>, requestId?: number): ArrayBuffer {
+    return definition.create(new DataViewTracker(), data, requestId)
+}
+
+/**
+ * Decodes the packet id and request id at the start of a sent message
+ *
+ * @param data The sent message
+ * @return The packet id followed by the request id
+ */
+export function header(data: ArrayBuffer): [number, number] {
+    const view = new DataView(data), tracker = new DataViewTracker()
+    return [VarInt.decode(view, tracker), VarInt.decode(view, tracker)]
+}
@@ -0,0 +1,43 @@
+import assert from "assert";
+import { PacketDefinition, PacketWriter, Str, u8, Vec } from "../src";
+import { DataViewTracker } from "../src/data";
+
+const TextPacket = new PacketDefinition(0x01, {text: Str}, ['text'])
+const BytesPacket = new PacketDefinition(0x02, {bytes: Vec(u8)}, ['bytes'])
+
+describe('PacketWriter', () => {
+    it('encodes the same bytes as PacketDefinition.create', () => {
+        const writer = new PacketWriter()
+        const data = {text: 'hello'}
+        assert.strictEqual(writer.write(TextPacket, data, 3), 8)
+        assert.deepStrictEqual(writer.bytes(), new Uint8Array(TextPacket.create(new DataViewTracker(), data, 3)))
+    })
+
+    it('writes packets one after another', () => {
+        const writer = new PacketWriter()
+        writer.write(TextPacket, {text: 'a'})
+        writer.write(BytesPacket, {bytes: [1, 2]})
+        assert.strictEqual(writer.size(), 7)
+        assert.deepStrictEqual(Array.from(new Uint8Array(writer.toBuffer())), [0x01, 1, 0x61, 0x02, 2, 1, 2])
+        writer.reset()
+        assert.strictEqual(writer.size(), 0)
+        writer.write(TextPacket, {text: 'b'})
+        assert.deepStrictEqual(Array.from(writer.bytes()), [0x01, 1, 0x62])
+    })
+
+    it('grows to fit packets larger than the buffer', () => {
+        const writer = new PacketWriter(4)
+        writer.write(TextPacket, {text: 'a'})
+        const bytes = Array(100).fill(7)
+        writer.write(BytesPacket, {bytes})
+        assert.deepStrictEqual(Array.from(writer.bytes()), [0x01, 1, 0x61, 0x02, 100, ...bytes])
+    })
+
+    it('throws when a packet exceeds the max size', () => {
+        const writer = new PacketWriter(4, 16)
+        assert.throws(() => writer.write(BytesPacket, {bytes: Array(20).fill(0)}), /exceeds the max writer size of 16 bytes/)
+        assert.strictEqual(writer.size(), 0)
+        writer.write(TextPacket, {text: 'ok'})
+        assert.deepStrictEqual(Array.from(writer.bytes()), [0x01, 2, 0x6F, 0x6B])
+    })
+})